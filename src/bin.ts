@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+import { run } from './cli.js';
+import { logError } from './utils/banner.js';
+
+run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (e) => {
+    logError('ferry', 'Error generating types', e);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,177 @@
+import { parseArgs } from 'node:util';
+import { relative, resolve } from 'node:path';
+import pc from 'picocolors';
+import {
+  buildPackages,
+  checkPackages,
+  detectBreakingChanges,
+  loadConfigFile,
+  resolveConfig,
+  writePackage,
+  type ResolvedConfig,
+} from './config.js';
+import { logError, logRegeneration } from './utils/banner.js';
+import { formatUnifiedDiff } from './utils/check.js';
+import { createFileWatcher } from './utils/file-watcher.js';
+import type { GeneratedFiles } from './utils/package.js';
+import { setupApiWatcher } from './watchers/api.js';
+import { setupEnumWatcher } from './watchers/enums.js';
+import { setupInertiaWatcher } from './watchers/inertia.js';
+import { setupLangWatcher } from './watchers/lang.js';
+import { setupResourceWatcher } from './watchers/resources.js';
+import { setupRouteWatcher } from './watchers/routes.js';
+import { setupSchemaWatcher } from './watchers/schemas.js';
+
+const HELP = `Usage: ferry [options]
+
+Generate TypeScript packages from your Laravel application.
+
+Options:
+  -c, --config <file>  Config file (default: ferry.config.{ts,mts,js,mjs} in the current directory)
+  -w, --watch          Regenerate when PHP files change
+      --check          Fail if the generated enum and resource types on disk are out of date, without writing
+      --breaking       Fail on breaking changes since the last generation, without writing
+      --snapshot <dir> Output directory of the generation to compare against with --breaking
+      --json           Print the --breaking report as JSON
+  -h, --help           Show this help
+`;
+
+/**
+ * Watch PHP files with the same watchers the Vite plugin uses, writing packages to disk on change.
+ */
+function watch(config: ResolvedConfig, onWrite: () => void): void {
+  const server = { watcher: createFileWatcher() };
+
+  const writer =
+    ({ packageName, outputDir }: { packageName: string; outputDir: string }) =>
+    (files: GeneratedFiles) => {
+      writePackage(config, { packageName, outputDir, files });
+      onWrite();
+    };
+
+  setupEnumWatcher({ ...config.enums, server, onGenerate: writer(config.enums) });
+  setupResourceWatcher({ ...config.resources, server, onGenerate: writer(config.resources) });
+  setupSchemaWatcher({ ...config.schemas, server, onGenerate: writer(config.schemas) });
+  setupRouteWatcher({ ...config.routes, server, onGenerate: writer(config.routes) });
+  setupLangWatcher({ ...config.lang, server, onGenerate: writer(config.lang) });
+  setupApiWatcher({ ...config.api, server, onGenerate: writer(config.api) });
+  setupInertiaWatcher({ ...config.inertia, server, onGenerate: writer(config.inertia) });
+
+  console.log('Watching for changes...');
+}
+
+/**
+ * Print a unified diff of generated files that are out of date and return the exit code.
+ */
+function check(config: ResolvedConfig, cwd: string, failures: Set<string>): number {
+  const drift = checkPackages(config);
+
+  for (const { path, expected, actual } of drift) {
+    process.stdout.write(formatUnifiedDiff(relative(cwd, path).replace(/\\/g, '/'), actual, expected));
+  }
+
+  if (drift.length > 0) {
+    logError('ferry', `${drift.length} generated file(s) are out of date, run ferry to update them`);
+  }
+  if (failures.size > 0) {
+    logError('ferry', `${failures.size} file(s) failed to parse`);
+  }
+
+  return drift.length > 0 || failures.size > 0 ? 1 : 0;
+}
+
+/**
+ * Print the changes since the previous generation and return the exit code.
+ */
+function reportBreakingChanges(
+  config: ResolvedConfig,
+  snapshotDir: string | undefined,
+  json: boolean | undefined,
+  failures: Set<string>
+): number {
+  const report = detectBreakingChanges(config, snapshotDir);
+
+  if (json) {
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  } else if (report.changes.length === 0) {
+    console.log('No changes since the last generation');
+  } else {
+    for (const change of report.changes) {
+      console.log(
+        change.breaking ? `${pc.red('✗ breaking')}  ${change.message}` : `${pc.green('✓')} ${change.message}`
+      );
+    }
+  }
+
+  if (failures.size > 0) {
+    logError('ferry', `${failures.size} file(s) failed to parse`);
+  }
+
+  return report.breaking || failures.size > 0 ? 1 : 0;
+}
+
+/**
+ * Run the ferry CLI with the given arguments and return its exit code.
+ * Exits non-zero when any PHP file fails to parse (except in watch mode, which keeps running)
+ * or, in check mode, when the generated types on disk are out of date, or with --breaking, on breaking changes.
+ */
+export async function run(args: string[], cwd = process.cwd()): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string', short: 'c' },
+      watch: { type: 'boolean', short: 'w' },
+      check: { type: 'boolean' },
+      breaking: { type: 'boolean' },
+      snapshot: { type: 'string' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(HELP);
+    return 0;
+  }
+
+  // Files are keyed so a file read by several generators (enums are inlined into schemas) is reported once
+  const failures = new Set<string>();
+  const onError = (file: string, error: unknown) => {
+    if (failures.has(file)) return;
+    failures.add(file);
+    logError('ferry', `Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  };
+
+  const options = await loadConfigFile(cwd, values.config);
+  const config = resolveConfig({ ...options, check: values.check || options.check }, onError);
+
+  if (config.check || values.breaking) {
+    if (values.watch) {
+      logError('ferry', `--${values.breaking ? 'breaking' : 'check'} cannot be combined with --watch`);
+      return 1;
+    }
+    if (values.breaking) {
+      return reportBreakingChanges(config, values.snapshot && resolve(cwd, values.snapshot), values.json, failures);
+    }
+    return check(config, cwd, failures);
+  }
+
+  for (const pkg of buildPackages(config)) {
+    writePackage(config, pkg);
+    logRegeneration(pkg.packageName);
+  }
+
+  if (values.watch) {
+    // Report failures again on every regeneration
+    failures.clear();
+    watch(config, () => failures.clear());
+    return 0;
+  }
+
+  if (failures.size > 0) {
+    logError('ferry', `${failures.size} file(s) failed to parse`);
+    return 1;
+  }
+
+  return 0;
+}
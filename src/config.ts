@@ -0,0 +1,339 @@
+import ts from 'typescript';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { buildApiFiles, type ApiGeneratorOptions } from './generators/api.js';
+import { buildEnumFiles, type EnumGeneratorOptions } from './generators/enums.js';
+import { buildInertiaFiles, type InertiaGeneratorOptions } from './generators/inertia.js';
+import { buildLangFiles, type LangGeneratorOptions } from './generators/lang.js';
+import { buildResourceFiles, type ResourceGeneratorOptions } from './generators/resources.js';
+import { buildRouteFiles, type RouteGeneratorOptions } from './generators/routes.js';
+import { buildSchemaFiles, type SchemaGeneratorOptions } from './generators/schemas.js';
+import { checkGeneratedFiles, type FileDrift } from './utils/check.js';
+import { resolveSourceDirs } from './utils/file.js';
+import { compareManifests, readManifest, MANIFEST_FILE, type ChangeReport, type Manifest } from './utils/manifest.js';
+import { writeGeneratedFiles, type GeneratedPackage } from './utils/package.js';
+import type { EnumStyle, ParseErrorHandler } from './utils/php-parser.js';
+import { getGeneratedTypes, writeGeneratedTypes } from './utils/virtual-modules.js';
+
+export type ResourceTypesPluginOptions = {
+  cwd?: string;
+  prettyPrint?: boolean;
+  /** Scope of the generated packages, e.g. '@api' for @api/enums (default: '@ferry'). */
+  namespace?: string;
+  /** Directory the packages are written to (default: node_modules/<namespace>). Packages outside node_modules are aliased. */
+  outputDir?: string;
+  /** Enum source directories or globs, relative to cwd (default: ['app/Enums']). */
+  enumsDirs?: string[];
+  /** Resource source directories or globs, relative to cwd (default: ['app/Http/Resources']). */
+  resourcesDirs?: string[];
+  /** Model source directories or globs, relative to cwd (default: ['app/Models']). */
+  modelsDirs?: string[];
+  /** FormRequest source directories or globs, relative to cwd (default: ['app/Http/Requests']). */
+  requestsDirs?: string[];
+  /** Route file directories or globs, relative to cwd (default: ['routes']). */
+  routesDirs?: string[];
+  /** Controller directories read for the API client's response and request types, relative to cwd (default: ['app/Http/Controllers']). */
+  controllersDirs?: string[];
+  /** Middleware directories checked for HandleInertiaRequests::share(), relative to cwd (default: ['app/Http/Middleware']). */
+  middlewareDirs?: string[];
+  /** Service provider directories or globs checked for JsonResource::withoutWrapping(), relative to cwd (default: ['app/Providers']). */
+  providersDirs?: string[];
+  /** Migration directories or globs read for column types, relative to cwd (default: ['database/migrations']). */
+  migrationsDirs?: string[];
+  /** Lang directories or globs read for translations and translated enum labels, relative to cwd (default: ['lang']). */
+  langDirs?: string[];
+  /** Default locale of the translations and of the translated enum labels in the generated types (default: 'en'). */
+  locale?: string;
+  /** Resources of models not named {Model}Resource, keyed by model class name (e.g. { 'App\\Models\\User': 'MemberResource' }). */
+  modelResources?: Record<string, string>;
+  /** Generate enums as TypeScript enums, const objects with a union type, or type-only unions (default: 'enum'). */
+  enumStyle?: EnumStyle;
+  /** Zero-argument enum methods generated as a property of each case, besides label() (e.g. ['color', 'isTerminal']). */
+  enumMethods?: string[];
+  /** Generate hydrate functions turning the date fields of resources into Date objects or your own date type (default: false). */
+  hydrate?: boolean;
+  /** Serve the packages as Vite virtual modules instead of writing them to disk (default: false). */
+  virtual?: boolean;
+  /** Directory the type declarations are written to in virtual mode (default: 'resources/js/types/ferry'). */
+  typesDir?: string;
+  /** Compare the generated enum and resource types with the files on disk instead of writing them, failing on drift (default: false). */
+  check?: boolean;
+};
+
+/**
+ * Options shared by the Vite plugin, the CLI and ferry.config.ts.
+ */
+export type FerryConfig = ResourceTypesPluginOptions;
+
+/**
+ * Options resolved to absolute paths and per-generator settings.
+ */
+export type ResolvedConfig = {
+  cwd: string;
+  virtual: boolean;
+  check: boolean;
+  /** Aliases for packages written outside node_modules, which can't be resolved by name. */
+  aliases: Record<string, string> | null;
+  enums: EnumGeneratorOptions;
+  resources: ResourceGeneratorOptions;
+  schemas: SchemaGeneratorOptions;
+  routes: RouteGeneratorOptions;
+  lang: LangGeneratorOptions;
+  api: ApiGeneratorOptions;
+  inertia: InertiaGeneratorOptions;
+};
+
+/**
+ * Config file names looked up in the project root, in order.
+ */
+export const CONFIG_FILES = ['ferry.config.ts', 'ferry.config.mts', 'ferry.config.js', 'ferry.config.mjs'];
+
+/**
+ * Type helper for ferry.config.ts.
+ */
+export function defineConfig(config: FerryConfig): FerryConfig {
+  return config;
+}
+
+/**
+ * Apply defaults and resolve source and output directories.
+ */
+export function resolveConfig(options: FerryConfig = {}, onError?: ParseErrorHandler): ResolvedConfig {
+  const cwd = options.cwd ?? process.cwd();
+  const prettyPrint = options.prettyPrint ?? true;
+  const namespace = options.namespace ?? '@ferry';
+  const virtual = options.virtual ?? false;
+  const check = options.check ?? false;
+  const resolvePath = (path: string) => (isAbsolute(path) ? path : join(cwd, path));
+
+  // Directory paths
+  const enumsDirs = resolveSourceDirs(options.enumsDirs ?? ['app/Enums'], cwd);
+  const resourcesDirs = resolveSourceDirs(options.resourcesDirs ?? ['app/Http/Resources'], cwd);
+  const modelsDirs = resolveSourceDirs(options.modelsDirs ?? ['app/Models'], cwd);
+  const requestsDirs = resolveSourceDirs(options.requestsDirs ?? ['app/Http/Requests'], cwd);
+  const routesDirs = resolveSourceDirs(options.routesDirs ?? ['routes'], cwd);
+  const controllersDirs = resolveSourceDirs(options.controllersDirs ?? ['app/Http/Controllers'], cwd);
+  const middlewareDirs = resolveSourceDirs(options.middlewareDirs ?? ['app/Http/Middleware'], cwd);
+  const providersDirs = resolveSourceDirs(options.providersDirs ?? ['app/Providers'], cwd);
+  const migrationsDirs = resolveSourceDirs(options.migrationsDirs ?? ['database/migrations'], cwd);
+  const langDirs = resolveSourceDirs(options.langDirs ?? ['lang'], cwd);
+
+  // Virtual packages live in memory; only their type declarations are written to disk
+  const outputRoot = virtual
+    ? resolvePath(options.typesDir ?? 'resources/js/types/ferry')
+    : options.outputDir
+      ? resolvePath(options.outputDir)
+      : join(cwd, 'node_modules', ...namespace.split('/'));
+
+  const enums: EnumGeneratorOptions = {
+    enumsDirs,
+    outputDir: join(outputRoot, 'enums'),
+    packageName: `${namespace}/enums`,
+    prettyPrint,
+    cwd,
+    enumStyle: options.enumStyle,
+    enumMethods: options.enumMethods,
+    langDirs,
+    locale: options.locale,
+    onError,
+  };
+
+  const resources: ResourceGeneratorOptions = {
+    resourcesDirs,
+    enumsDirs,
+    modelsDirs,
+    providersDirs,
+    migrationsDirs,
+    modelResources: options.modelResources,
+    hydrate: options.hydrate,
+    outputDir: join(outputRoot, 'resources'),
+    packageName: `${namespace}/resources`,
+    enumsPackageName: enums.packageName,
+    prettyPrint,
+    cwd,
+    onError,
+  };
+
+  const schemas: SchemaGeneratorOptions = {
+    requestsDirs,
+    enumsDirs,
+    outputDir: join(outputRoot, 'schemas'),
+    packageName: `${namespace}/schemas`,
+    prettyPrint,
+    cwd,
+    onError,
+  };
+
+  const routes: RouteGeneratorOptions = {
+    routesDirs,
+    outputDir: join(outputRoot, 'routes'),
+    packageName: `${namespace}/routes`,
+    prettyPrint,
+    cwd,
+    onError,
+  };
+
+  const lang: LangGeneratorOptions = {
+    langDirs,
+    outputDir: join(outputRoot, 'lang'),
+    packageName: `${namespace}/lang`,
+    prettyPrint,
+    cwd,
+    locale: options.locale,
+    onError,
+  };
+
+  const api: ApiGeneratorOptions = {
+    routesDirs,
+    controllersDirs,
+    resourcesDirs,
+    requestsDirs,
+    outputDir: join(outputRoot, 'api'),
+    packageName: `${namespace}/api`,
+    resourcesPackageName: resources.packageName,
+    schemasPackageName: schemas.packageName,
+    prettyPrint,
+    cwd,
+    onError,
+  };
+
+  const inertia: InertiaGeneratorOptions = {
+    controllersDirs,
+    middlewareDirs,
+    resourcesDirs,
+    outputDir: join(outputRoot, 'inertia'),
+    packageName: `${namespace}/inertia`,
+    resourcesPackageName: resources.packageName,
+    prettyPrint,
+    cwd,
+    onError,
+  };
+
+  const aliases =
+    options.outputDir && !virtual
+      ? Object.fromEntries(
+          [enums, resources, schemas, routes, lang, api, inertia].map((p) => [p.packageName, p.outputDir])
+        )
+      : null;
+
+  return { cwd, virtual, check, aliases, enums, resources, schemas, routes, lang, api, inertia };
+}
+
+/**
+ * Build every package in memory.
+ */
+export function buildPackages(config: ResolvedConfig): GeneratedPackage[] {
+  const { enums, resources, schemas, routes, lang, api, inertia } = config;
+
+  return [
+    { packageName: enums.packageName, outputDir: enums.outputDir, files: buildEnumFiles(enums) },
+    { packageName: resources.packageName, outputDir: resources.outputDir, files: buildResourceFiles(resources) },
+    { packageName: schemas.packageName, outputDir: schemas.outputDir, files: buildSchemaFiles(schemas) },
+    { packageName: routes.packageName, outputDir: routes.outputDir, files: buildRouteFiles(routes) },
+    { packageName: lang.packageName, outputDir: lang.outputDir, files: buildLangFiles(lang) },
+    { packageName: api.packageName, outputDir: api.outputDir, files: buildApiFiles(api) },
+    { packageName: inertia.packageName, outputDir: inertia.outputDir, files: buildInertiaFiles(inertia) },
+  ];
+}
+
+/**
+ * Write a generated package to disk, or only its type declarations in virtual mode.
+ */
+export function writePackage(config: ResolvedConfig, pkg: GeneratedPackage): void {
+  if (config.virtual) {
+    writeGeneratedTypes(pkg.outputDir, pkg.files);
+  } else {
+    writeGeneratedFiles(pkg.outputDir, pkg.files);
+  }
+}
+
+/**
+ * Build the enum and resource packages in memory and compare them with the files on disk, without writing anything.
+ * In virtual mode only the type declarations are compared, since nothing else is written.
+ */
+export function checkPackages(config: ResolvedConfig): FileDrift[] {
+  const { enums, resources } = config;
+
+  const packages: GeneratedPackage[] = [
+    { packageName: enums.packageName, outputDir: enums.outputDir, files: buildEnumFiles(enums) },
+    { packageName: resources.packageName, outputDir: resources.outputDir, files: buildResourceFiles(resources) },
+  ];
+
+  return packages.flatMap(({ outputDir, files }) =>
+    checkGeneratedFiles(outputDir, config.virtual ? getGeneratedTypes(files) : files)
+  );
+}
+
+/**
+ * Compare the current enums, resources and form requests with the manifests of a previous generation,
+ * read from the package output directories or from a snapshot directory laid out like them (enums/, resources/, schemas/).
+ * Nothing is written.
+ */
+export function detectBreakingChanges(config: ResolvedConfig, snapshotDir?: string): ChangeReport {
+  const { enums, resources, schemas } = config;
+
+  const packages = [
+    { outputDir: enums.outputDir, files: buildEnumFiles(enums) },
+    { outputDir: resources.outputDir, files: buildResourceFiles(resources) },
+    { outputDir: schemas.outputDir, files: buildSchemaFiles(schemas) },
+  ];
+
+  const before: Manifest = {};
+  const after: Manifest = {};
+  let found = false;
+
+  for (const { outputDir, files } of packages) {
+    const manifest = readManifest(snapshotDir ? join(snapshotDir, basename(outputDir)) : outputDir);
+    if (manifest) {
+      Object.assign(before, manifest);
+      found = true;
+    }
+    if (files[MANIFEST_FILE]) {
+      Object.assign(after, JSON.parse(files[MANIFEST_FILE]));
+    }
+  }
+
+  if (!found) {
+    throw new Error(
+      `No ${MANIFEST_FILE} found in ${snapshotDir ?? 'the output directories'}, generate the packages first`
+    );
+  }
+
+  return compareManifests(before, after);
+}
+
+/**
+ * Load options from a config file, or from the first ferry.config.* found in cwd.
+ * TypeScript config files are transpiled with the project's TypeScript.
+ */
+export async function loadConfigFile(cwd: string, configFile?: string): Promise<FerryConfig> {
+  const file = configFile ? resolve(cwd, configFile) : CONFIG_FILES.map((f) => join(cwd, f)).find(existsSync);
+
+  if (!file) return {};
+  if (!existsSync(file)) {
+    throw new Error(`Config file not found: ${file}`);
+  }
+
+  let module: { default?: FerryConfig };
+
+  if (/\.m?ts$/.test(file)) {
+    const { outputText } = ts.transpileModule(readFileSync(file, 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+      fileName: file,
+    });
+
+    // Write next to the config so its imports resolve from the project
+    const compiledFile = join(dirname(file), `.${basename(file)}.${Date.now()}.mjs`);
+    writeFileSync(compiledFile, outputText);
+    try {
+      module = await import(pathToFileURL(compiledFile).href);
+    } finally {
+      unlinkSync(compiledFile);
+    }
+  } else {
+    module = await import(pathToFileURL(file).href);
+  }
+
+  return { cwd: dirname(file), ...(module.default ?? {}) };
+}
@@ -0,0 +1,591 @@
+import ts from 'typescript';
+import { existsSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { parseControllerActions, type ControllerAction, type ControllerResponse } from '../utils/controller-parser.js';
+import { getPhpFiles, readFileSafe } from '../utils/file.js';
+import { addPackageJson, writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+import {
+  getDeclaredClassName,
+  getPhpSyntaxError,
+  isResourceCollectionFile,
+  reportParseError,
+  type ParseErrorHandler,
+} from '../utils/php-parser.js';
+import type { RouteDefinition } from '../utils/route-parser.js';
+import { createSymbolIndex } from '../utils/symbol-index.js';
+import {
+  createDeclareConstWithType,
+  createImportType,
+  createObjectLiteral,
+  createPropertyName,
+  createStringLiteral,
+  createTypeLiteral,
+  printNode,
+} from '../utils/ts-generator.js';
+import { PAGINATED_TYPES } from './resources.js';
+import { collectRoutes } from './routes.js';
+import { collectFormRequests, getSchemaInputTypeName } from './schemas.js';
+
+export type ApiGeneratorOptions = {
+  routesDirs: string[];
+  controllersDirs: string[];
+  resourcesDirs: string[];
+  requestsDirs: string[];
+  outputDir: string;
+  packageName: string;
+  /** Package the resource types are imported from. */
+  resourcesPackageName: string;
+  /** Package the form request input types are imported from. */
+  schemasPackageName: string;
+  prettyPrint?: boolean;
+  cwd: string;
+  /** Called for each PHP file that can't be parsed (default: warn on the console). */
+  onError?: ParseErrorHandler;
+};
+
+/**
+ * A named route whose controller action returns a resource or validates a form request.
+ */
+export type ApiEndpoint = {
+  name: string;
+  uri: string;
+  /** HTTP method the client sends, the first one the route accepts. */
+  method: string;
+  parameters: RouteDefinition['parameters'];
+  /** Response body type, or null when the action's response isn't a known resource. */
+  response: ApiResponseType | null;
+  /** Type name of the action's form request, or null when it doesn't validate one. */
+  request: string | null;
+};
+
+/**
+ * Response body type of an endpoint: a resource envelope (UserResource.Response) or a generic
+ * paginated response (Paginated<UserResource>).
+ */
+export type ApiResponseType = { resource: string; member: string } | { resource: string; generic: string };
+
+type EndpointTree = {
+  endpoint?: ApiEndpoint;
+  children: Record<string, EndpointTree>;
+};
+
+type EndpointParameter = {
+  name: string;
+  type: ts.TypeNode;
+  optional: boolean;
+};
+
+/**
+ * Methods whose parameters that aren't in the URI are sent as the query string rather than a body.
+ */
+const QUERY_METHODS = ['GET', 'HEAD', 'DELETE'];
+
+/**
+ * Runtime implementation of the request function and its configuration, shared by every generated package.
+ */
+const API_FUNCTIONS = `const config = {
+    baseUrl: '',
+    headers: {},
+    fetch: (...args) => globalThis.fetch(...args),
+};
+
+export class ApiError extends Error {
+    constructor(response, data) {
+        super(\`Request failed with status \${response.status}.\`);
+        this.name = 'ApiError';
+        this.response = response;
+        this.status = response.status;
+        this.data = data;
+    }
+}
+
+export function configureApi(options) {
+    Object.assign(config, options);
+}
+
+function buildUrl(endpoint, params) {
+    const query = { ...params };
+    const uri = endpoint.uri.replace(/\\{([A-Za-z0-9_]+)(?::[A-Za-z0-9_]+)?(\\?)?\\}/g, (_, key, optional) => {
+        const value = query[key];
+        delete query[key];
+        if (value === undefined || value === null) {
+            if (optional) return '';
+            throw new Error(\`Missing required parameter [\${key}] for route [\${endpoint.name}].\`);
+        }
+        return encodeURIComponent(String(value));
+    });
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null) search.append(key, String(value));
+    }
+    const path = uri.replace(/\\/{2,}/g, '/').replace(/(.)\\/$/, '$1');
+    const queryString = search.toString();
+    return queryString ? \`\${path}?\${queryString}\` : path;
+}
+
+function hasFile(value) {
+    if (value instanceof Blob) return true;
+    if (value === null || typeof value !== 'object') return false;
+    return Object.values(value).some(hasFile);
+}
+
+function appendFormData(form, key, value) {
+    if (value === undefined) return;
+    if (value instanceof Blob) {
+        form.append(key, value);
+    } else if (value !== null && typeof value === 'object') {
+        for (const [child, item] of Object.entries(value)) appendFormData(form, key ? \`\${key}[\${child}]\` : child, item);
+    } else if (typeof value === 'boolean') {
+        form.append(key, value ? '1' : '0');
+    } else {
+        form.append(key, value === null ? '' : String(value));
+    }
+}
+
+function encodeBody(method, body, headers) {
+    if (body === undefined) return { method, body: undefined };
+    if (!hasFile(body)) {
+        headers.set('Content-Type', 'application/json');
+        return { method, body: JSON.stringify(body) };
+    }
+    // Uploads are sent as multipart, whose boundary fetch sets; PHP only parses it for POST, so Laravel's _method spoofs the rest
+    const form = new FormData();
+    appendFormData(form, '', body);
+    if (method === 'PUT' || method === 'PATCH') {
+        form.append('_method', method);
+        return { method: 'POST', body: form };
+    }
+    return { method, body: form };
+}
+
+async function request(endpoint, params = {}, body, init = {}) {
+    const headers = new Headers({ Accept: 'application/json', 'X-Requested-With': 'XMLHttpRequest', ...config.headers });
+    for (const [key, value] of new Headers(init.headers)) headers.set(key, value);
+    const response = await config.fetch(config.baseUrl + buildUrl(endpoint, params), {
+        ...init,
+        ...encodeBody(endpoint.method, body, headers),
+        headers,
+    });
+    const text = response.status === 204 ? '' : await response.text();
+    let data;
+    try {
+        data = text ? JSON.parse(text) : undefined;
+    } catch {
+        data = text;
+    }
+    if (!response.ok) {
+        throw new ApiError(response, data);
+    }
+    return data;
+}
+`;
+
+/**
+ * Type declarations for the runtime helpers.
+ */
+const API_DECLARATIONS = `export type ApiParameter = string | number;
+
+export type ApiConfig = {
+    baseUrl?: string;
+    headers?: Record<string, string>;
+    fetch?: typeof fetch;
+};
+
+export declare class ApiError extends Error {
+    readonly response: Response;
+    readonly status: number;
+    readonly data: unknown;
+}
+
+export declare function configureApi(config: ApiConfig): void;
+`;
+
+/**
+ * Collect the actions of all controllers, keyed by fully-qualified class name.
+ * This is a plugin-level function that handles file I/O.
+ */
+export function collectControllers(
+  controllersDirs: string | string[],
+  cwd: string,
+  onError?: ParseErrorHandler
+): Record<string, Record<string, ControllerAction>> {
+  const controllers: Record<string, Record<string, ControllerAction>> = {};
+
+  for (const controllersDir of [controllersDirs].flat()) {
+    if (!existsSync(controllersDir)) continue;
+
+    for (const file of getPhpFiles(controllersDir)) {
+      const controllerPath = join(controllersDir, file);
+      const relativePhpPath = relative(cwd, controllerPath);
+
+      try {
+        const content = readFileSafe(controllerPath);
+        if (!content) continue;
+
+        const syntaxError = getPhpSyntaxError(content);
+        if (syntaxError) {
+          reportParseError(onError, 'controller', relativePhpPath, syntaxError);
+          continue;
+        }
+
+        const fqcn = getDeclaredClassName(content);
+        if (fqcn) controllers[fqcn] = parseControllerActions(content);
+      } catch (e) {
+        reportParseError(onError, 'controller', relativePhpPath, e);
+      }
+    }
+  }
+
+  return controllers;
+}
+
+/**
+ * Get the response body type of a resource returned by a controller action.
+ * Only ResourceCollection classes made from a paginator have a Paginated response.
+ */
+function getResponseType(response: ControllerResponse, resource: string, collection: boolean): ApiResponseType {
+  if (response.kind === 'resource') {
+    return { resource, member: response.paginated && collection ? 'Paginated' : 'Response' };
+  }
+  if (response.kind === 'collection') {
+    return { resource, member: 'Collection' };
+  }
+  return { resource, generic: PAGINATED_TYPES[response.kind] };
+}
+
+/**
+ * Resolve the endpoints of the API client: named routes whose controller action returns a resource or
+ * validates a form request. Like route(), later definitions of a name win.
+ * Collections are the class names of the ResourceCollection resources, the only ones with a paginated response.
+ */
+export function resolveApiEndpoints(
+  routes: RouteDefinition[],
+  controllers: Record<string, Record<string, ControllerAction>>,
+  resourceNames: Record<string, string>,
+  requestNames: Record<string, string>,
+  collections: string[] = []
+): ApiEndpoint[] {
+  const endpoints: Record<string, ApiEndpoint> = {};
+
+  for (const route of routes) {
+    if (!route.name || !route.action) continue;
+
+    const action = controllers[route.action.controller]?.[route.action.method];
+    if (!action) continue;
+
+    const resource = action.response && resourceNames[action.response.resource];
+    const request = action.parameterTypes.map((fqcn) => requestNames[fqcn]).find(Boolean) ?? null;
+    if (!resource && !request) continue;
+
+    endpoints[route.name] = {
+      name: route.name,
+      uri: route.uri,
+      method: route.methods[0],
+      parameters: route.parameters,
+      response: resource
+        ? getResponseType(action.response!, resource, collections.includes(action.response!.resource))
+        : null,
+      request,
+    };
+  }
+
+  return Object.values(endpoints);
+}
+
+/**
+ * Move the endpoint of a name that is also a group of other names (posts and posts.show) into the group
+ * as its index (api.posts.index), unless the group has an index of its own.
+ */
+function nestGroupEndpoints(node: EndpointTree): void {
+  for (const child of Object.values(node.children)) {
+    nestGroupEndpoints(child);
+  }
+
+  if (node.endpoint && Object.keys(node.children).length > 0 && !node.children.index) {
+    node.children.index = { endpoint: node.endpoint, children: {} };
+    delete node.endpoint;
+  }
+}
+
+/**
+ * Arrange endpoints by the dot-separated segments of their names (users.show becomes api.users.show).
+ */
+function buildEndpointTree(endpoints: ApiEndpoint[]): EndpointTree {
+  const root: EndpointTree = { children: {} };
+
+  for (const endpoint of endpoints) {
+    let node = root;
+    for (const segment of endpoint.name.split('.')) {
+      node = node.children[segment] ??= { children: {} };
+    }
+    node.endpoint = endpoint;
+  }
+
+  nestGroupEndpoints(root);
+  return root;
+}
+
+/**
+ * Create the type of parameters or bodies no form request describes: Record<string, unknown>.
+ */
+function createUnknownRecordType(): ts.TypeNode {
+  return ts.factory.createTypeReferenceNode('Record', [
+    ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+    ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword),
+  ]);
+}
+
+/**
+ * Get the parameters of an endpoint's function: the route parameters (and the query for methods without a body),
+ * the body (typed by the form request, if any), and the fetch options.
+ */
+function getEndpointParameters(endpoint: ApiEndpoint): EndpointParameter[] {
+  const parameters: EndpointParameter[] = [];
+  const hasQuery = QUERY_METHODS.includes(endpoint.method);
+  const input = endpoint.request ? ts.factory.createTypeReferenceNode(getSchemaInputTypeName(endpoint.request)) : null;
+
+  if (endpoint.parameters.length > 0 || hasQuery) {
+    const types: ts.TypeNode[] = [];
+    if (endpoint.parameters.length > 0) {
+      types.push(
+        createTypeLiteral(
+          endpoint.parameters.map((p) => ({
+            name: p.name,
+            type: ts.factory.createTypeReferenceNode('ApiParameter'),
+            optional: p.optional,
+          }))
+        )
+      );
+    }
+    if (hasQuery && input) types.push(input);
+    if (hasQuery) types.push(createUnknownRecordType());
+
+    const required = endpoint.parameters.some((p) => !p.optional) || (hasQuery && input !== null);
+    parameters.push({
+      name: 'params',
+      type: types.length > 1 ? ts.factory.createIntersectionTypeNode(types) : types[0],
+      optional: !required,
+    });
+  }
+
+  if (!hasQuery) {
+    parameters.push(
+      input
+        ? { name: 'body', type: input, optional: false }
+        : { name: 'body', type: createUnknownRecordType(), optional: true }
+    );
+  }
+
+  parameters.push({ name: 'init', type: ts.factory.createTypeReferenceNode('RequestInit'), optional: true });
+
+  return parameters;
+}
+
+/**
+ * Create the type node of an endpoint's response body.
+ */
+function createResponseTypeNode(response: ApiResponseType | null): ts.TypeNode {
+  if (!response) {
+    return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+  }
+  if ('generic' in response) {
+    return ts.factory.createTypeReferenceNode(response.generic, [
+      ts.factory.createTypeReferenceNode(response.resource),
+    ]);
+  }
+  return ts.factory.createTypeReferenceNode(
+    ts.factory.createQualifiedName(ts.factory.createIdentifier(response.resource), response.member)
+  );
+}
+
+/**
+ * Create the type literal of a group of endpoints, with a method signature per endpoint.
+ */
+function createEndpointTreeType(tree: EndpointTree): ts.TypeLiteralNode {
+  const members = Object.entries(tree.children).map(([segment, node]): ts.TypeElement => {
+    if (Object.keys(node.children).length > 0 || !node.endpoint) {
+      return ts.factory.createPropertySignature(
+        undefined,
+        createPropertyName(segment),
+        undefined,
+        createEndpointTreeType(node)
+      );
+    }
+
+    const parameters = getEndpointParameters(node.endpoint).map((p) =>
+      ts.factory.createParameterDeclaration(
+        undefined,
+        undefined,
+        p.name,
+        p.optional ? ts.factory.createToken(ts.SyntaxKind.QuestionToken) : undefined,
+        p.type
+      )
+    );
+    const returnType = ts.factory.createTypeReferenceNode('Promise', [createResponseTypeNode(node.endpoint.response)]);
+
+    return ts.factory.createMethodSignature(
+      undefined,
+      createPropertyName(segment),
+      undefined,
+      undefined,
+      parameters,
+      returnType
+    );
+  });
+
+  return ts.factory.createTypeLiteralNode(members);
+}
+
+/**
+ * Create the object literal of a group of endpoints, with a function per endpoint calling request().
+ */
+function createEndpointTreeObject(tree: EndpointTree, prettyPrint: boolean): ts.ObjectLiteralExpression {
+  const properties = Object.entries(tree.children).map(([segment, node]) => {
+    if (Object.keys(node.children).length > 0 || !node.endpoint) {
+      return { key: segment, value: createEndpointTreeObject(node, prettyPrint) as ts.Expression };
+    }
+
+    const { endpoint } = node;
+    const names = getEndpointParameters(endpoint).map((p) => p.name);
+    const definition = createObjectLiteral(
+      [
+        { key: 'name', value: createStringLiteral(endpoint.name) },
+        { key: 'uri', value: createStringLiteral(endpoint.uri) },
+        { key: 'method', value: createStringLiteral(endpoint.method) },
+      ],
+      false
+    );
+    const args = [
+      definition,
+      names.includes('params') ? ts.factory.createIdentifier('params') : ts.factory.createObjectLiteralExpression(),
+      names.includes('body') ? ts.factory.createIdentifier('body') : ts.factory.createIdentifier('undefined'),
+      ts.factory.createIdentifier('init'),
+    ];
+
+    return {
+      key: segment,
+      value: ts.factory.createArrowFunction(
+        undefined,
+        undefined,
+        names.map((name) => ts.factory.createParameterDeclaration(undefined, undefined, name)),
+        undefined,
+        undefined,
+        ts.factory.createCallExpression(ts.factory.createIdentifier('request'), undefined, args)
+      ),
+    };
+  });
+
+  return createObjectLiteral(properties, prettyPrint);
+}
+
+/**
+ * Generate TypeScript type declarations for the API client, importing response types from the resources
+ * package and request bodies from the schemas package.
+ */
+export function generateApiTypeScript(
+  endpoints: ApiEndpoint[],
+  resourcesPackageName: string,
+  schemasPackageName: string
+): string {
+  const resourceTypes = new Set<string>();
+  const inputTypes = new Set<string>();
+
+  for (const { response, request } of endpoints) {
+    if (response) resourceTypes.add(response.resource);
+    if (response && 'generic' in response) resourceTypes.add(response.generic);
+    if (request) inputTypes.add(getSchemaInputTypeName(request));
+  }
+
+  const imports: ts.Node[] = [];
+  if (resourceTypes.size > 0) imports.push(createImportType([...resourceTypes].sort(), resourcesPackageName));
+  if (inputTypes.size > 0) imports.push(createImportType([...inputTypes].sort(), schemasPackageName));
+
+  const api = createDeclareConstWithType('api', createEndpointTreeType(buildEndpointTree(endpoints)));
+
+  const header = imports.length > 0 ? `${imports.map(printNode).join('\n')}\n\n` : '';
+  return `${header}${API_DECLARATIONS}\n${printNode(api)}\n`;
+}
+
+/**
+ * Generate runtime JavaScript for the API client.
+ */
+export function generateApiRuntime(endpoints: ApiEndpoint[], prettyPrint = true): string {
+  const api = ts.factory.createVariableStatement(
+    [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+    ts.factory.createVariableDeclarationList(
+      [
+        ts.factory.createVariableDeclaration(
+          'api',
+          undefined,
+          undefined,
+          createEndpointTreeObject(buildEndpointTree(endpoints), prettyPrint)
+        ),
+      ],
+      ts.NodeFlags.Const
+    )
+  );
+
+  return `${API_FUNCTIONS}\n${printNode(api)}\n`;
+}
+
+/**
+ * Build API client files (TypeScript declarations and runtime JavaScript) in memory.
+ */
+export function buildApiFiles(options: ApiGeneratorOptions): GeneratedFiles {
+  const {
+    routesDirs,
+    controllersDirs,
+    resourcesDirs,
+    requestsDirs,
+    packageName,
+    resourcesPackageName,
+    schemasPackageName,
+    prettyPrint = true,
+    cwd,
+    onError,
+  } = options;
+
+  const files: GeneratedFiles = {};
+
+  // Resources and form requests are referenced by the collision-free names their packages export
+  const symbols = createSymbolIndex(cwd, { resources: resourcesDirs, requests: requestsDirs });
+  const requests = collectFormRequests(requestsDirs, cwd, onError);
+  const resourceNames = Object.fromEntries(symbols.list('resources').map((entry) => [entry.fqcn, entry.typeName]));
+  const requestNames = Object.fromEntries(
+    symbols
+      .list('requests')
+      .filter((entry) => requests[entry.typeName])
+      .map((entry) => [entry.fqcn, entry.typeName])
+  );
+
+  const collections = symbols
+    .list('resources')
+    .filter((entry) => isResourceCollectionFile(entry.file, { symbols }))
+    .map((entry) => entry.fqcn);
+
+  const endpoints = resolveApiEndpoints(
+    collectRoutes(routesDirs, cwd, onError),
+    collectControllers(controllersDirs, cwd, onError),
+    resourceNames,
+    requestNames,
+    collections
+  );
+
+  // Generate index.d.ts
+  files['index.d.ts'] = generateApiTypeScript(endpoints, resourcesPackageName, schemasPackageName);
+
+  // Generate index.js
+  files['index.js'] = generateApiRuntime(endpoints, prettyPrint);
+
+  // Generate package.json
+  addPackageJson(files, packageName);
+
+  return files;
+}
+
+/**
+ * Generate API client files (TypeScript declarations and runtime JavaScript).
+ */
+export function generateApi(options: ApiGeneratorOptions): void {
+  writeGeneratedFiles(options.outputDir, buildApiFiles(options));
+}
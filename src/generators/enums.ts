@@ -1,18 +1,43 @@
 import ts from 'typescript';
 import { existsSync } from 'node:fs';
-import { join, relative } from 'node:path';
-import { getPhpFiles, readFileSafe, writeFileEnsureDir, cleanOutputDir } from '../utils/file.js';
-import { parseEnumContent, type EnumDefinition } from '../utils/php-parser.js';
+import { dirname, join, relative } from 'node:path';
+import { getPhpFiles, getSourceRelativePath, readFileSafe } from '../utils/file.js';
+import {
+  getPhpSyntaxError,
+  parseEnumContent,
+  reportParseError,
+  type EnumCase,
+  type EnumDefinition,
+  type EnumScalar,
+  type EnumStyle,
+  type ParseErrorHandler,
+} from '../utils/php-parser.js';
+import {
+  formatExportSpecifier,
+  getModulePath,
+  getModuleSpecifier,
+  addBarrels,
+  addPackageJson,
+  writeGeneratedFiles,
+  type GeneratedFiles,
+  type PackageModule,
+} from '../utils/package.js';
+import { createEnumManifest, formatManifest, MANIFEST_FILE } from '../utils/manifest.js';
+import { createSymbolIndex, getShortName, type SymbolIndex } from '../utils/symbol-index.js';
 import {
   createEnum,
-  createConstObject,
+  createImport,
+  createNamespace,
   createObjectLiteral,
   createDeclareConstWithType,
   createTypeLiteral,
   createStringLiteral,
   createNumericLiteral,
+  createTypeAlias,
   printNode,
 } from '../utils/ts-generator.js';
+import { readTranslations, type Translations } from '../utils/translations.js';
+import { getEnumValueType } from '../utils/type-mapper.js';
 import {
   generateSourceMap,
   createSourceMapComment,
@@ -20,36 +45,343 @@ import {
 } from '../utils/source-map.js';
 
 export type EnumGeneratorOptions = {
-  enumsDir: string;
+  enumsDirs: string[];
   outputDir: string;
   packageName: string;
   prettyPrint?: boolean;
   cwd: string;
+  /** Style of enums without a `@ferry-style` docblock tag (default: 'enum'). */
+  enumStyle?: EnumStyle;
+  /** Zero-argument enum methods generated as a property of each case, besides label() (e.g. ['color', 'isTerminal']). */
+  enumMethods?: string[];
+  /** Lang directories the labels of label() methods returning __('key') are translated from. */
+  langDirs?: string[];
+  /** Locale of the labels in the generated types (default: 'en'). */
+  locale?: string;
+  /** Called for each PHP file that can't be parsed (default: warn on the console). */
+  onError?: ParseErrorHandler;
 };
 
+const HELPERS_MODULE = 'helpers';
+
 /**
- * Generate TypeScript type declaration for a single enum.
+ * Runtime shared by the generated enums.
  */
-export function generateSingleEnumTypeScript(enumDef: EnumDefinition, phpFile?: string): string {
-  const hasLabels = enumDef.cases.some((c) => c.label);
+const HELPERS_RUNTIME = `let currentLocale;
+
+/**
+ * Set the locale of translated enum labels, or undefined for the labels in the generated types.
+ */
+export function setLocale(locale) {
+  currentLocale = locale;
+}
+
+/**
+ * Add cases(), values(), labelFor() and options() to a generated enum, plus from() and tryFrom() to a backed one.
+ * The helpers aren't enumerable, so Object.values() still lists only the cases.
+ * Translated labels are keyed by locale and then by value; the label of each case follows setLocale().
+ */
+export function defineEnumHelpers(name, target, translations = {}, backed = true) {
+  const cases = Object.values(target);
+  const valueOf = (c) => (typeof c === 'object' ? c.value : c);
+  const defaultLabels = new Map(cases.map((c) => [valueOf(c), typeof c === 'object' ? c.label : String(c)]));
+  const labelOf = (value, locale = currentLocale) =>
+    translations[locale]?.[value] ?? defaultLabels.get(value) ?? String(value);
+  const tryFrom = (value) => cases.find((c) => valueOf(c) === value);
+
+  if (Object.keys(translations).length > 0) {
+    for (const c of cases) {
+      if (typeof c === 'object') Object.defineProperty(c, 'label', { get: () => labelOf(c.value), enumerable: true });
+    }
+  }
+
+  const helpers = {
+    cases: () => [...cases],
+    values: () => cases.map(valueOf),
+    labelFor: (value, locale) => labelOf(value, locale),
+    options: (locale) => cases.map((c) => ({ value: valueOf(c), label: labelOf(valueOf(c), locale) })),
+  };
+
+  if (backed) {
+    helpers.from = (value) => {
+      const c = tryFrom(value);
+      if (c === undefined) throw new TypeError(\`\${JSON.stringify(value)} is not a valid value of enum \${name}\`);
+      return c;
+    };
+    helpers.tryFrom = tryFrom;
+  }
 
-  let node: ts.Node;
-  if (hasLabels) {
+  for (const [key, helper] of Object.entries(helpers)) {
+    Object.defineProperty(target, key, { value: helper });
+  }
+  return target;
+}
+
+/**
+ * Add the constants of a generated enum, e.g. OrderStatus.DEFAULT. Like the helpers, they aren't enumerable.
+ */
+export function defineEnumConstants(target, constants) {
+  for (const [key, value] of Object.entries(constants)) {
+    Object.defineProperty(target, key, { value });
+  }
+}
+`;
+
+/**
+ * Type declarations of the helpers exported from the package.
+ */
+const HELPERS_TYPES = `/**
+ * Set the locale of translated enum labels, or undefined for the labels in the generated types.
+ */
+export declare function setLocale(locale: string | undefined): void;
+`;
+
+type EnumHelper = {
+  name: string;
+  parameter?: ts.TypeNode;
+  /** Whether the helper takes an optional locale of translated labels. */
+  localized?: boolean;
+  returnType: ts.TypeNode;
+};
+
+/**
+ * Create the expression of a scalar: a case's value, label or metadata, or a constant.
+ */
+function createScalarExpression(value: EnumScalar): ts.Expression {
+  if (value === null) return ts.factory.createNull();
+  if (typeof value === 'boolean') return value ? ts.factory.createTrue() : ts.factory.createFalse();
+  if (typeof value === 'string') return createStringLiteral(value);
+  return value < 0
+    ? ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, createNumericLiteral(-value))
+    : createNumericLiteral(value);
+}
+
+/**
+ * Create the literal type of a scalar.
+ */
+function createValueLiteralType(value: EnumScalar): ts.LiteralTypeNode {
+  return ts.factory.createLiteralTypeNode(createScalarExpression(value) as ts.LiteralTypeNode['literal']);
+}
+
+/**
+ * Check if the cases of an enum are { value, label } objects, which hold labels and metadata methods.
+ */
+function hasCaseObjects(enumDef: EnumDefinition): boolean {
+  return enumDef.cases.some((c) => c.label || c.labelKey || c.properties);
+}
+
+/**
+ * Get the fields of a case object: its value, its label and its metadata.
+ * Like Laravel's __(), an untranslated label is its key; a case without a label is labelled by its value.
+ */
+function getCaseFields(enumCase: EnumCase): Array<{ key: string; value: EnumScalar }> {
+  return [
+    { key: 'value', value: enumCase.value },
+    { key: 'label', value: enumCase.label || enumCase.labelKey || String(enumCase.value) },
+    ...Object.entries(enumCase.properties ?? {}).map(([key, value]) => ({ key, value })),
+  ];
+}
+
+/**
+ * Create a union of literal types, or never for an enum without cases.
+ */
+function createLiteralUnion(types: ts.LiteralTypeNode[]): ts.TypeNode {
+  return types.length > 0
+    ? ts.factory.createUnionTypeNode(types)
+    : ts.factory.createKeywordTypeNode(ts.SyntaxKind.NeverKeyword);
+}
+
+/**
+ * Create the unions of an enum's values (OrderStatusValue, the type of fields cast to the enum)
+ * and of its case names (OrderStatusKey).
+ */
+function createEnumUnionTypes(enumDef: EnumDefinition): ts.TypeAliasDeclaration[] {
+  return [
+    createTypeAlias(
+      getEnumValueType(enumDef.name),
+      createLiteralUnion(enumDef.cases.map((c) => createValueLiteralType(c.value)))
+    ),
+    createTypeAlias(
+      `${enumDef.name}Key`,
+      createLiteralUnion(enumDef.cases.map((c) => ts.factory.createLiteralTypeNode(createStringLiteral(c.key))))
+    ),
+  ];
+}
+
+/**
+ * Get the signatures of the helpers added by defineEnumHelpers().
+ * Labelled enums are objects of { value, label } cases; other enums are TypeScript enums of their values.
+ */
+function getEnumHelpers(enumDef: EnumDefinition, caseObjects: boolean): EnumHelper[] {
+  const keyword = (kind: ts.KeywordTypeSyntaxKind) => ts.factory.createKeywordTypeNode(kind);
+
+  // Plain enum members are assignable to their values, so the value union accepts both
+  const valueType = ts.factory.createTypeReferenceNode(getEnumValueType(enumDef.name));
+  const caseType = caseObjects
+    ? ts.factory.createIndexedAccessTypeNode(
+        ts.factory.createTypeQueryNode(ts.factory.createIdentifier(enumDef.name)),
+        ts.factory.createTypeReferenceNode(`${enumDef.name}Key`)
+      )
+    : ts.factory.createTypeReferenceNode(enumDef.name);
+
+  const helpers: EnumHelper[] = [
+    { name: 'cases', returnType: ts.factory.createArrayTypeNode(caseType) },
+    { name: 'values', returnType: ts.factory.createArrayTypeNode(valueType) },
+    { name: 'labelFor', parameter: valueType, localized: true, returnType: keyword(ts.SyntaxKind.StringKeyword) },
+    {
+      name: 'options',
+      localized: true,
+      returnType: ts.factory.createArrayTypeNode(
+        createTypeLiteral([
+          { name: 'value', type: valueType },
+          { name: 'label', type: keyword(ts.SyntaxKind.StringKeyword) },
+        ])
+      ),
+    },
+  ];
+
+  // Like PHP, only backed enums can be looked up by value
+  if (enumDef.backing) {
+    const backingType = keyword(enumDef.backing === 'int' ? ts.SyntaxKind.NumberKeyword : ts.SyntaxKind.StringKeyword);
+    helpers.push(
+      { name: 'from', parameter: backingType, returnType: caseType },
+      {
+        name: 'tryFrom',
+        parameter: backingType,
+        returnType: ts.factory.createUnionTypeNode([caseType, keyword(ts.SyntaxKind.UndefinedKeyword)]),
+      }
+    );
+  }
+
+  return helpers;
+}
+
+/**
+ * Create the `value` and `locale` parameters of an enum helper.
+ */
+function createHelperParameters(helper: EnumHelper): ts.ParameterDeclaration[] {
+  const parameters: ts.ParameterDeclaration[] = [];
+  if (helper.parameter) {
+    parameters.push(ts.factory.createParameterDeclaration(undefined, undefined, 'value', undefined, helper.parameter));
+  }
+  if (helper.localized) {
+    parameters.push(
+      ts.factory.createParameterDeclaration(
+        undefined,
+        undefined,
+        'locale',
+        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+        ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)
+      )
+    );
+  }
+  return parameters;
+}
+
+/**
+ * Get the style an enum is generated in: its `@ferry-style` tag, else the configured style.
+ */
+function getEnumStyle(enumDef: EnumDefinition, style: EnumStyle = 'enum'): EnumStyle {
+  return enumDef.style ?? style;
+}
+
+/**
+ * Generate TypeScript type declaration for a single enum.
+ * Enums with labels are objects of { value, label } cases, unless generated as a type-only union.
+ */
+export function generateSingleEnumTypeScript(
+  enumDef: EnumDefinition,
+  phpFile?: string,
+  style: EnumStyle = 'enum'
+): string {
+  const caseObjects = hasCaseObjects(enumDef);
+  const helpers = getEnumHelpers(enumDef, caseObjects);
+  const enumStyle = getEnumStyle(enumDef, style);
+  const constants = enumDef.constants ?? [];
+
+  const nodes: ts.Node[] = [];
+  if (enumStyle === 'union') {
+    nodes.push(
+      createTypeAlias(enumDef.name, createLiteralUnion(enumDef.cases.map((c) => createValueLiteralType(c.value))))
+    );
+  } else if (caseObjects || enumStyle === 'const') {
     const properties = enumDef.cases.map((c) => ({
       name: c.key,
-      type: createTypeLiteral([
-        { name: 'value', type: ts.factory.createLiteralTypeNode(createStringLiteral(String(c.value))) },
-        {
-          name: 'label',
-          type: ts.factory.createLiteralTypeNode(createStringLiteral(c.label || String(c.value))),
-        },
-      ]),
+      type: caseObjects
+        ? createTypeLiteral(
+            getCaseFields(c).map(({ key, value }) => ({ name: key, type: createValueLiteralType(value) }))
+          )
+        : createValueLiteralType(c.value),
+    }));
+    const constantProperties = constants.map((constant) => ({
+      name: constant.name,
+      type: constant.case
+        ? ts.factory.createTypeQueryNode(
+            ts.factory.createQualifiedName(ts.factory.createIdentifier(enumDef.name), constant.case)
+          )
+        : createValueLiteralType(constant.value ?? null),
     }));
-    node = createDeclareConstWithType(enumDef.name, createTypeLiteral(properties));
+    const literal = createTypeLiteral([...properties, ...constantProperties]);
+    const methods = helpers.map((helper) =>
+      ts.factory.createMethodSignature(
+        undefined,
+        helper.name,
+        undefined,
+        undefined,
+        createHelperParameters(helper),
+        helper.returnType
+      )
+    );
+    nodes.push(
+      createDeclareConstWithType(
+        enumDef.name,
+        ts.factory.updateTypeLiteralNode(literal, ts.factory.createNodeArray([...literal.members, ...methods]))
+      )
+    );
+    // The const's values double as a type, like an enum's
+    if (enumStyle === 'const') {
+      nodes.push(createTypeAlias(enumDef.name, ts.factory.createTypeReferenceNode(getEnumValueType(enumDef.name))));
+    }
   } else {
-    node = createEnum(enumDef.name, enumDef.cases.map((c) => ({ key: c.key, value: c.value })));
+    const members = enumDef.cases.map((c) => ({ key: c.key, value: c.value }));
+    nodes.push(createEnum(enumDef.name, members));
+    // Merged with the enum, so the helpers and constants are called as Role.cases() and Role.DEFAULT
+    const constantDeclarations = constants.map((constant) =>
+      ts.factory.createVariableStatement(
+        [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+        ts.factory.createVariableDeclarationList(
+          [
+            ts.factory.createVariableDeclaration(
+              constant.name,
+              undefined,
+              constant.case
+                ? ts.factory.createTypeReferenceNode(
+                    ts.factory.createQualifiedName(ts.factory.createIdentifier(enumDef.name), constant.case)
+                  )
+                : createValueLiteralType(constant.value ?? null)
+            ),
+          ],
+          ts.NodeFlags.Const
+        )
+      )
+    );
+    const helperDeclarations = helpers.map((helper) =>
+      ts.factory.createFunctionDeclaration(
+        [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+        undefined,
+        helper.name,
+        undefined,
+        createHelperParameters(helper),
+        helper.returnType,
+        undefined
+      )
+    );
+    nodes.push(createNamespace(enumDef.name, [...constantDeclarations, ...helperDeclarations]));
   }
 
+  // After the declaration, so the source map's line offsets still hold
+  nodes.push(...createEnumUnionTypes(enumDef));
+
   const lines: string[] = [];
 
   // Add JSDoc with source reference
@@ -57,7 +389,7 @@ export function generateSingleEnumTypeScript(enumDef: EnumDefinition, phpFile?:
     lines.push(`/** @see ${phpFile} */`);
   }
 
-  lines.push(printNode(node));
+  lines.push(nodes.map((node) => printNode(node)).join('\n'));
 
   // Add source map comment
   if (phpFile) {
@@ -74,7 +406,8 @@ export function generateEnumSourceMap(
   enumDef: EnumDefinition,
   generatedFile: string,
   phpFile: string,
-  outputDir: string
+  outputDir: string,
+  style: EnumStyle = 'enum'
 ): string {
   const mappings: SourceMapping[] = [];
 
@@ -89,10 +422,13 @@ export function generateEnumSourceMap(
   }
 
   // Map each enum case to its source location
-  const hasLabels = enumDef.cases.some((c) => c.label);
+  const caseObjects = hasCaseObjects(enumDef);
   let currentLine = 3; // Start after "export enum Name {" or "export declare const Name: {"
 
-  for (const enumCase of enumDef.cases) {
+  // A union is declared on a single line, with no line per case
+  const cases = getEnumStyle(enumDef, style) === 'union' ? [] : enumDef.cases;
+
+  for (const enumCase of cases) {
     if (enumCase.loc) {
       mappings.push({
         generatedLine: currentLine,
@@ -101,8 +437,8 @@ export function generateEnumSourceMap(
         sourceColumn: enumCase.loc.column || 0,
       });
     }
-    // For labeled enums, each case takes multiple lines
-    currentLine += hasLabels ? 4 : 1;
+    // Case objects take a line per field, plus their braces
+    currentLine += caseObjects ? getCaseFields(enumCase).length + 2 : 1;
   }
 
   // Calculate relative path from output dir to PHP file
@@ -116,60 +452,128 @@ export function generateEnumSourceMap(
 }
 
 /**
- * Generate runtime JavaScript for a single enum.
+ * Generate runtime JavaScript for a single enum, importing defineEnumHelpers() from the given module.
  */
-export function generateSingleEnumRuntime(enumDef: EnumDefinition, prettyPrint = true): string {
-  const hasLabels = enumDef.cases.some((c) => c.label);
-
-  const properties = enumDef.cases.map((c) => {
-    let value: ts.Expression;
-    if (hasLabels) {
-      value = createObjectLiteral(
-        [
-          { key: 'value', value: createStringLiteral(String(c.value)) },
-          { key: 'label', value: createStringLiteral(c.label || String(c.value)) },
-        ],
-        prettyPrint
-      );
-    } else if (typeof c.value === 'number') {
-      value = createNumericLiteral(c.value);
-    } else {
-      value = createStringLiteral(String(c.value));
+export function generateSingleEnumRuntime(
+  enumDef: EnumDefinition,
+  prettyPrint = true,
+  helpersModule = `./${HELPERS_MODULE}.js`,
+  style: EnumStyle = 'enum'
+): string {
+  // Type-only unions have no runtime
+  if (getEnumStyle(enumDef, style) === 'union') return 'export {};\n';
+
+  const caseObjects = hasCaseObjects(enumDef);
+
+  const properties = enumDef.cases.map((c) => ({
+    key: c.key,
+    value: caseObjects
+      ? createObjectLiteral(
+          getCaseFields(c).map(({ key, value }) => ({ key, value: createScalarExpression(value) })),
+          prettyPrint
+        )
+      : createScalarExpression(c.value),
+  }));
+
+  // Translated labels of each locale, keyed by case value
+  const translations: Record<string, Array<{ key: string; value: ts.Expression }>> = {};
+  for (const c of enumDef.cases) {
+    for (const [locale, label] of Object.entries(c.labels ?? {})) {
+      (translations[locale] ??= []).push({ key: String(c.value), value: createStringLiteral(label) });
     }
-    return { key: c.key, value };
-  });
+  }
+  const translationsArgument = Object.entries(translations).map(([locale, labels]) => ({
+    key: locale,
+    value: createObjectLiteral(labels, prettyPrint),
+  }));
+
+  const declaration = ts.factory.createVariableStatement(
+    [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+    ts.factory.createVariableDeclarationList(
+      [
+        ts.factory.createVariableDeclaration(
+          enumDef.name,
+          undefined,
+          undefined,
+          ts.factory.createCallExpression(ts.factory.createIdentifier('defineEnumHelpers'), undefined, [
+            createStringLiteral(enumDef.name),
+            createObjectLiteral(properties),
+            // Pure enums have no from() and tryFrom()
+            ...(translationsArgument.length > 0 || !enumDef.backing
+              ? [createObjectLiteral(translationsArgument)]
+              : []),
+            ...(enumDef.backing ? [] : [ts.factory.createFalse()]),
+          ])
+        ),
+      ],
+      ts.NodeFlags.Const
+    )
+  );
+
+  const statements: ts.Node[] = [declaration];
 
-  return printNode(createConstObject(enumDef.name, properties)) + '\n';
+  // Constants are added once the cases exist, since they may reference them
+  const constants = enumDef.constants ?? [];
+  if (constants.length > 0) {
+    const values = constants.map((constant) => ({
+      key: constant.name,
+      value: constant.case
+        ? ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(enumDef.name), constant.case)
+        : createScalarExpression(constant.value ?? null),
+    }));
+    statements.push(
+      ts.factory.createExpressionStatement(
+        ts.factory.createCallExpression(ts.factory.createIdentifier('defineEnumConstants'), undefined, [
+          ts.factory.createIdentifier(enumDef.name),
+          createObjectLiteral(values),
+        ])
+      )
+    );
+  }
+
+  const imports = constants.length > 0 ? ['defineEnumConstants', 'defineEnumHelpers'] : ['defineEnumHelpers'];
+  return [createImport(imports, helpersModule), ...statements].map((node) => printNode(node)).join('\n') + '\n';
 }
 
 /**
- * Collect all enum definitions from the enums directory.
+ * Collect all enum definitions from the enums directories.
+ * Enums are keyed by their collision-free type name from the symbol index.
  * This is a plugin-level function that handles file I/O.
  */
-export function collectEnums(enumsDir: string, cwd: string): Record<string, EnumDefinition> {
+export function collectEnums(
+  enumsDirs: string | string[],
+  cwd: string,
+  symbols: SymbolIndex = createSymbolIndex(cwd, { enums: [enumsDirs].flat() }),
+  onError?: ParseErrorHandler,
+  methods: string[] = []
+): Record<string, EnumDefinition> {
   const enums: Record<string, EnumDefinition> = {};
 
-  if (!existsSync(enumsDir)) {
-    return enums;
-  }
-
-  const enumFiles = getPhpFiles(enumsDir);
+  for (const enumsDir of [enumsDirs].flat()) {
+    if (!existsSync(enumsDir)) continue;
 
-  for (const file of enumFiles) {
-    try {
+    for (const file of getPhpFiles(enumsDir)) {
       const enumPath = join(enumsDir, file);
-      const content = readFileSafe(enumPath);
-      if (!content) continue;
 
       // Calculate relative path from project root for source mapping
       const relativePhpPath = relative(cwd, enumPath);
-      const def = parseEnumContent(content, relativePhpPath);
-      if (def) {
-        enums[def.name] = def;
+
+      try {
+        const content = readFileSafe(enumPath);
+        if (!content) continue;
+
+        const def = parseEnumContent(content, relativePhpPath, methods);
+        if (def) {
+          def.name = (def.fqcn && symbols.get(def.fqcn)?.typeName) || def.name;
+          enums[def.name] = def;
+        } else {
+          // Not an enum, unless the file doesn't parse at all
+          const syntaxError = getPhpSyntaxError(content);
+          if (syntaxError) reportParseError(onError, 'enum', relativePhpPath, syntaxError);
+        }
+      } catch (e) {
+        reportParseError(onError, 'enum', relativePhpPath, e);
       }
-    } catch (e) {
-      // Ignore parse errors
-      console.warn(`Failed to parse enum file: ${file}`, e);
     }
   }
 
@@ -177,57 +581,126 @@ export function collectEnums(enumsDir: string, cwd: string): Record<string, Enum
 }
 
 /**
- * Generate enum files (TypeScript declarations and runtime JavaScript).
+ * Resolve the labels of enums whose label() returns a translation key: the string of the given locale becomes the
+ * label in the types, and the strings of every locale are kept for the runtime.
  */
-export function generateEnums(options: EnumGeneratorOptions): void {
-  const { enumsDir, outputDir, packageName, prettyPrint = true, cwd } = options;
-
-  // Clean existing generated files
-  cleanOutputDir(outputDir);
-
-  // Collect all enums
-  const enums = collectEnums(enumsDir, cwd);
-  const enumNames = Object.keys(enums);
+function translateEnumLabels(
+  enums: Record<string, EnumDefinition>,
+  translations: Translations,
+  locale: string
+): Record<string, EnumDefinition> {
+  const translate = (enumCase: EnumCase): EnumCase => {
+    const { labelKey } = enumCase;
+    if (!labelKey) return enumCase;
+
+    const labels = Object.fromEntries(
+      Object.entries(translations).flatMap(([language, strings]) =>
+        labelKey in strings ? [[language, strings[labelKey]]] : []
+      )
+    );
+    return {
+      ...enumCase,
+      label: labels[locale] ?? enumCase.label,
+      ...(Object.keys(labels).length > 0 ? { labels } : {}),
+    };
+  };
+
+  return Object.fromEntries(
+    Object.entries(enums).map(([name, def]) => [name, { ...def, cases: def.cases.map(translate) }])
+  );
+}
 
-  // Generate individual files for each enum
-  for (const enumName of enumNames) {
+/**
+ * Build enum files (TypeScript declarations and runtime JavaScript) in memory.
+ */
+export function buildEnumFiles(options: EnumGeneratorOptions): GeneratedFiles {
+  const {
+    enumsDirs,
+    outputDir,
+    packageName,
+    prettyPrint = true,
+    cwd,
+    enumStyle,
+    enumMethods,
+    langDirs = [],
+    locale = 'en',
+    onError,
+  } = options;
+
+  const files: GeneratedFiles = {};
+
+  // Collect all enums, translating their labels
+  const translations = readTranslations(langDirs, cwd, onError);
+  const collected = collectEnums(enumsDirs, cwd, undefined, onError, enumMethods);
+  const enums = translateEnumLabels(collected, translations, locale);
+  const modules: PackageModule[] = [];
+
+  // Generate individual files for each enum, mirroring the enums directory layout
+  for (const enumName of Object.keys(enums)) {
     const enumDef = enums[enumName];
     const phpFile = enumDef.loc?.file;
+    const modulePath = phpFile
+      ? getModulePath(getSourceRelativePath(join(cwd, phpFile), enumsDirs), enumName)
+      : enumName;
+    const moduleDir = join(outputDir, dirname(modulePath));
 
     // Generate {EnumName}.d.ts with JSDoc and source map comment
-    const dtsContent = generateSingleEnumTypeScript(enumDef, phpFile);
-    writeFileEnsureDir(join(outputDir, `${enumName}.d.ts`), dtsContent);
+    const dtsContent = generateSingleEnumTypeScript(enumDef, phpFile, enumStyle);
+    files[`${modulePath}.d.ts`] = dtsContent;
 
     // Generate {EnumName}.d.ts.map
     if (phpFile) {
-      const sourceMap = generateEnumSourceMap(enumDef, `${enumName}.d.ts`, phpFile, outputDir);
-      writeFileEnsureDir(join(outputDir, `${enumName}.d.ts.map`), sourceMap);
+      const sourceMap = generateEnumSourceMap(enumDef, `${enumName}.d.ts`, phpFile, moduleDir, enumStyle);
+      files[`${modulePath}.d.ts.map`] = sourceMap;
     }
 
     // Generate {EnumName}.js
-    const jsContent = generateSingleEnumRuntime(enumDef, prettyPrint);
-    writeFileEnsureDir(join(outputDir, `${enumName}.js`), jsContent);
+    const helpersModule = getModuleSpecifier(modulePath, HELPERS_MODULE);
+    const jsContent = generateSingleEnumRuntime(enumDef, prettyPrint, helpersModule, enumStyle);
+    files[`${modulePath}.js`] = jsContent;
+
+    modules.push({
+      name: enumName,
+      shortName: enumDef.fqcn ? getShortName(enumDef.fqcn) : enumName,
+      path: modulePath,
+      typeOnly: getEnumStyle(enumDef, enumStyle) === 'union',
+    });
   }
 
-  // Generate barrel index.d.ts
-  const indexDts = enumNames.map((n) => `export { ${n} } from './${n}.js';`).join('\n') + '\n';
-  writeFileEnsureDir(join(outputDir, 'index.d.ts'), indexDts);
+  // Generate barrel index.d.ts and index.js (root and per subdirectory)
+  const exportLine = (local: string, exported: string, specifier: string) =>
+    `export { ${formatExportSpecifier(local, exported)} } from '${specifier}';`;
+  // The value and key unions are exported under the enum's (possibly aliased) name
+  const dtsExportLine = (local: string, exported: string, specifier: string) => {
+    const names = [
+      formatExportSpecifier(local, exported),
+      formatExportSpecifier(getEnumValueType(local), getEnumValueType(exported)),
+      formatExportSpecifier(`${local}Key`, `${exported}Key`),
+    ];
+    return `export { ${names.join(', ')} } from '${specifier}';`;
+  };
+  const subpaths = addBarrels(files, modules, dtsExportLine, exportLine);
+
+  // Generate helpers.js, the runtime of every enum's helpers, exporting setLocale() from the package
+  files[`${HELPERS_MODULE}.js`] = HELPERS_RUNTIME;
+  files[`${HELPERS_MODULE}.d.ts`] = HELPERS_TYPES;
+  for (const barrel of ['index.d.ts', 'index.js']) {
+    const lines = [files[barrel].trimEnd(), `export { setLocale } from './${HELPERS_MODULE}.js';`];
+    files[barrel] = lines.filter(Boolean).join('\n') + '\n';
+  }
 
-  // Generate barrel index.js
-  const indexJs = enumNames.map((n) => `export { ${n} } from './${n}.js';`).join('\n') + '\n';
-  writeFileEnsureDir(join(outputDir, 'index.js'), indexJs);
+  // Generate manifest.json, the snapshot breaking changes are detected against
+  files[MANIFEST_FILE] = formatManifest(createEnumManifest(enums));
 
   // Generate package.json
-  const pkgJson = JSON.stringify(
-    {
-      name: packageName,
-      version: '0.0.0',
-      main: 'index.js',
-      types: 'index.d.ts',
-    },
-    null,
-    2
-  );
-  const pkgPath = join(outputDir, 'package.json');
-  writeFileEnsureDir(pkgPath, pkgJson);
+  addPackageJson(files, packageName, subpaths);
+
+  return files;
+}
+
+/**
+ * Generate enum files (TypeScript declarations and runtime JavaScript).
+ */
+export function generateEnums(options: EnumGeneratorOptions): void {
+  writeGeneratedFiles(options.outputDir, buildEnumFiles(options));
 }
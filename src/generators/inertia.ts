@@ -0,0 +1,225 @@
+import ts from 'typescript';
+import { existsSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { getPhpFiles, readFileSafe } from '../utils/file.js';
+import { parseInertiaPages, parseInertiaSharedProps, type InertiaPage } from '../utils/inertia-parser.js';
+import { addPackageJson, writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+import {
+  getPhpSyntaxError,
+  reportParseError,
+  unionTypes,
+  type ParseErrorHandler,
+  type ResourceFieldInfo,
+} from '../utils/php-parser.js';
+import { createSymbolIndex, type SymbolIndex } from '../utils/symbol-index.js';
+import {
+  createImportType,
+  createTypeAlias,
+  createTypeLiteral,
+  parseTypeString,
+  printNode,
+} from '../utils/ts-generator.js';
+import { PAGINATED_TYPES } from './resources.js';
+
+export type InertiaGeneratorOptions = {
+  controllersDirs: string[];
+  middlewareDirs: string[];
+  resourcesDirs: string[];
+  outputDir: string;
+  packageName: string;
+  /** Package the resource types are imported from. */
+  resourcesPackageName: string;
+  prettyPrint?: boolean;
+  cwd: string;
+  /** Called for each PHP file that can't be parsed (default: warn on the console). */
+  onError?: ParseErrorHandler;
+};
+
+/**
+ * Props of each page, keyed by component name, or null when a page's props can't be determined.
+ */
+export type InertiaPageProps = Record<string, Record<string, ResourceFieldInfo> | null>;
+
+/**
+ * Type declarations for the page props helpers.
+ */
+const INERTIA_DECLARATIONS = `export type PageName = keyof PageProps;
+
+export type Props<T extends PageName> = PageProps[T] & SharedProps;
+`;
+
+/**
+ * Read a PHP file, reporting it and returning null when it doesn't parse.
+ */
+function readPhpFile(filePath: string, cwd: string, onError?: ParseErrorHandler): string | null {
+  const content = readFileSafe(filePath);
+  if (!content) return null;
+
+  const syntaxError = getPhpSyntaxError(content);
+  if (syntaxError) {
+    reportParseError(onError, 'inertia', relative(cwd, filePath), syntaxError);
+    return null;
+  }
+
+  return content;
+}
+
+/**
+ * Collect the pages rendered by all controllers.
+ * This is a plugin-level function that handles file I/O.
+ */
+export function collectInertiaPages(
+  controllersDirs: string[],
+  cwd: string,
+  symbols: SymbolIndex,
+  onError?: ParseErrorHandler
+): InertiaPage[] {
+  const pages: InertiaPage[] = [];
+
+  for (const controllersDir of controllersDirs) {
+    if (!existsSync(controllersDir)) continue;
+
+    for (const file of getPhpFiles(controllersDir)) {
+      const content = readPhpFile(join(controllersDir, file), cwd, onError);
+      if (!content) continue;
+
+      pages.push(...parseInertiaPages(content, { symbols, filePath: relative(cwd, join(controllersDir, file)) }));
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Collect the props shared with every page by the HandleInertiaRequests middleware, from the first class with share().
+ * This is a plugin-level function that handles file I/O.
+ */
+export function collectInertiaSharedProps(
+  middlewareDirs: string[],
+  cwd: string,
+  symbols: SymbolIndex,
+  onError?: ParseErrorHandler
+): Record<string, ResourceFieldInfo> {
+  for (const middlewareDir of middlewareDirs) {
+    if (!existsSync(middlewareDir)) continue;
+
+    for (const file of getPhpFiles(middlewareDir)) {
+      const content = readPhpFile(join(middlewareDir, file), cwd, onError);
+      const props = content && parseInertiaSharedProps(content, { symbols });
+      if (props) return props;
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Merge the props of pages rendered in several places: props passed by only some of them are optional,
+ * and the types of the others are combined.
+ */
+export function mergeInertiaPages(pages: InertiaPage[]): InertiaPageProps {
+  const renders: Record<string, Array<InertiaPage['props']>> = {};
+  for (const page of pages) {
+    (renders[page.component] ??= []).push(page.props);
+  }
+
+  const merged: InertiaPageProps = {};
+  for (const component of Object.keys(renders).sort()) {
+    const all = renders[component];
+    if (all.some((props) => props === null)) {
+      merged[component] = null;
+      continue;
+    }
+
+    const props: Record<string, ResourceFieldInfo> = {};
+    for (const key of new Set(all.flatMap((p) => Object.keys(p!)))) {
+      const infos = all.map((p) => p![key]);
+      const present = infos.filter((info): info is ResourceFieldInfo => info !== undefined);
+      props[key] = {
+        ...present[0],
+        type: unionTypes(...present.map((info) => info.type)),
+        optional: present.length < infos.length || present.some((info) => info.optional),
+      };
+    }
+    merged[component] = props;
+  }
+
+  return merged;
+}
+
+/**
+ * Create the type literal of a set of props.
+ */
+function createPropsType(props: Record<string, ResourceFieldInfo> | null): ts.TypeNode {
+  if (!props) return parseTypeString('Record<string, any>');
+
+  return createTypeLiteral(
+    Object.entries(props).map(([name, info]) => ({
+      name,
+      type: parseTypeString(info.type || 'any'),
+      optional: info.optional,
+    }))
+  );
+}
+
+/**
+ * Generate TypeScript type declarations for the props of every page and the shared props,
+ * importing the resource types they reference.
+ */
+export function generateInertiaTypeScript(
+  pages: InertiaPageProps,
+  shared: Record<string, ResourceFieldInfo>,
+  resourceNames: string[],
+  resourcesPackageName: string
+): string {
+  // Find the resources and pagination types the props reference
+  const types = [...Object.values(pages), shared].flatMap((props) => Object.values(props ?? {}).map((p) => p.type));
+  const referenced = [...resourceNames, ...Object.values(PAGINATED_TYPES)]
+    .filter((name) => types.some((type) => new RegExp(`\\b${name}\\b`).test(type)))
+    .sort();
+
+  const pageProps = createTypeLiteral(
+    Object.entries(pages).map(([component, props]) => ({ name: component, type: createPropsType(props) }))
+  );
+
+  const nodes: ts.Node[] = [];
+  if (referenced.length > 0) nodes.push(createImportType(referenced, resourcesPackageName));
+  nodes.push(createTypeAlias('SharedProps', createPropsType(shared)));
+  nodes.push(createTypeAlias('PageProps', pageProps));
+
+  return `${nodes.map(printNode).join('\n\n')}\n\n${INERTIA_DECLARATIONS}`;
+}
+
+/**
+ * Build Inertia page props files (TypeScript declarations and an empty runtime module) in memory.
+ */
+export function buildInertiaFiles(options: InertiaGeneratorOptions): GeneratedFiles {
+  const { controllersDirs, middlewareDirs, resourcesDirs, packageName, resourcesPackageName, cwd, onError } = options;
+
+  const files: GeneratedFiles = {};
+
+  // Resources are referenced by the collision-free names their package exports
+  const symbols = createSymbolIndex(cwd, { resources: resourcesDirs });
+  const resourceNames = symbols.list('resources').map((entry) => entry.typeName);
+
+  const pages = mergeInertiaPages(collectInertiaPages(controllersDirs, cwd, symbols, onError));
+  const shared = collectInertiaSharedProps(middlewareDirs, cwd, symbols, onError);
+
+  // Generate index.d.ts
+  files['index.d.ts'] = generateInertiaTypeScript(pages, shared, resourceNames, resourcesPackageName);
+
+  // Generate index.js (the package only holds types)
+  files['index.js'] = 'export {};\n';
+
+  // Generate package.json
+  addPackageJson(files, packageName);
+
+  return files;
+}
+
+/**
+ * Generate Inertia page props files (TypeScript declarations and an empty runtime module).
+ */
+export function generateInertia(options: InertiaGeneratorOptions): void {
+  writeGeneratedFiles(options.outputDir, buildInertiaFiles(options));
+}
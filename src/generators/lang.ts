@@ -0,0 +1,233 @@
+import ts from 'typescript';
+import { addPackageJson, writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+import type { ParseErrorHandler } from '../utils/php-parser.js';
+import {
+  createExportDefault,
+  createObjectLiteral,
+  createStringLiteral,
+  createTypeAlias,
+  createTypeLiteral,
+  printNode,
+} from '../utils/ts-generator.js';
+import { extractTranslationParameters, readTranslations, type Translations } from '../utils/translations.js';
+
+export type LangGeneratorOptions = {
+  langDirs: string[];
+  outputDir: string;
+  packageName: string;
+  prettyPrint?: boolean;
+  cwd: string;
+  /** Locale loaded up front and used for missing translations (default: 'en'). */
+  locale?: string;
+  /** Called for each PHP file that can't be parsed (default: warn on the console). */
+  onError?: ParseErrorHandler;
+};
+
+/**
+ * Runtime implementation of t() and the locale functions, shared by every generated package.
+ * Missing translations fall back to the default locale, then to the key, like Laravel's __().
+ */
+const LANG_FUNCTIONS = `const loaded = { [defaultLocale]: defaultTranslations };
+let currentLocale = defaultLocale;
+
+export async function loadLocale(locale) {
+    if (loaded[locale]) return;
+    const loader = loaders[locale];
+    if (!loader) {
+        throw new Error(\`Locale [\${locale}] not defined.\`);
+    }
+    loaded[locale] = (await loader()).default;
+}
+
+export async function setLocale(locale) {
+    await loadLocale(locale);
+    currentLocale = locale;
+}
+
+export function getLocale() {
+    return currentLocale;
+}
+
+export function t(key, params = {}, locale = currentLocale) {
+    const line = loaded[locale]?.[key] ?? loaded[defaultLocale][key] ?? key;
+    return line.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (token, name) => {
+        if (name in params) return String(params[name]);
+        const lower = name.toLowerCase();
+        if (name.length > 1 && name === name.toUpperCase() && lower in params) {
+            return String(params[lower]).toUpperCase();
+        }
+        const lowerFirst = name[0].toLowerCase() + name.slice(1);
+        if (lowerFirst !== name && lowerFirst in params) {
+            const value = String(params[lowerFirst]);
+            return value.charAt(0).toUpperCase() + value.slice(1);
+        }
+        return token;
+    });
+}
+`;
+
+/**
+ * Type declarations for the runtime helpers.
+ */
+const LANG_DECLARATIONS = `export type TranslationKey = keyof TranslationParameters;
+
+export type TranslationParameter = string | number;
+
+export declare const defaultLocale: Locale;
+
+export declare const locales: Locale[];
+
+export declare function loadLocale(locale: Locale): Promise<void>;
+
+export declare function setLocale(locale: Locale): Promise<void>;
+
+export declare function getLocale(): Locale;
+
+export declare function t<T extends TranslationKey>(
+    key: T,
+    ...args: {} extends TranslationParameters[T]
+        ? [params?: TranslationParameters[T], locale?: Locale]
+        : [params: TranslationParameters[T], locale?: Locale]
+): string;
+`;
+
+/**
+ * Get the locales of the package, the default one first, even if it has no lang files.
+ */
+function getLocales(translations: Translations, defaultLocale: string): string[] {
+  return [
+    defaultLocale,
+    ...Object.keys(translations)
+      .filter((locale) => locale !== defaultLocale)
+      .sort(),
+  ];
+}
+
+/**
+ * Generate TypeScript type declarations for the translation keys of every locale and their parameters.
+ */
+export function generateLangTypeScript(translations: Translations, defaultLocale = 'en'): string {
+  const parameters: Record<string, Set<string>> = {};
+  for (const strings of Object.values(translations)) {
+    for (const [key, line] of Object.entries(strings)) {
+      const params = (parameters[key] ??= new Set());
+      for (const param of extractTranslationParameters(line)) params.add(param);
+    }
+  }
+
+  const properties = Object.keys(parameters)
+    .sort()
+    .map((key) => ({
+      name: key,
+      type: createTypeLiteral(
+        [...parameters[key]].map((param) => ({
+          name: param,
+          type: ts.factory.createTypeReferenceNode('TranslationParameter'),
+        }))
+      ),
+    }));
+
+  const localeType = ts.factory.createUnionTypeNode(
+    getLocales(translations, defaultLocale).map((locale) =>
+      ts.factory.createLiteralTypeNode(createStringLiteral(locale))
+    )
+  );
+
+  const paramsType = printNode(createTypeAlias('TranslationParameters', createTypeLiteral(properties)));
+  return `${paramsType}\n\nexport type Locale = ${printNode(localeType)};\n\n${LANG_DECLARATIONS}`;
+}
+
+/**
+ * Generate the runtime JavaScript of a locale's chunk, exporting its strings.
+ */
+export function generateLocaleRuntime(strings: Record<string, string>, prettyPrint = true): string {
+  const properties = Object.keys(strings)
+    .sort()
+    .map((key) => ({ key, value: createStringLiteral(strings[key]) }));
+
+  return `${printNode(createExportDefault(createObjectLiteral(properties, prettyPrint)))}\n`;
+}
+
+/**
+ * Generate the runtime JavaScript of t(), importing the default locale and loading the others lazily.
+ */
+export function generateLangRuntime(translations: Translations, defaultLocale = 'en', prettyPrint = true): string {
+  const locales = getLocales(translations, defaultLocale);
+
+  // The default locale is imported up front, the others when they're first used
+  const loaders = locales.slice(1).map((locale) => ({
+    key: locale,
+    value: ts.factory.createArrowFunction(
+      undefined,
+      undefined,
+      [],
+      undefined,
+      undefined,
+      ts.factory.createCallExpression(ts.factory.createToken(ts.SyntaxKind.ImportKeyword) as ts.Expression, undefined, [
+        createStringLiteral(`./locales/${locale}.js`),
+      ])
+    ),
+  }));
+
+  const localeList = ts.factory.createArrayLiteralExpression(locales.map((locale) => createStringLiteral(locale)));
+  const loadersDeclaration = ts.factory.createVariableStatement(
+    undefined,
+    ts.factory.createVariableDeclarationList(
+      [
+        ts.factory.createVariableDeclaration(
+          'loaders',
+          undefined,
+          undefined,
+          createObjectLiteral(loaders, prettyPrint)
+        ),
+      ],
+      ts.NodeFlags.Const
+    )
+  );
+
+  return [
+    `import defaultTranslations from ${JSON.stringify(`./locales/${defaultLocale}.js`)};`,
+    '',
+    `export const defaultLocale = ${JSON.stringify(defaultLocale)};`,
+    '',
+    `export const locales = ${printNode(localeList)};`,
+    '',
+    printNode(loadersDeclaration),
+    '',
+    LANG_FUNCTIONS,
+  ].join('\n');
+}
+
+/**
+ * Build translation files (TypeScript declarations, the runtime and a chunk per locale) in memory.
+ */
+export function buildLangFiles(options: LangGeneratorOptions): GeneratedFiles {
+  const { langDirs, packageName, prettyPrint = true, cwd, locale = 'en', onError } = options;
+
+  const files: GeneratedFiles = {};
+
+  const translations = readTranslations(langDirs, cwd, onError);
+
+  // Generate index.d.ts
+  files['index.d.ts'] = generateLangTypeScript(translations, locale);
+
+  // Generate index.js
+  files['index.js'] = generateLangRuntime(translations, locale, prettyPrint);
+
+  // Generate locales/{locale}.js, loaded by setLocale()
+  for (const name of getLocales(translations, locale)) {
+    files[`locales/${name}.js`] = generateLocaleRuntime(translations[name] ?? {}, prettyPrint);
+  }
+
+  // Generate package.json
+  addPackageJson(files, packageName);
+
+  return files;
+}
+
+/**
+ * Generate translation files (TypeScript declarations and runtime JavaScript).
+ */
+export function generateLang(options: LangGeneratorOptions): void {
+  writeGeneratedFiles(options.outputDir, buildLangFiles(options));
+}
@@ -1,70 +1,544 @@
 import ts from 'typescript';
 import { existsSync } from 'node:fs';
-import { join, parse, relative } from 'node:path';
-import { getPhpFiles, readFileSafe, writeFileEnsureDir, cleanOutputDir } from '../utils/file.js';
+import { dirname, join, parse, relative } from 'node:path';
+import { getPhpFiles, readFileSafe } from '../utils/file.js';
 import {
+  callsWithoutWrapping,
   extractDocblockArrayShape,
+  getDeclaredClassName,
+  getPhpSyntaxError,
   parseResourceFieldsAst,
+  parseResourceResponse,
+  reportParseError,
   type EnumDefinition,
+  type ParseErrorHandler,
   type ResourceFieldInfo,
 } from '../utils/php-parser.js';
-import { mapDocTypeToTs } from '../utils/type-mapper.js';
+import {
+  formatExportSpecifier,
+  getModulePath,
+  getModuleSpecifier,
+  addBarrels,
+  addPackageJson,
+  writeGeneratedFiles,
+  type GeneratedFiles,
+  type PackageModule,
+} from '../utils/package.js';
+import { readDatabaseSchema } from '../utils/database-schema.js';
+import { formatManifest, toManifestFields, MANIFEST_FILE } from '../utils/manifest.js';
+import { createSymbolIndex } from '../utils/symbol-index.js';
+import { getEnumValueType, mapDocTypeToTs } from '../utils/type-mapper.js';
 import {
   printNode,
+  createNamespace,
   createTypeAlias,
+  createImport,
   createImportType,
+  createPropertyName,
   parseTypeString,
   createTypeLiteral,
 } from '../utils/ts-generator.js';
-import {
-  generateSourceMap,
-  createSourceMapComment,
-  type SourceMapping,
-} from '../utils/source-map.js';
+import { generateSourceMap, createSourceMapComment, type SourceMapping } from '../utils/source-map.js';
 
 export type ResourceGeneratorOptions = {
-  resourcesDir: string;
-  enumsDir: string;
-  modelsDir: string;
+  resourcesDirs: string[];
+  enumsDirs: string[];
+  modelsDirs: string[];
+  /** Service provider directories checked for JsonResource::withoutWrapping() (default: none). */
+  providersDirs?: string[];
+  /** Migration directories read for the column types of model attributes without a cast (default: none). */
+  migrationsDirs?: string[];
+  /** Resources of models not named {Model}Resource, keyed by model class name, for relations loaded with whenLoaded(). */
+  modelResources?: Record<string, string>;
+  /** Generate hydrate functions turning the date fields of resources into Date objects (default: false). */
+  hydrate?: boolean;
   outputDir: string;
   packageName: string;
+  /** Package the generated enums are imported from. */
+  enumsPackageName?: string;
   prettyPrint?: boolean;
   cwd: string;
+  /** Called for each PHP file that can't be parsed (default: warn on the console). */
+  onError?: ParseErrorHandler;
 };
 
 // Re-export FieldInfo type from php-parser for backwards compatibility
 export type FieldInfo = ResourceFieldInfo;
 
 /**
- * Generate TypeScript type declaration for a single resource.
+ * How a resource is sent in a response, used to generate its envelope types.
+ */
+export type ResourceEnvelope = {
+  /** Key the resource is wrapped in, or null when wrapping is disabled. */
+  wrap: string | null;
+  /** Key anonymous collections (UserResource::collection()) are wrapped in, or null when wrapping is disabled. */
+  defaultWrap: string | null;
+  /** Top-level keys added by with() and additional(). */
+  with: Record<string, ResourceFieldInfo>;
+  /** For ResourceCollection classes, the type of the collected resources, or null when unknown. */
+  collects?: string | null;
+  /** Module specifier of the pagination types, relative to the resource's module. */
+  pagination: string;
+};
+
+type EnvelopeMember = { name: string; type: ts.TypeNode; optional?: boolean };
+
+/**
+ * Where a resource's hydrate function finds the shared runtime and the resources it hydrates recursively.
+ */
+export type ResourceHydration = {
+  /** Module specifier of the shared hydrate runtime, relative to the resource's module. */
+  runtime: string;
+  /** Module specifiers of the package's resources, relative to the resource's module, keyed by type name. */
+  resources: Record<string, string>;
+};
+
+/**
+ * Module holding the paginated response types, at the package root.
+ */
+const PAGINATION_MODULE = 'pagination';
+
+/**
+ * Pagination types of Laravel's paginated resource responses: the paginator's array without
+ * its data and *_page_url keys becomes `meta`, and the page URLs become `links`.
+ */
+const PAGINATION_TYPES: Array<{ name: string; properties: Record<string, string>; typeParameters?: string[] }> = [
+  {
+    name: 'PaginationLinks',
+    properties: { first: 'string | null', last: 'string | null', prev: 'string | null', next: 'string | null' },
+  },
+  {
+    name: 'PaginationMetaLink',
+    properties: { url: 'string | null', label: 'string', active: 'boolean' },
+  },
+  {
+    name: 'PaginationMeta',
+    properties: {
+      current_page: 'number',
+      from: 'number | null',
+      last_page: 'number',
+      links: 'PaginationMetaLink[]',
+      path: 'string',
+      per_page: 'number',
+      to: 'number | null',
+      total: 'number',
+    },
+  },
+  {
+    name: 'SimplePaginationMeta',
+    properties: {
+      current_page: 'number',
+      current_page_url: 'string',
+      from: 'number | null',
+      path: 'string',
+      per_page: 'number',
+      to: 'number | null',
+    },
+  },
+  {
+    name: 'CursorPaginationMeta',
+    properties: { path: 'string', per_page: 'number', next_cursor: 'string | null', prev_cursor: 'string | null' },
+  },
+  {
+    name: 'Paginated',
+    properties: { data: 'T[]', links: 'PaginationLinks', meta: 'PaginationMeta' },
+    typeParameters: ['T'],
+  },
+  {
+    name: 'SimplePaginated',
+    properties: { data: 'T[]', links: 'PaginationLinks', meta: 'SimplePaginationMeta' },
+    typeParameters: ['T'],
+  },
+  {
+    name: 'CursorPaginated',
+    properties: { data: 'T[]', links: 'PaginationLinks', meta: 'CursorPaginationMeta' },
+    typeParameters: ['T'],
+  },
+];
+
+/**
+ * Generic response types of resource collections made from each paginator, keyed by response kind.
+ */
+export const PAGINATED_TYPES: Record<string, string> = {
+  paginated: 'Paginated',
+  simplePaginated: 'SimplePaginated',
+  cursorPaginated: 'CursorPaginated',
+};
+
+/**
+ * Generate the paginated response types shared by all resources:
+ * Paginated<T> for paginate(), SimplePaginated<T> for simplePaginate() and CursorPaginated<T> for cursorPaginate().
+ */
+export function generatePaginationTypeScript(): string {
+  const nodes = PAGINATION_TYPES.map(({ name, properties, typeParameters }) => {
+    const members = Object.entries(properties).map(([key, type]) => ({ name: key, type: parseTypeString(type) }));
+    return createTypeAlias(name, createTypeLiteral(members), typeParameters);
+  });
+  return nodes.map(printNode).join('\n\n') + '\n';
+}
+
+/**
+ * Module holding the shared hydrate runtime and the Hydrated<T> type, at the package root.
+ */
+const HYDRATE_MODULE = 'hydrate';
+
+/**
+ * Runtime shared by the generated hydrate functions.
+ */
+const HYDRATE_RUNTIME = `/**
+ * Create a Date from a serialized date, the default date factory of hydrate functions.
+ */
+export const createDate = (value) => new Date(value);
+
+/**
+ * Hydrate the fields of a resource, or of each resource in an array, leaving missing and null fields as they are.
+ */
+export function hydrateFields(data, hydrators) {
+  if (data == null) return data;
+  if (Array.isArray(data)) return data.map((item) => hydrateFields(item, hydrators));
+
+  const result = { ...data };
+  for (const [key, hydrate] of Object.entries(hydrators)) {
+    if (result[key] != null) result[key] = hydrate(result[key]);
+  }
+  return result;
+}
+`;
+
+/**
+ * Generate the declarations of the hydrate runtime: the DateFactory type, the registry of hydrated
+ * resource types and Hydrated<T>, which looks up a resource's hydrated type by the name it is branded with.
+ */
+export function generateHydrateTypeScript(resources: PackageModule[]): string {
+  const imports = resources.map((m) => `import type { ${m.name} } from './${m.path}.js';`);
+  const registry = resources.map((m) => `  ${m.name}: ${m.name}.Hydrated<D>;`);
+
+  const lines = [
+    ...imports,
+    ...(imports.length > 0 ? [''] : []),
+    '/** Brands each resource type with its name, so Hydrated<T> can find its hydrated type. */',
+    'export declare const resourceType: unique symbol;',
+    '',
+    '/** Creates the hydrated value of a serialized date, e.g. (value) => dayjs(value). */',
+    'export type DateFactory<D = Date> = (value: string) => D;',
+    '',
+    '/** Hydrated type of each resource, with dates created by a DateFactory<D>. */',
+    'export interface HydratedResources<D = Date> {',
+    ...registry,
+    '}',
+    '',
+    '/** Hydrated type of a resource, an array of resources or a nullable resource, e.g. Hydrated<UserResource>. */',
+    'export type Hydrated<T, D = Date> = T extends readonly (infer U)[]',
+    '  ? Hydrated<U, D>[]',
+    '  : T extends { readonly [resourceType]?: infer N extends keyof HydratedResources<D> }',
+    '    ? HydratedResources<D>[N]',
+    '    : T;',
+    '',
+    'export declare const createDate: DateFactory<Date>;',
+    '',
+    'export declare function hydrateFields<T, D = Date>(',
+    '  data: T,',
+    '  hydrators: Record<string, (value: unknown) => unknown>',
+    '): Hydrated<T, D>;',
+  ];
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Get the package resource a field holds: UserResource, UserResource[] or a nullable one, else null.
+ */
+function getNestedResource(type: string, resources: Record<string, string>): string | null {
+  const members = type.split(' | ').filter((member) => member !== 'null');
+  const name = members.length === 1 ? members[0].replace(/\[\]$/, '') : null;
+  return name && name in resources ? name : null;
+}
+
+/**
+ * Create the hydrated type of a field: date strings become D and nested resources their hydrated type.
+ */
+function createHydratedFieldType(info: ResourceFieldInfo, hydration: ResourceHydration): ts.TypeNode {
+  const type = info.type || 'any';
+  const nested = getNestedResource(type, hydration.resources);
+  if (!info.date && !nested) return parseTypeString(type);
+
+  const members = type.split(' | ').map((member) => {
+    if (info.date && member === 'string') {
+      return ts.factory.createTypeReferenceNode('D');
+    }
+    if (nested && member.replace(/\[\]$/, '') === nested) {
+      const hydrated = ts.factory.createIndexedAccessTypeNode(
+        ts.factory.createTypeReferenceNode('HydratedResources', [ts.factory.createTypeReferenceNode('D')]),
+        ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(nested))
+      );
+      return member.endsWith('[]') ? ts.factory.createArrayTypeNode(hydrated) : hydrated;
+    }
+    return parseTypeString(member);
+  });
+  return members.length === 1 ? members[0] : ts.factory.createUnionTypeNode(members);
+}
+
+/**
+ * Create the hydrate function declarations of a resource, for a single resource and an array of them.
+ */
+function createHydrateDeclarations(className: string): ts.FunctionDeclaration[] {
+  const date = ts.factory.createTypeReferenceNode('D');
+  const hydrated = ts.factory.createTypeReferenceNode(`${className}.Hydrated`, [date]);
+  const self = ts.factory.createTypeReferenceNode(className);
+
+  return [
+    [self, hydrated],
+    [ts.factory.createArrayTypeNode(self), ts.factory.createArrayTypeNode(hydrated)],
+  ].map(([data, returnType]) =>
+    ts.factory.createFunctionDeclaration(
+      [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword), ts.factory.createModifier(ts.SyntaxKind.DeclareKeyword)],
+      undefined,
+      `hydrate${className}`,
+      [
+        ts.factory.createTypeParameterDeclaration(
+          undefined,
+          'D',
+          undefined,
+          ts.factory.createTypeReferenceNode('Date')
+        ),
+      ],
+      [
+        ts.factory.createParameterDeclaration(undefined, undefined, 'data', undefined, data),
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          'toDate',
+          ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+          ts.factory.createTypeReferenceNode('DateFactory', [date])
+        ),
+      ],
+      returnType,
+      undefined
+    )
+  );
+}
+
+/**
+ * Generate the runtime of a resource's hydrate function, which converts its date fields with the date factory
+ * and hydrates nested resources recursively. Collections without their own toArray hydrate the collected resources.
+ */
+export function generateResourceHydrateRuntime(
+  className: string,
+  fields: Record<string, ResourceFieldInfo>,
+  hydration: ResourceHydration,
+  collects?: string | null
+): string {
+  const data = ts.factory.createIdentifier('data');
+  const toDate = ts.factory.createIdentifier('toDate');
+
+  const importedResources = new Set<string>();
+  const hydrateResource = (resource: string, value: ts.Expression) => {
+    if (resource !== className) importedResources.add(resource);
+    return ts.factory.createCallExpression(ts.factory.createIdentifier(`hydrate${resource}`), undefined, [
+      value,
+      toDate,
+    ]);
+  };
+
+  const runtimeImports = ['createDate'];
+  let body: ts.Expression;
+  if (collects && collects in hydration.resources && Object.keys(fields).length === 0) {
+    body = hydrateResource(collects, data);
+  } else {
+    runtimeImports.push('hydrateFields');
+    const value = ts.factory.createIdentifier('value');
+    const hydrators = Object.entries(fields).flatMap(([key, info]) => {
+      const nested = getNestedResource(info.type || 'any', hydration.resources);
+      if (info.date) {
+        return [ts.factory.createPropertyAssignment(createPropertyName(key), toDate)];
+      }
+      if (nested) {
+        const hydrator = ts.factory.createArrowFunction(
+          undefined,
+          undefined,
+          [ts.factory.createParameterDeclaration(undefined, undefined, value)],
+          undefined,
+          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+          hydrateResource(nested, value)
+        );
+        return [ts.factory.createPropertyAssignment(createPropertyName(key), hydrator)];
+      }
+      return [];
+    });
+    body = ts.factory.createCallExpression(ts.factory.createIdentifier('hydrateFields'), undefined, [
+      data,
+      ts.factory.createObjectLiteralExpression(hydrators, true),
+    ]);
+  }
+
+  const nodes: ts.Node[] = [
+    createImport(runtimeImports, hydration.runtime),
+    ...[...importedResources]
+      .sort()
+      .map((resource) => createImport([`hydrate${resource}`], hydration.resources[resource])),
+  ];
+  nodes.push(
+    ts.factory.createFunctionDeclaration(
+      [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+      undefined,
+      `hydrate${className}`,
+      undefined,
+      [
+        ts.factory.createParameterDeclaration(undefined, undefined, data),
+        ts.factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          toDate,
+          undefined,
+          undefined,
+          ts.factory.createIdentifier('createDate')
+        ),
+      ],
+      undefined,
+      ts.factory.createBlock([ts.factory.createReturnStatement(body)], true)
+    )
+  );
+
+  return nodes.map(printNode).join('\n') + '\n';
+}
+
+/**
+ * Create an object type from envelope members, intersecting the types of keys Laravel merges recursively.
+ */
+function createEnvelopeLiteral(members: EnvelopeMember[]): ts.TypeLiteralNode {
+  const merged = new Map<string, EnvelopeMember>();
+  for (const member of members) {
+    const existing = merged.get(member.name);
+    merged.set(
+      member.name,
+      existing ? { ...existing, type: ts.factory.createIntersectionTypeNode([existing.type, member.type]) } : member
+    );
+  }
+  return createTypeLiteral([...merged.values()]);
+}
+
+/**
+ * Create the type of a response the way Laravel's ResourceResponse wraps it: under the wrapper key unless
+ * the data already has that key, or under `data` when wrapping is disabled but top-level keys are added.
+ */
+function createResponseType(
+  data: ts.TypeNode,
+  dataKeys: string[],
+  wrap: string | null,
+  members: EnvelopeMember[]
+): ts.TypeNode {
+  const key = wrap ?? (members.length > 0 ? 'data' : null);
+  if (key && !(wrap && dataKeys.includes(wrap))) {
+    return createEnvelopeLiteral([{ name: key, type: data }, ...members]);
+  }
+  return members.length > 0 ? ts.factory.createIntersectionTypeNode([data, createEnvelopeLiteral(members)]) : data;
+}
+
+/**
+ * Create a resource's response types: Response and Collection for resources,
+ * Response and Paginated for ResourceCollection classes.
+ */
+function createEnvelopeTypes(className: string, dataKeys: string[], envelope: ResourceEnvelope): ts.Statement[] {
+  const self = ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(className), undefined);
+  const withMembers = Object.entries(envelope.with).map(([name, info]) => ({
+    name,
+    type: parseTypeString(info.type || 'any'),
+    optional: info.optional,
+  }));
+
+  const statements = [createTypeAlias('Response', createResponseType(self, dataKeys, envelope.wrap, withMembers))];
+
+  if (envelope.collects === undefined) {
+    // Anonymous collections (UserResource::collection()) don't use the resource's $wrap or with()
+    const collection = createResponseType(ts.factory.createArrayTypeNode(self), [], envelope.defaultWrap, []);
+    statements.push(createTypeAlias('Collection', collection));
+  } else {
+    // Paginated responses are always wrapped, since they add links and meta
+    const paginationType = (name: string) =>
+      ts.factory.createImportTypeNode(
+        ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(envelope.pagination)),
+        undefined,
+        ts.factory.createIdentifier(name)
+      );
+    const pagination = [
+      { name: 'links', type: paginationType('PaginationLinks') },
+      { name: 'meta', type: paginationType('PaginationMeta') },
+    ];
+    statements.push(
+      createTypeAlias('Paginated', createResponseType(self, dataKeys, envelope.wrap, [...pagination, ...withMembers]))
+    );
+  }
+
+  return statements;
+}
+
+/**
+ * Create a resource's Hydrated<D> type: its fields with dates created by a DateFactory<D> and nested resources hydrated.
+ * Collections without their own toArray hold hydrated collected resources, other untyped resources stay as they are.
+ */
+function createHydratedType(
+  className: string,
+  fields: Record<string, ResourceFieldInfo>,
+  isFallback: boolean,
+  hydration: ResourceHydration,
+  collects?: string | null
+): ts.TypeAliasDeclaration {
+  let type: ts.TypeNode;
+  if (isFallback && collects && collects in hydration.resources) {
+    type = createHydratedFieldType({ type: `${collects}[]`, optional: false }, hydration);
+  } else if (isFallback) {
+    type = ts.factory.createTypeReferenceNode(className);
+  } else {
+    type = createTypeLiteral(
+      Object.entries(fields).map(([name, info]) => ({
+        name,
+        type: createHydratedFieldType(info, hydration),
+        optional: info.optional,
+      }))
+    );
+  }
+
+  return ts.factory.createTypeAliasDeclaration(
+    [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+    'Hydrated',
+    [ts.factory.createTypeParameterDeclaration(undefined, 'D', undefined, ts.factory.createTypeReferenceNode('Date'))],
+    type
+  );
+}
+
+/**
+ * Generate TypeScript type declaration for a single resource, importing the enums and the other resources
+ * (by module specifier, keyed by type name) its types reference.
  */
 export function generateSingleResourceTypeScript(
   className: string,
   fields: Record<string, ResourceFieldInfo>,
   isFallback: boolean,
   referencedEnums: Set<string>,
-  phpFile?: string
+  phpFile?: string,
+  enumsPackageName = '@ferry/enums',
+  envelope?: ResourceEnvelope,
+  hydration?: ResourceHydration,
+  resourceImports: Record<string, string> = {}
 ): string {
   const nodes: ts.Node[] = [];
 
   // Find which enums this resource actually uses
-  const usedEnums = new Set<string>();
-  for (const info of Object.values(fields)) {
-    const type = info.type || '';
-    for (const enumName of referencedEnums) {
-      if (type.includes(enumName)) {
-        usedEnums.add(enumName);
-      }
-    }
-  }
+  const usedEnums = findUsedEnums([fields, envelope?.with ?? {}], referencedEnums);
 
-  // Import referenced enums from @app/enums
+  // Import referenced enums from the enums package
   if (usedEnums.size > 0) {
-    const enumImports = Array.from(usedEnums).sort();
-    nodes.push(createImportType(enumImports, '@app/enums'));
+    const enumImports = Array.from(usedEnums).sort().map(getEnumValueType);
+    nodes.push(createImportType(enumImports, enumsPackageName));
   }
 
-  if (isFallback) {
+  if (isFallback && envelope?.collects !== undefined) {
+    // ResourceCollection without its own toArray: an array of the collected resources
+    const collected = envelope.collects
+      ? ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(envelope.collects), undefined)
+      : ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword);
+    nodes.push(createTypeAlias(className, ts.factory.createArrayTypeNode(collected)));
+  } else if (isFallback) {
     // Fallback type: Record<string, any>
     const recordType = ts.factory.createTypeReferenceNode(ts.factory.createIdentifier('Record'), [
       ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
@@ -81,7 +555,42 @@ export function generateSingleResourceTypeScript(
         optional: info.optional,
       };
     });
-    nodes.push(createTypeAlias(className, createTypeLiteral(properties)));
+    const literal = createTypeLiteral(properties);
+    // Brand the type with its name, which Hydrated<T> looks its hydrated type up by
+    const brand = ts.factory.createPropertySignature(
+      [ts.factory.createModifier(ts.SyntaxKind.ReadonlyKeyword)],
+      ts.factory.createComputedPropertyName(ts.factory.createIdentifier('resourceType')),
+      ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+      ts.factory.createLiteralTypeNode(ts.factory.createStringLiteral(className))
+    );
+    nodes.push(
+      createTypeAlias(
+        className,
+        hydration
+          ? ts.factory.updateTypeLiteralNode(literal, ts.factory.createNodeArray([...literal.members, brand]))
+          : literal
+      )
+    );
+  }
+
+  // Response envelope and hydrate types go after the resource type so its source map lines don't move
+  const namespaceStatements = envelope
+    ? createEnvelopeTypes(className, isFallback ? [] : Object.keys(fields), envelope)
+    : [];
+  if (hydration) {
+    namespaceStatements.push(createHydratedType(className, fields, isFallback, hydration, envelope?.collects));
+  }
+  if (namespaceStatements.length > 0) {
+    nodes.push(createNamespace(className, namespaceStatements));
+  }
+  if (hydration) {
+    nodes.push(...createHydrateDeclarations(className));
+    // Imports are hoisted, so they can follow the resource type without moving its lines
+    nodes.push(createImport(['resourceType'], hydration.runtime));
+    nodes.push(createImportType(['DateFactory', 'HydratedResources'], hydration.runtime));
+  }
+  for (const [resource, specifier] of Object.entries(resourceImports).sort(([a], [b]) => a.localeCompare(b))) {
+    nodes.push(createImportType([resource], specifier));
   }
 
   const lines: string[] = [];
@@ -120,6 +629,9 @@ export function generateResourceSourceMap(
     currentLine += 2; // Import statement + blank line
   }
 
+  // Inherited fields map to their parent resource's file
+  const sources = [phpFile];
+
   // Map each field to its source location
   const fieldKeys = Object.keys(fields);
   for (let i = 0; i < fieldKeys.length; i++) {
@@ -127,21 +639,24 @@ export function generateResourceSourceMap(
     const info = fields[key];
 
     if (info.loc) {
+      if (!sources.includes(info.loc.file)) sources.push(info.loc.file);
+
       mappings.push({
         generatedLine: currentLine + 1 + i, // +1 for the "export type X = {" line
         generatedColumn: 4, // Indented
         sourceLine: info.loc.line,
         sourceColumn: info.loc.column || 0,
+        sourceIndex: sources.indexOf(info.loc.file),
       });
     }
   }
 
-  // Calculate relative path from output dir to PHP file
-  const relativeSource = relative(outputDir, join(process.cwd(), phpFile)).replace(/\\/g, '/');
+  // Calculate relative paths from output dir to PHP files
+  const relativeSources = sources.map((file) => relative(outputDir, join(process.cwd(), file)).replace(/\\/g, '/'));
 
   return generateSourceMap({
     file: generatedFile,
-    sources: [relativeSource],
+    sources: relativeSources,
     mappings,
   });
 }
@@ -155,31 +670,48 @@ export function generateResourceRuntime(): string {
 }
 
 /**
- * Generate resource type files (TypeScript declarations and runtime JavaScript).
+ * Build resource type files (TypeScript declarations and runtime JavaScript) in memory.
  */
-export function generateResources(options: ResourceGeneratorOptions): void {
-  const { resourcesDir, enumsDir, modelsDir, outputDir, packageName, cwd } = options;
-
-  // Clean existing generated files
-  cleanOutputDir(outputDir);
+export function buildResourceFiles(options: ResourceGeneratorOptions): GeneratedFiles {
+  const { resourcesDirs, enumsDirs, modelsDirs, outputDir, packageName, enumsPackageName, cwd, onError } = options;
 
+  const files: GeneratedFiles = {};
   const collectedEnums: Record<string, EnumDefinition> = {};
   const resources: Record<string, Record<string, ResourceFieldInfo>> = {};
+  const envelopes: Record<string, ResourceEnvelope> = {};
   const resourcePhpFiles: Record<string, string> = {};
+  const resourceModules: Record<string, PackageModule> = {};
+  const referencedResources: Record<string, Record<string, string>> = {};
+  const modulesByFile: Record<string, string> = {};
   const fallbacks: string[] = [];
 
-  if (!existsSync(resourcesDir)) {
-    console.warn(`Resources directory not found: ${resourcesDir}`);
-    return;
+  const existingResourcesDirs = resourcesDirs.filter((dir) => existsSync(dir));
+  if (existingResourcesDirs.length === 0) {
+    console.warn(`Resources directory not found: ${resourcesDirs.join(', ')}`);
+    return files;
   }
 
-  const files = getPhpFiles(resourcesDir);
+  // Resolve class references through namespaces and imports rather than file names
+  const symbols = createSymbolIndex(cwd, {
+    enums: enumsDirs,
+    resources: resourcesDirs,
+    models: modelsDirs,
+  });
+
+  const phpFiles = existingResourcesDirs.flatMap((dir) => getPhpFiles(dir).map((file) => ({ dir, file })));
+
+  // JsonResource::withoutWrapping() in a service provider disables the `data` wrapper of every resource
+  const defaultWrap = isWrappingDisabled(options.providersDirs ?? []) ? null : 'data';
+
+  // Column types of every table, after applying all migrations
+  const schema = readDatabaseSchema(options.migrationsDirs ?? [], cwd, onError);
 
-  for (const file of files) {
+  for (const { dir: resourcesDir, file } of phpFiles) {
     try {
       const filePath = join(resourcesDir, file);
       const content = readFileSafe(filePath) || '';
-      const className = parse(file).name;
+      const fqcn = getDeclaredClassName(content);
+      const className = (fqcn && symbols.get(fqcn)?.typeName) || parse(file).name;
 
       // Calculate relative path from project root for source mapping
       const relativePhpPath = relative(cwd, filePath);
@@ -187,24 +719,63 @@ export function generateResources(options: ResourceGeneratorOptions): void {
       const docShape = extractDocblockArrayShape(content);
       const mappedDocShape = docShape ? mapDocTypeToTsForShape(docShape) : null;
 
+      // Files of the resources this one's types reference, which its declaration imports
+      referencedResources[className] = {};
+
+      const response = parseResourceResponse(content, {
+        collectedEnums,
+        filePath: relativePhpPath,
+        symbols,
+        cwd,
+        schema,
+        referencedResources: referencedResources[className],
+      });
+      const collects = response?.collection ? response.collects : undefined;
+
       const fields = parseResourceFieldsAst(content, {
-        resourcesDir,
-        modelsDir,
-        enumsDir,
         docShape: mappedDocShape,
         collectedEnums,
         filePath: relativePhpPath,
+        symbols,
+        cwd,
+        collects,
+        schema,
+        modelResources: options.modelResources,
+        referencedResources: referencedResources[className],
       });
 
-      if (!fields) {
+      if (!fields && collects !== undefined) {
+        // Collections without their own toArray are an array of the collected resources
+        fallbacks.push(className);
+        resources[className] = {};
+      } else if (!fields) {
+        // Unparseable resources still get a fallback type, but are reported
+        const syntaxError = getPhpSyntaxError(content);
+        if (syntaxError) reportParseError(onError, 'resource', relativePhpPath, syntaxError);
+
         fallbacks.push(className);
         resources[className] = {};
       } else {
         resources[className] = fields;
       }
+      const modulePath = getModulePath(file, className);
+      modulesByFile[filePath] = modulePath;
       resourcePhpFiles[className] = relativePhpPath;
+      resourceModules[className] = {
+        name: className,
+        shortName: parse(file).name,
+        path: modulePath,
+      };
+
+      envelopes[className] = {
+        wrap: response?.wrap !== undefined ? response.wrap : defaultWrap,
+        defaultWrap,
+        with: response?.with ?? {},
+        collects,
+        pagination: getModuleSpecifier(modulePath, PAGINATION_MODULE),
+      };
     } catch (e) {
-      console.warn(`Failed to parse resource file: ${file}`, e);
+      reportParseError(onError, 'resource', relative(cwd, join(resourcesDir, file)), e);
     }
   }
 
@@ -217,22 +788,39 @@ export function generateResources(options: ResourceGeneratorOptions): void {
     const fields = resources[className];
     const isFallback = fallbacks.includes(className);
     const phpFile = resourcePhpFiles[className];
+    const modulePath = resourceModules[className].path;
+    const hydration: ResourceHydration | undefined = options.hydrate
+      ? {
+          runtime: getModuleSpecifier(modulePath, HYDRATE_MODULE),
+          resources: Object.fromEntries(
+            resourceNames.map((name) => [name, getModuleSpecifier(modulePath, resourceModules[name].path)])
+          ),
+        }
+      : undefined;
+
+    // Import referenced resources from the exact module they were resolved to
+    const resourceImports = Object.fromEntries(
+      Object.entries(referencedResources[className])
+        .filter(([name, file]) => name !== className && modulesByFile[file])
+        .map(([name, file]) => [name, getModuleSpecifier(modulePath, modulesByFile[file])])
+    );
 
     // Check if this resource has enum imports
-    const usedEnums = new Set<string>();
-    for (const info of Object.values(fields)) {
-      const type = info.type || '';
-      for (const enumName of referencedEnums) {
-        if (type.includes(enumName)) {
-          usedEnums.add(enumName);
-        }
-      }
-    }
-    const hasEnumImports = usedEnums.size > 0;
+    const hasEnumImports = findUsedEnums([fields, envelopes[className].with], referencedEnums).size > 0;
 
     // Generate {ResourceName}.d.ts with JSDoc and source map comment
-    const dtsContent = generateSingleResourceTypeScript(className, fields, isFallback, referencedEnums, phpFile);
-    writeFileEnsureDir(join(outputDir, `${className}.d.ts`), dtsContent);
+    const dtsContent = generateSingleResourceTypeScript(
+      className,
+      fields,
+      isFallback,
+      referencedEnums,
+      phpFile,
+      enumsPackageName,
+      envelopes[className],
+      hydration,
+      resourceImports
+    );
+    files[`${modulePath}.d.ts`] = dtsContent;
 
     // Generate {ResourceName}.d.ts.map
     if (phpFile && !isFallback) {
@@ -241,37 +829,88 @@ export function generateResources(options: ResourceGeneratorOptions): void {
         fields,
         `${className}.d.ts`,
         phpFile,
-        outputDir,
+        join(outputDir, dirname(modulePath)),
         hasEnumImports
       );
-      writeFileEnsureDir(join(outputDir, `${className}.d.ts.map`), sourceMap);
+      files[`${modulePath}.d.ts.map`] = sourceMap;
     }
 
-    // Generate {ResourceName}.js (empty export for type-only)
-    writeFileEnsureDir(join(outputDir, `${className}.js`), 'export {};\n');
+    // Generate {ResourceName}.js (its hydrate function, or an empty export for type-only)
+    files[`${modulePath}.js`] = hydration
+      ? generateResourceHydrateRuntime(className, fields, hydration, envelopes[className].collects)
+      : 'export {};\n';
   }
 
-  // Generate barrel index.d.ts
-  const indexDts = resourceNames.map((n) => `export type { ${n} } from './${n}.js';`).join('\n') + '\n';
-  writeFileEnsureDir(join(outputDir, 'index.d.ts'), indexDts);
+  // Generate barrel index.d.ts and index.js (root and per subdirectory)
+  const subpaths = addBarrels(
+    files,
+    resourceNames.map((n) => resourceModules[n]),
+    (local, exported, specifier) => {
+      const line = `export type { ${formatExportSpecifier(local, exported)} } from '${specifier}';`;
+      if (!options.hydrate) return line;
+      return `${line}\nexport { ${formatExportSpecifier(`hydrate${local}`, `hydrate${exported}`)} } from '${specifier}';`;
+    },
+    (_local, _exported, specifier) => `export * from '${specifier}';`
+  );
 
-  // Generate barrel index.js
-  const indexJs = resourceNames.map((n) => `export * from './${n}.js';`).join('\n') + '\n';
-  writeFileEnsureDir(join(outputDir, 'index.js'), indexJs);
+  // Generate hydrate.d.ts and hydrate.js, the runtime shared by the hydrate functions
+  if (options.hydrate) {
+    files[`${HYDRATE_MODULE}.d.ts`] = generateHydrateTypeScript(resourceNames.map((n) => resourceModules[n]));
+    files[`${HYDRATE_MODULE}.js`] = HYDRATE_RUNTIME;
+    files['index.d.ts'] += `export type { DateFactory, Hydrated, HydratedResources } from './${HYDRATE_MODULE}.js';\n`;
+  }
+
+  // Generate pagination.d.ts, exported from the root barrel for Paginated<UserResource>
+  const paginationNames = PAGINATION_TYPES.map((t) => t.name).sort();
+  files[`${PAGINATION_MODULE}.d.ts`] = generatePaginationTypeScript();
+  files[`${PAGINATION_MODULE}.js`] = 'export {};\n';
+  files['index.d.ts'] += `export type { ${paginationNames.join(', ')} } from './${PAGINATION_MODULE}.js';\n`;
+
+  // Generate manifest.json, the snapshot breaking changes are detected against
+  const manifestResources = resourceNames.map((n) => [
+    n,
+    fallbacks.includes(n) ? null : toManifestFields(resources[n]),
+  ]);
+  files[MANIFEST_FILE] = formatManifest({ resources: Object.fromEntries(manifestResources) });
 
   // Generate package.json
-  const pkgJson = JSON.stringify(
-    {
-      name: packageName,
-      version: '0.0.0',
-      main: 'index.js',
-      types: 'index.d.ts',
-    },
-    null,
-    2
-  );
-  const pkgPath = join(outputDir, 'package.json');
-  writeFileEnsureDir(pkgPath, pkgJson);
+  addPackageJson(files, packageName, subpaths);
+
+  return files;
+}
+
+/**
+ * Generate resource type files (TypeScript declarations and runtime JavaScript).
+ */
+export function generateResources(options: ResourceGeneratorOptions): void {
+  writeGeneratedFiles(options.outputDir, buildResourceFiles(options));
+}
+
+/**
+ * Check if a service provider disables resource wrapping with JsonResource::withoutWrapping().
+ * This is a plugin-level function that handles file I/O.
+ */
+function isWrappingDisabled(providersDirs: string[]): boolean {
+  return providersDirs
+    .filter((dir) => existsSync(dir))
+    .some((dir) => getPhpFiles(dir).some((file) => callsWithoutWrapping(readFileSafe(join(dir, file)) || '')));
+}
+
+/**
+ * Find the enums whose value unions are referenced by the field types of a resource and its response envelope.
+ */
+function findUsedEnums(fieldSets: Record<string, ResourceFieldInfo>[], referencedEnums: Set<string>): Set<string> {
+  const usedEnums = new Set<string>();
+  for (const info of fieldSets.flatMap((fields) => Object.values(fields))) {
+    const type = info.type || '';
+    for (const enumName of referencedEnums) {
+      // Match whole identifiers so StatusValue doesn't match BillingStatusValue
+      if (new RegExp(`\\b${getEnumValueType(enumName)}\\b`).test(type)) {
+        usedEnums.add(enumName);
+      }
+    }
+  }
+  return usedEnums;
 }
 
 /**
@@ -0,0 +1,207 @@
+import ts from 'typescript';
+import { existsSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { readFileSafe } from '../utils/file.js';
+import { addPackageJson, writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+import { getPhpSyntaxError, reportParseError, type ParseErrorHandler } from '../utils/php-parser.js';
+import { parseRouteFile, type ParseRoutesOptions, type RouteDefinition } from '../utils/route-parser.js';
+import {
+  createConstObject,
+  createObjectLiteral,
+  createStringLiteral,
+  createTypeAlias,
+  createTypeLiteral,
+  printNode,
+} from '../utils/ts-generator.js';
+
+export type RouteGeneratorOptions = {
+  routesDirs: string[];
+  outputDir: string;
+  packageName: string;
+  prettyPrint?: boolean;
+  cwd: string;
+  /** Called for each PHP file that can't be parsed (default: warn on the console). */
+  onError?: ParseErrorHandler;
+};
+
+/**
+ * Route files Laravel registers by default, with the prefix applied to each.
+ */
+const ROUTE_FILES: Array<{ file: string } & Omit<ParseRoutesOptions, 'filePath'>> = [
+  { file: 'web.php' },
+  { file: 'api.php', prefix: 'api' },
+];
+
+/**
+ * Runtime implementation of route(), shared by every generated package.
+ */
+const ROUTE_FUNCTION = `export function route(name, params = {}) {
+    const definition = routes[name];
+    if (!definition) {
+        throw new Error(\`Route [\${name}] not defined.\`);
+    }
+    const query = { ...params };
+    const uri = definition.uri.replace(/\\{([A-Za-z0-9_]+)(?::[A-Za-z0-9_]+)?(\\?)?\\}/g, (_, key, optional) => {
+        const value = query[key];
+        delete query[key];
+        if (value === undefined || value === null) {
+            if (optional) return '';
+            throw new Error(\`Missing required parameter [\${key}] for route [\${name}].\`);
+        }
+        return encodeURIComponent(String(value));
+    });
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null) search.append(key, String(value));
+    }
+    const path = uri.replace(/\\/{2,}/g, '/').replace(/(.)\\/$/, '$1');
+    const queryString = search.toString();
+    return queryString ? \`\${path}?\${queryString}\` : path;
+}
+`;
+
+/**
+ * Type declarations for the runtime helpers.
+ */
+const ROUTE_DECLARATIONS = `export type RouteName = keyof RouteParameters;
+
+export type RouteParameter = string | number;
+
+export type RouteDefinition = {
+    uri: string;
+    methods: string[];
+};
+
+export declare const routes: Record<RouteName, RouteDefinition>;
+
+export declare function route<T extends RouteName>(
+    name: T,
+    ...params: {} extends RouteParameters[T]
+        ? [params?: RouteParameters[T] & Record<string, unknown>]
+        : [params: RouteParameters[T] & Record<string, unknown>]
+): string;
+`;
+
+/**
+ * Keep only named routes, letting later definitions win like Laravel does.
+ */
+function getNamedRoutes(routes: RouteDefinition[]): Record<string, RouteDefinition> {
+  const named: Record<string, RouteDefinition> = {};
+  for (const route of routes) {
+    if (route.name) {
+      named[route.name] = route;
+    }
+  }
+  return named;
+}
+
+/**
+ * Generate TypeScript type declarations for the named routes.
+ */
+export function generateRoutesTypeScript(routes: RouteDefinition[]): string {
+  const named = getNamedRoutes(routes);
+
+  const properties = Object.entries(named).map(([name, route]) => ({
+    name,
+    type: createTypeLiteral(
+      route.parameters.map((p) => ({
+        name: p.name,
+        type: ts.factory.createTypeReferenceNode('RouteParameter'),
+        optional: p.optional,
+      }))
+    ),
+  }));
+
+  const paramsType = printNode(createTypeAlias('RouteParameters', createTypeLiteral(properties)));
+  return `${paramsType}\n\n${ROUTE_DECLARATIONS}`;
+}
+
+/**
+ * Generate runtime JavaScript for the named routes.
+ */
+export function generateRoutesRuntime(routes: RouteDefinition[], prettyPrint = true): string {
+  const named = getNamedRoutes(routes);
+
+  const properties = Object.entries(named).map(([name, route]) => ({
+    key: name,
+    value: createObjectLiteral(
+      [
+        { key: 'uri', value: createStringLiteral(route.uri) },
+        {
+          key: 'methods',
+          value: ts.factory.createArrayLiteralExpression(route.methods.map((m) => createStringLiteral(m))),
+        },
+      ],
+      false
+    ),
+  }));
+
+  return `${printNode(createConstObject('routes', properties, prettyPrint))}\n\n${ROUTE_FUNCTION}`;
+}
+
+/**
+ * Collect all route definitions from the routes directories.
+ * This is a plugin-level function that handles file I/O.
+ */
+export function collectRoutes(
+  routesDirs: string | string[],
+  cwd: string,
+  onError?: ParseErrorHandler
+): RouteDefinition[] {
+  const routes: RouteDefinition[] = [];
+
+  for (const routesDir of [routesDirs].flat()) {
+    if (!existsSync(routesDir)) continue;
+
+    for (const { file, ...options } of ROUTE_FILES) {
+      const routePath = join(routesDir, file);
+      const relativePhpPath = relative(cwd, routePath);
+
+      try {
+        const content = readFileSafe(routePath);
+        if (!content) continue;
+
+        const syntaxError = getPhpSyntaxError(content);
+        if (syntaxError) {
+          reportParseError(onError, 'route', relativePhpPath, syntaxError);
+          continue;
+        }
+
+        routes.push(...parseRouteFile(content, { ...options, filePath: relativePhpPath }));
+      } catch (e) {
+        reportParseError(onError, 'route', relativePhpPath, e);
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Build route files (TypeScript declarations and runtime JavaScript) in memory.
+ */
+export function buildRouteFiles(options: RouteGeneratorOptions): GeneratedFiles {
+  const { routesDirs, packageName, prettyPrint = true, cwd, onError } = options;
+
+  const files: GeneratedFiles = {};
+
+  const routes = collectRoutes(routesDirs, cwd, onError);
+
+  // Generate index.d.ts
+  files['index.d.ts'] = generateRoutesTypeScript(routes);
+
+  // Generate index.js
+  files['index.js'] = generateRoutesRuntime(routes, prettyPrint);
+
+  // Generate package.json
+  addPackageJson(files, packageName);
+
+  return files;
+}
+
+/**
+ * Generate route files (TypeScript declarations and runtime JavaScript).
+ */
+export function generateRoutes(options: RouteGeneratorOptions): void {
+  writeGeneratedFiles(options.outputDir, buildRouteFiles(options));
+}
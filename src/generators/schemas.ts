@@ -0,0 +1,597 @@
+import ts from 'typescript';
+import { existsSync } from 'node:fs';
+import { join, parse, relative } from 'node:path';
+import { getPhpFiles, getSourceRelativePath, readFileSafe } from '../utils/file.js';
+import {
+  formatExportSpecifier,
+  getModulePath,
+  addBarrels,
+  addPackageJson,
+  writeGeneratedFiles,
+  type GeneratedFiles,
+  type PackageModule,
+} from '../utils/package.js';
+import {
+  getDeclaredClassName,
+  getPhpSyntaxError,
+  reportParseError,
+  type EnumDefinition,
+  type ParseErrorHandler,
+} from '../utils/php-parser.js';
+import { formatManifest, MANIFEST_FILE, type ManifestField } from '../utils/manifest.js';
+import { createSymbolIndex } from '../utils/symbol-index.js';
+import {
+  parseFormRequestRules,
+  type FormRequestDefinition,
+  type ValidationRule,
+} from '../utils/form-request-parser.js';
+import {
+  createDeclareConstWithType,
+  createImport,
+  createImportType,
+  createMethodCall,
+  createNumericLiteral,
+  createObjectLiteral,
+  createStringLiteral,
+  createTypeAlias,
+  createTypeLiteral,
+  printNode,
+} from '../utils/ts-generator.js';
+import { collectEnums } from './enums.js';
+
+export type SchemaGeneratorOptions = {
+  requestsDirs: string[];
+  enumsDirs: string[];
+  outputDir: string;
+  packageName: string;
+  prettyPrint?: boolean;
+  cwd: string;
+  /** Called for each PHP file that can't be parsed (default: warn on the console). */
+  onError?: ParseErrorHandler;
+};
+
+/**
+ * Zod versions the generated schemas work with.
+ */
+const ZOD_VERSION = '^3.0.0 || ^4.0.0';
+
+/**
+ * A node in the field tree built from dotted rule keys like "items.*.name".
+ */
+type RuleNode = {
+  rules: ValidationRule[];
+  children: Record<string, RuleNode>;
+  wildcard?: RuleNode;
+};
+
+type SchemaParts = {
+  expression: ts.Expression;
+  type: ts.TypeNode;
+  optional: boolean;
+};
+
+const STRING_RULES = [
+  'string',
+  'email',
+  'url',
+  'active_url',
+  'uuid',
+  'ulid',
+  'ip',
+  'ipv4',
+  'ipv6',
+  'mac_address',
+  'alpha',
+  'alpha_dash',
+  'alpha_num',
+  'ascii',
+  'lowercase',
+  'uppercase',
+  'hex_color',
+  'json',
+  'timezone',
+  'date',
+  'date_format',
+  'before',
+  'before_or_equal',
+  'after',
+  'after_or_equal',
+  'starts_with',
+  'ends_with',
+  'regex',
+  'not_regex',
+  'current_password',
+];
+const INTEGER_RULES = ['integer', 'int', 'digits', 'digits_between'];
+const NUMBER_RULES = ['numeric', 'decimal', 'multiple_of'];
+const BOOLEAN_RULES = ['boolean', 'bool', 'accepted', 'declined'];
+const FILE_RULES = ['file', 'image', 'mimes', 'mimetypes', 'extensions', 'dimensions'];
+const ARRAY_RULES = ['array', 'list'];
+const OPTIONAL_RULES = [
+  'sometimes',
+  'required_if',
+  'required_unless',
+  'required_with',
+  'required_with_all',
+  'required_without',
+  'required_without_all',
+  'required_if_accepted',
+  'required_if_declined',
+];
+
+/**
+ * Build a tree of rule nodes from flat dotted rule keys.
+ */
+function buildRuleTree(def: FormRequestDefinition): RuleNode {
+  const root: RuleNode = { rules: [], children: {} };
+
+  for (const [key, field] of Object.entries(def.fields)) {
+    let node = root;
+    for (const segment of key.split('.')) {
+      if (segment === '*') {
+        node.wildcard ??= { rules: [], children: {} };
+        node = node.wildcard;
+      } else {
+        node.children[segment] ??= { rules: [], children: {} };
+        node = node.children[segment];
+      }
+    }
+    node.rules.push(...field.rules);
+  }
+
+  return root;
+}
+
+/**
+ * Check whether a PHP regex rule pattern (e.g. "/^[a-z]+$/i") is also a valid JavaScript regex literal.
+ * PCRE-only syntax like (?i), possessive quantifiers or \A would break the generated module when it loads.
+ */
+function isJavaScriptRegex(pattern: string): boolean {
+  const match = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+  if (!match) return false;
+
+  const [, body, flags] = match;
+
+  // PCRE anchors and escapes JavaScript reads as plain letters
+  if (/(?<!\\)(?:\\\\)*\\[AzZGKQEhHRX]/.test(body)) return false;
+
+  // An unescaped delimiter outside a character class would end the literal early
+  let inClass = false;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\') i++;
+    else if (char === '[') inClass = true;
+    else if (char === ']') inClass = false;
+    else if (char === '/' && !inClass) return false;
+  }
+
+  try {
+    new RegExp(body, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a z.<method>(...) call.
+ */
+function zod(method: string, args: ts.Expression[] = []): ts.CallExpression {
+  return createMethodCall(ts.factory.createIdentifier('z'), method, args);
+}
+
+/**
+ * Create a literal expression and type node for an enum or `in` value.
+ */
+function createLiteral(value: string | number): { expression: ts.Expression; type: ts.TypeNode } {
+  const expression = typeof value === 'number' ? createNumericLiteral(value) : createStringLiteral(value);
+  return { expression, type: ts.factory.createLiteralTypeNode(expression as ts.LiteralExpression) };
+}
+
+/**
+ * Create a schema over a fixed set of literal values.
+ */
+function createLiteralUnion(values: Array<string | number>): { expression: ts.Expression; type: ts.TypeNode } {
+  if (values.length === 0) {
+    return { expression: zod('never'), type: ts.factory.createKeywordTypeNode(ts.SyntaxKind.NeverKeyword) };
+  }
+
+  const literals = values.map(createLiteral);
+  const type = literals.length === 1 ? literals[0].type : ts.factory.createUnionTypeNode(literals.map((l) => l.type));
+
+  if (values.every((v) => typeof v === 'string')) {
+    const array = ts.factory.createArrayLiteralExpression(literals.map((l) => l.expression));
+    return { expression: zod('enum', [array]), type };
+  }
+
+  if (literals.length === 1) {
+    return { expression: zod('literal', [literals[0].expression]), type };
+  }
+
+  const members = literals.map((l) => zod('literal', [l.expression]));
+  return { expression: zod('union', [ts.factory.createArrayLiteralExpression(members)]), type };
+}
+
+/**
+ * Find the enum definition referenced by a Rule::enum() class name.
+ * Matches the fully-qualified name first, then falls back to the short name.
+ */
+function findEnum(className: string, enums: Record<string, EnumDefinition>): EnumDefinition | null {
+  const byFqcn = Object.values(enums).find((e) => e.fqcn === className);
+  if (byFqcn) return byFqcn;
+
+  const short = className.split('\\').pop()!;
+  return enums[short] ?? null;
+}
+
+/**
+ * Apply size and format refinements (min, max, email, ...) to a base schema.
+ */
+function applyRefinements(expression: ts.Expression, rules: ValidationRule[], kind: string): ts.Expression {
+  const numericArg = (rule: ValidationRule, index = 0) => {
+    const value = Number(rule.args[index]);
+    return Number.isFinite(value) ? createNumericLiteral(value) : null;
+  };
+
+  for (const rule of rules) {
+    if (kind === 'string') {
+      if (['email', 'url', 'uuid', 'ulid'].includes(rule.name)) {
+        expression = createMethodCall(expression, rule.name);
+        continue;
+      }
+      if (rule.name === 'regex') {
+        const pattern = rule.args[0] ?? '';
+        if (isJavaScriptRegex(pattern)) {
+          expression = createMethodCall(expression, 'regex', [ts.factory.createRegularExpressionLiteral(pattern)]);
+        }
+        continue;
+      }
+    }
+
+    if (!['string', 'number', 'array'].includes(kind)) continue;
+
+    if (rule.name === 'min' || rule.name === 'max') {
+      const arg = numericArg(rule);
+      if (arg) expression = createMethodCall(expression, rule.name, [arg]);
+    } else if (rule.name === 'between') {
+      const min = numericArg(rule, 0);
+      const max = numericArg(rule, 1);
+      if (min && max) {
+        expression = createMethodCall(createMethodCall(expression, 'min', [min]), 'max', [max]);
+      }
+    } else if (rule.name === 'size') {
+      const arg = numericArg(rule);
+      if (arg) {
+        expression =
+          kind === 'number'
+            ? createMethodCall(createMethodCall(expression, 'min', [arg]), 'max', [arg])
+            : createMethodCall(expression, 'length', [arg]);
+      }
+    }
+  }
+
+  return expression;
+}
+
+/**
+ * Map a rule node (and its children) to a Zod schema expression and input type.
+ * Array items (wildcard nodes) are never optional, only their parent array is.
+ */
+function mapRuleNode(
+  node: RuleNode,
+  enums: Record<string, EnumDefinition>,
+  prettyPrint: boolean,
+  isItem = false
+): SchemaParts {
+  const names = new Set(node.rules.map((r) => r.name));
+  const hasChildren = Object.keys(node.children).length > 0;
+
+  let expression: ts.Expression;
+  let type: ts.TypeNode;
+  let kind = 'any';
+
+  const enumRule = node.rules.find((r) => r.name === 'enum');
+  const inRule = node.rules.find((r) => r.name === 'in');
+
+  if (enumRule) {
+    const enumDef = findEnum(enumRule.args[0], enums);
+    if (enumDef) {
+      ({ expression, type } = createLiteralUnion(enumDef.cases.map((c) => c.value)));
+    } else {
+      expression = zod('string');
+      type = ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+    }
+  } else if (inRule) {
+    // in:1,2,3 on an integer or numeric field only accepts those numbers
+    const numeric =
+      node.rules.some((r) => INTEGER_RULES.includes(r.name) || NUMBER_RULES.includes(r.name)) &&
+      inRule.args.every((arg) => arg.trim() !== '' && !Number.isNaN(Number(arg)));
+    ({ expression, type } = createLiteralUnion(numeric ? inRule.args.map(Number) : inRule.args));
+  } else if (node.wildcard) {
+    const item = mapRuleNode(node.wildcard, enums, prettyPrint, true);
+    expression = zod('array', [item.expression]);
+    type = ts.factory.createArrayTypeNode(item.type);
+    kind = 'array';
+  } else if (hasChildren) {
+    ({ expression, type } = createObjectSchema(node, enums, prettyPrint));
+  } else if (node.rules.some((r) => ARRAY_RULES.includes(r.name))) {
+    expression = zod('array', [zod('any')]);
+    type = ts.factory.createArrayTypeNode(ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword));
+    kind = 'array';
+  } else if (node.rules.some((r) => INTEGER_RULES.includes(r.name))) {
+    expression = createMethodCall(zod('number'), 'int');
+    type = ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword);
+    kind = 'number';
+  } else if (node.rules.some((r) => NUMBER_RULES.includes(r.name))) {
+    expression = zod('number');
+    type = ts.factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword);
+    kind = 'number';
+  } else if (node.rules.some((r) => BOOLEAN_RULES.includes(r.name))) {
+    expression = zod('boolean');
+    type = ts.factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword);
+    kind = 'boolean';
+  } else if (node.rules.some((r) => FILE_RULES.includes(r.name))) {
+    expression = zod('instanceof', [ts.factory.createIdentifier('File')]);
+    type = ts.factory.createTypeReferenceNode('File');
+    kind = 'file';
+  } else if (node.rules.some((r) => STRING_RULES.includes(r.name))) {
+    expression = zod('string');
+    type = ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+    kind = 'string';
+  } else {
+    expression = zod('any');
+    type = ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword);
+  }
+
+  expression = applyRefinements(expression, node.rules, kind);
+
+  if (names.has('nullable')) {
+    expression = createMethodCall(expression, 'nullable');
+    type = ts.factory.createUnionTypeNode([type, ts.factory.createLiteralTypeNode(ts.factory.createNull())]);
+  }
+
+  const required = names.has('required') || names.has('present') || names.has('accepted');
+  const optional = !isItem && (!required || node.rules.some((r) => OPTIONAL_RULES.includes(r.name)));
+  if (optional) {
+    expression = createMethodCall(expression, 'optional');
+  }
+
+  return { expression, type, optional };
+}
+
+/**
+ * Create a z.object() schema and type literal for the children of a rule node.
+ */
+function createObjectSchema(
+  node: RuleNode,
+  enums: Record<string, EnumDefinition>,
+  prettyPrint: boolean
+): { expression: ts.Expression; type: ts.TypeNode } {
+  const entries = Object.entries(node.children).map(([key, child]) => ({
+    key,
+    ...mapRuleNode(child, enums, prettyPrint),
+  }));
+
+  const shape = createObjectLiteral(
+    entries.map((e) => ({ key: e.key, value: e.expression })),
+    prettyPrint
+  );
+  const type = createTypeLiteral(entries.map((e) => ({ name: e.key, type: e.type, optional: e.optional })));
+
+  return { expression: zod('object', [shape]), type };
+}
+
+/**
+ * Create the schema and input type of a whole form request: an object of its fields, or an array when
+ * the request body itself is a list validated with root-level "*" rules.
+ */
+function createRequestSchema(
+  def: FormRequestDefinition,
+  enums: Record<string, EnumDefinition>,
+  prettyPrint: boolean
+): { expression: ts.Expression; type: ts.TypeNode } {
+  const root = buildRuleTree(def);
+  if (!root.wildcard) return createObjectSchema(root, enums, prettyPrint);
+
+  const item = mapRuleNode(root.wildcard, enums, prettyPrint, true);
+  return { expression: zod('array', [item.expression]), type: ts.factory.createArrayTypeNode(item.type) };
+}
+
+/**
+ * Get the top-level input fields of a form request, for the package manifest.
+ */
+function getSchemaInputFields(
+  def: FormRequestDefinition,
+  enums: Record<string, EnumDefinition>
+): Record<string, ManifestField> {
+  const entries = Object.entries(buildRuleTree(def).children).map(([key, node]) => {
+    const { type, optional } = mapRuleNode(node, enums, false);
+    return [key, { type: printNode(type), optional }];
+  });
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Get the name of the input type generated for a form request.
+ */
+export function getSchemaInputTypeName(requestName: string): string {
+  return `${requestName}Input`;
+}
+
+/**
+ * Generate TypeScript type declaration for a single form request schema.
+ */
+export function generateSingleSchemaTypeScript(
+  def: FormRequestDefinition,
+  enums: Record<string, EnumDefinition>,
+  phpFile?: string
+): string {
+  const { type } = createRequestSchema(def, enums, true);
+  const inputName = getSchemaInputTypeName(def.name);
+
+  const schemaType = ts.factory.createTypeReferenceNode(
+    ts.factory.createQualifiedName(ts.factory.createIdentifier('z'), 'ZodType'),
+    [ts.factory.createTypeReferenceNode(inputName)]
+  );
+
+  const nodes: ts.Node[] = [
+    createImportType(['z'], 'zod'),
+    createTypeAlias(inputName, type),
+    createDeclareConstWithType(def.name, schemaType),
+  ];
+
+  const lines: string[] = [];
+
+  // Add JSDoc with source reference
+  if (phpFile) {
+    lines.push(`/** @see ${phpFile} */`);
+  }
+
+  lines.push(nodes.map(printNode).join('\n\n'));
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Generate runtime JavaScript (a Zod schema) for a single form request.
+ */
+export function generateSingleSchemaRuntime(
+  def: FormRequestDefinition,
+  enums: Record<string, EnumDefinition>,
+  prettyPrint = true
+): string {
+  const { expression } = createRequestSchema(def, enums, prettyPrint);
+
+  const statement = ts.factory.createVariableStatement(
+    [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
+    ts.factory.createVariableDeclarationList(
+      [ts.factory.createVariableDeclaration(def.name, undefined, undefined, expression)],
+      ts.NodeFlags.Const
+    )
+  );
+
+  return [printNode(createImport(['z'], 'zod')), printNode(statement)].join('\n\n') + '\n';
+}
+
+/**
+ * Report regex rules whose pattern isn't valid in JavaScript, which the generated schema leaves out.
+ */
+function reportInvalidRegexRules(def: FormRequestDefinition, file: string, onError?: ParseErrorHandler): void {
+  for (const [key, field] of Object.entries(def.fields)) {
+    for (const rule of field.rules) {
+      const pattern = rule.args[0] ?? '';
+      if (rule.name === 'regex' && !isJavaScriptRegex(pattern)) {
+        const error = new Error(`Skipped the regex rule of "${key}": ${pattern} is not a valid JavaScript regex`);
+        reportParseError(onError, 'form request', file, error);
+      }
+    }
+  }
+}
+
+/**
+ * Collect all form request definitions from the requests directory.
+ * This is a plugin-level function that handles file I/O.
+ */
+export function collectFormRequests(
+  requestsDirs: string | string[],
+  cwd: string,
+  onError?: ParseErrorHandler
+): Record<string, FormRequestDefinition> {
+  const requests: Record<string, FormRequestDefinition> = {};
+
+  // Requests with the same class name in different folders get namespace-prefixed names
+  const symbols = createSymbolIndex(cwd, { requests: [requestsDirs].flat() });
+
+  for (const requestsDir of [requestsDirs].flat()) {
+    if (!existsSync(requestsDir)) continue;
+
+    for (const file of getPhpFiles(requestsDir)) {
+      const requestPath = join(requestsDir, file);
+
+      // Calculate relative path from project root for source references
+      const relativePhpPath = relative(cwd, requestPath);
+
+      try {
+        const content = readFileSafe(requestPath);
+        if (!content) continue;
+
+        const def = parseFormRequestRules(content, relativePhpPath);
+        if (def) {
+          reportInvalidRegexRules(def, relativePhpPath, onError);
+          const fqcn = getDeclaredClassName(content);
+          def.name = (fqcn && symbols.get(fqcn)?.typeName) || def.name;
+          requests[def.name] = def;
+        } else {
+          // Not a form request, unless the file doesn't parse at all
+          const syntaxError = getPhpSyntaxError(content);
+          if (syntaxError) reportParseError(onError, 'form request', relativePhpPath, syntaxError);
+        }
+      } catch (e) {
+        reportParseError(onError, 'form request', relativePhpPath, e);
+      }
+    }
+  }
+
+  return requests;
+}
+
+/**
+ * Build schema files (TypeScript declarations and runtime Zod schemas) in memory.
+ */
+export function buildSchemaFiles(options: SchemaGeneratorOptions): GeneratedFiles {
+  const { requestsDirs, enumsDirs, packageName, prettyPrint = true, cwd, onError } = options;
+
+  const files: GeneratedFiles = {};
+
+  // Enums are inlined so Rule::enum() schemas validate against the enum's values
+  const enums = collectEnums(enumsDirs, cwd, undefined, onError);
+  const requests = collectFormRequests(requestsDirs, cwd, onError);
+  const modules: PackageModule[] = [];
+
+  // Generate individual files for each request, mirroring the requests directory layout
+  for (const requestName of Object.keys(requests)) {
+    const def = requests[requestName];
+    const phpFile = def.loc?.file;
+    const relativeFile = phpFile ? getSourceRelativePath(join(cwd, phpFile), requestsDirs) : requestName;
+    const modulePath = getModulePath(relativeFile, requestName);
+
+    // Generate {RequestName}.d.ts
+    const dtsContent = generateSingleSchemaTypeScript(def, enums, phpFile);
+    files[`${modulePath}.d.ts`] = dtsContent;
+
+    // Generate {RequestName}.js
+    const jsContent = generateSingleSchemaRuntime(def, enums, prettyPrint);
+    files[`${modulePath}.js`] = jsContent;
+
+    modules.push({ name: requestName, shortName: parse(relativeFile).name, path: modulePath });
+  }
+
+  // Generate barrel index.d.ts and index.js (root and per subdirectory)
+  const subpaths = addBarrels(
+    files,
+    modules,
+    (local, exported, specifier) =>
+      `export { ${formatExportSpecifier(local, exported)}, type ${formatExportSpecifier(
+        getSchemaInputTypeName(local),
+        getSchemaInputTypeName(exported)
+      )} } from '${specifier}';`,
+    (local, exported, specifier) => `export { ${formatExportSpecifier(local, exported)} } from '${specifier}';`
+  );
+
+  // Generate manifest.json, the snapshot breaking changes are detected against
+  const manifestRequests = Object.values(requests).map((def) => [def.name, getSchemaInputFields(def, enums)]);
+  files[MANIFEST_FILE] = formatManifest({ requests: Object.fromEntries(manifestRequests) });
+
+  // Generate package.json
+  // The schemas import zod at runtime
+  addPackageJson(files, packageName, subpaths, { zod: ZOD_VERSION });
+
+  return files;
+}
+
+/**
+ * Generate schema files (TypeScript declarations and runtime Zod schemas).
+ */
+export function generateSchemas(options: SchemaGeneratorOptions): void {
+  writeGeneratedFiles(options.outputDir, buildSchemaFiles(options));
+}
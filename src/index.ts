@@ -1,63 +1,70 @@
-import { join } from 'node:path';
-import type { Plugin } from 'vite';
-import { generateEnums } from './generators/enums.js';
-import { generateResources } from './generators/resources.js';
+import type { Plugin, ViteDevServer } from 'vite';
+import { relative } from 'node:path';
+import { buildPackages, checkPackages, resolveConfig, writePackage, type FerryConfig } from './config.js';
+import { formatUnifiedDiff } from './utils/check.js';
+import type { GeneratedFiles, GeneratedPackage } from './utils/package.js';
+import { createVirtualModules } from './utils/virtual-modules.js';
+import { setupApiWatcher } from './watchers/api.js';
 import { setupEnumWatcher } from './watchers/enums.js';
+import { setupInertiaWatcher } from './watchers/inertia.js';
+import { setupLangWatcher } from './watchers/lang.js';
 import { setupResourceWatcher } from './watchers/resources.js';
+import { setupRouteWatcher } from './watchers/routes.js';
+import { setupSchemaWatcher } from './watchers/schemas.js';
 
-export type ResourceTypesPluginOptions = {
-  cwd?: string;
-  prettyPrint?: boolean;
-};
+export { defineConfig, type FerryConfig, type ResourceTypesPluginOptions } from './config.js';
 
 /**
  * Vite plugin for generating TypeScript types from Laravel PHP files.
  *
  * This plugin generates separate packages for each type:
- * - @app/enums - PHP enums with labels
- * - @app/resources - Laravel JsonResource types
- * - @app/schemas - (future) Zod schemas from FormRequests
+ * - @ferry/enums - PHP enums with labels
+ * - @ferry/resources - Laravel JsonResource types
+ * - @ferry/schemas - Zod schemas from FormRequests
+ * - @ferry/routes - Typed route() helper from route files
+ * - @ferry/lang - Typed t() helper from lang files
+ * - @ferry/api - Typed API client from controllers returning resources
+ * - @ferry/inertia - Inertia page props from Inertia::render() calls
  */
-export default function ferry(options: ResourceTypesPluginOptions = {}): Plugin {
-  const namespace = '@ferry';
+export default function ferry(options: FerryConfig = {}): Plugin {
   const name = 'vite-plugin-ferry';
+  const config = resolveConfig(options);
 
-  // Apply defaults
-  const cwd = options.cwd ?? process.cwd();
-  const prettyPrint = options.prettyPrint ?? true;
+  // Virtual packages live in memory; only their type declarations are written to disk
+  const virtualModules = config.virtual ? createVirtualModules() : null;
 
-  // Directory paths
-  const enumsDir = join(cwd, 'app/Enums');
-  const resourcesDir = join(cwd, 'app/Http/Resources');
-  const modelsDir = join(cwd, 'app/Models');
+  /**
+   * Write a package's generated files, keeping them in memory in virtual mode.
+   * Nothing is written in check mode.
+   */
+  function emit(pkg: GeneratedPackage) {
+    virtualModules?.set(pkg.packageName, pkg.files);
+    if (!config.check) {
+      writePackage(config, pkg);
+    }
+  }
+
+  /**
+   * Create a watcher callback that updates a virtual package and reloads its modules.
+   */
+  function createVirtualUpdater(server: ViteDevServer, { packageName, outputDir }: Omit<GeneratedPackage, 'files'>) {
+    if (!virtualModules) return undefined;
 
-  // Output directories for each package
-  const enumsOutputDir = join(cwd, 'node_modules', ...namespace.split('/'), 'enums');
-  const resourcesOutputDir = join(cwd, 'node_modules', ...namespace.split('/'), 'resources');
+    return (files: GeneratedFiles) => {
+      emit({ packageName, outputDir, files });
+      virtualModules.invalidate(server, packageName);
+    };
+  }
 
   /**
    * Generate all packages.
    */
   function generateAll() {
-    // Generate @app/enums package
-    generateEnums({
-      enumsDir,
-      outputDir: enumsOutputDir,
-      packageName: `${namespace}/enums`,
-      prettyPrint,
-      cwd,
-    });
-
-    // Generate @app/resources package
-    generateResources({
-      resourcesDir,
-      enumsDir,
-      modelsDir,
-      outputDir: resourcesOutputDir,
-      packageName: `${namespace}/resources`,
-      prettyPrint,
-      cwd,
-    });
+    if (config.check && !virtualModules) return;
+
+    for (const pkg of buildPackages(config)) {
+      emit(pkg);
+    }
   }
 
   return {
@@ -73,8 +80,17 @@ export default function ferry(options: ResourceTypesPluginOptions = {}): Plugin
       }
 
       return {
+        resolve: config.aliases ? { alias: config.aliases } : undefined,
         optimizeDeps: {
-          exclude: [`${namespace}/enums`, `${namespace}/resources`],
+          exclude: [
+            config.enums.packageName,
+            config.resources.packageName,
+            config.schemas.packageName,
+            config.routes.packageName,
+            config.lang.packageName,
+            config.api.packageName,
+            config.inertia.packageName,
+          ],
         },
       };
     },
@@ -86,28 +102,81 @@ export default function ferry(options: ResourceTypesPluginOptions = {}): Plugin
       } catch (e) {
         console.error(`[${name}] Error generating types during buildStart():`, e);
       }
+
+      if (config.check) {
+        const drift = checkPackages(config);
+        if (drift.length > 0) {
+          const diff = drift
+            .map(({ path, expected, actual }) =>
+              formatUnifiedDiff(relative(config.cwd, path).replace(/\\/g, '/'), actual, expected)
+            )
+            .join('');
+          this.error(`Generated types are out of date, run ferry to update them:\n\n${diff}`);
+        }
+      }
+    },
+
+    // Serve generated packages from memory in virtual mode
+    resolveId(source, importer) {
+      return virtualModules?.resolveId(source, importer) ?? null;
+    },
+
+    load(id) {
+      return virtualModules?.load(id) ?? null;
     },
 
     // Set up watchers for dev server
     configureServer(server) {
+      // The watchers write files, which check mode never does
+      if (config.check) return;
+
       // Set up enum watcher
       setupEnumWatcher({
-        enumsDir,
-        outputDir: enumsOutputDir,
-        packageName: `${namespace}/enums`,
-        cwd,
+        ...config.enums,
         server,
+        onGenerate: createVirtualUpdater(server, config.enums),
       });
 
       // Set up resource watcher
       setupResourceWatcher({
-        resourcesDir,
-        enumsDir,
-        modelsDir,
-        outputDir: resourcesOutputDir,
-        packageName: `${namespace}/resources`,
-        cwd,
+        ...config.resources,
+        server,
+        onGenerate: createVirtualUpdater(server, config.resources),
+      });
+
+      // Set up schema watcher
+      setupSchemaWatcher({
+        ...config.schemas,
+        server,
+        onGenerate: createVirtualUpdater(server, config.schemas),
+      });
+
+      // Set up route watcher
+      setupRouteWatcher({
+        ...config.routes,
+        server,
+        onGenerate: createVirtualUpdater(server, config.routes),
+      });
+
+      // Set up lang watcher
+      setupLangWatcher({
+        ...config.lang,
+        server,
+        onGenerate: createVirtualUpdater(server, config.lang),
+      });
+
+      // Set up API client watcher
+      setupApiWatcher({
+        ...config.api,
+        server,
+        onGenerate: createVirtualUpdater(server, config.api),
+      });
+
+      // Set up Inertia page props watcher
+      setupInertiaWatcher({
+        ...config.inertia,
         server,
+        onGenerate: createVirtualUpdater(server, config.inertia),
       });
     },
   };
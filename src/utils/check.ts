@@ -0,0 +1,138 @@
+import { join } from 'node:path';
+import { getGeneratedFiles, readFileSafe } from './file.js';
+import type { GeneratedFiles } from './package.js';
+
+/**
+ * A generated file whose content differs from the file on disk.
+ * `expected` is null for stale files that would be removed, `actual` is null for files that don't exist yet.
+ */
+export type FileDrift = {
+  /** Absolute path of the file. */
+  path: string;
+  expected: string | null;
+  actual: string | null;
+};
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string };
+
+/**
+ * Split file content into lines, ignoring the trailing newline.
+ */
+function splitLines(content: string | null): string[] {
+  if (!content) return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Diff two lists of lines using their longest common subsequence.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Skip the common prefix and suffix so only the changed region is compared
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+
+  // lengths[i][j] is the length of the LCS of a[start + i..endA] and b[start + j..endB]
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[start + i] === b[start + j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map((text) => ({ type: ' ', text }));
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      lines.push({ type: ' ', text: a[start + i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ type: '-', text: a[start + i] });
+      i++;
+    } else {
+      lines.push({ type: '+', text: b[start + j] });
+      j++;
+    }
+  }
+
+  lines.push(...a.slice(endA).map((text): DiffLine => ({ type: ' ', text })));
+  return lines;
+}
+
+/**
+ * Format a unified diff between the content on disk and the generated content.
+ * Returns an empty string when they're identical.
+ */
+export function formatUnifiedDiff(
+  fileName: string,
+  actual: string | null,
+  expected: string | null,
+  context = 3
+): string {
+  const lines = diffLines(splitLines(actual), splitLines(expected));
+  const changes = lines.flatMap((line, index) => (line.type === ' ' ? [] : [index]));
+  if (changes.length === 0) return '';
+
+  // Group changes whose context overlaps into hunks of [start, end) line indexes
+  const hunks: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - context <= last[1]) {
+      last[1] = Math.min(index + context + 1, lines.length);
+    } else {
+      hunks.push([Math.max(index - context, 0), Math.min(index + context + 1, lines.length)]);
+    }
+  }
+
+  const output = [
+    `--- ${actual === null ? '/dev/null' : `a/${fileName}`}`,
+    `+++ ${expected === null ? '/dev/null' : `b/${fileName}`}`,
+  ];
+
+  for (const [start, end] of hunks) {
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const oldStart = before.filter((line) => line.type !== '+').length;
+    const newStart = before.filter((line) => line.type !== '-').length;
+    const oldLength = hunk.filter((line) => line.type !== '+').length;
+    const newLength = hunk.filter((line) => line.type !== '-').length;
+
+    // Empty ranges start at the line before them
+    output.push(
+      `@@ -${oldLength ? oldStart + 1 : oldStart},${oldLength} +${newLength ? newStart + 1 : newStart},${newLength} @@`
+    );
+    output.push(...hunk.map((line) => `${line.type}${line.text}`));
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Compare generated files with an output directory without writing anything.
+ * Generated files missing from the generated set are reported as stale, since writing would remove them.
+ * This is a plugin-level function that handles file I/O.
+ */
+export function checkGeneratedFiles(outputDir: string, files: GeneratedFiles): FileDrift[] {
+  const paths = [...new Set([...Object.keys(files), ...getGeneratedFiles(outputDir)])].sort();
+
+  return paths.flatMap((path) => {
+    const expected = files[path] ?? null;
+    const actual = readFileSafe(join(outputDir, path));
+    return expected === actual ? [] : [{ path: join(outputDir, path), expected, actual }];
+  });
+}
@@ -0,0 +1,184 @@
+import type * as PhpParserTypes from 'php-parser';
+import {
+  findAllNodesByKind,
+  findNodeByKind,
+  findReturnStatements,
+  getNamespaceContext,
+  parsePhp,
+  resolveClassName,
+  type NamespaceContext,
+} from './php-parser.js';
+
+/**
+ * How a controller action returns a resource: new UserResource() or UserResource::make(), UserResource::collection(),
+ * or a collection of a paginator, e.g. UserResource::collection(User::paginate()).
+ */
+export type ControllerResponseKind = 'resource' | 'collection' | 'paginated' | 'simplePaginated' | 'cursorPaginated';
+
+export type ControllerResponse = {
+  /** Fully-qualified class name of the returned resource. */
+  resource: string;
+  kind: ControllerResponseKind;
+  /** Whether a resource (usually a ResourceCollection) is made from a paginator, e.g. new UserCollection(User::paginate()). */
+  paginated?: boolean;
+};
+
+export type ControllerAction = {
+  response?: ControllerResponse;
+  /** Fully-qualified class names of the type-hinted parameters, e.g. the action's FormRequest. */
+  parameterTypes: string[];
+};
+
+/**
+ * Response kinds of collections of each paginator method.
+ */
+const PAGINATOR_KINDS: Record<string, ControllerResponseKind> = {
+  paginate: 'paginated',
+  simplePaginate: 'simplePaginated',
+  cursorPaginate: 'cursorPaginated',
+};
+
+/**
+ * Methods of a resource or its response that keep the response body, e.g. (new UserResource($user))->additional([...]).
+ */
+const CHAINED_METHODS = ['additional', 'response', 'setStatusCode', 'withHeaders', 'header'];
+
+/**
+ * Get the name of a called method, or null if the call isn't a method call.
+ */
+function getCalledMethod(call: PhpParserTypes.Call): string | null {
+  if (call.what.kind !== 'propertylookup' && call.what.kind !== 'staticlookup') return null;
+
+  const offset = (call.what as unknown as PhpParserTypes.PropertyLookup).offset;
+  return offset.kind === 'identifier' ? (offset as PhpParserTypes.Identifier).name : null;
+}
+
+/**
+ * Get the paginated collection kind of an expression that calls paginate(), simplePaginate() or cursorPaginate(),
+ * following a variable to its assignments in the method body.
+ */
+function getPaginatorKind(node: PhpParserTypes.Node, body: PhpParserTypes.Node): ControllerResponseKind | null {
+  const expressions = [node];
+
+  if (node.kind === 'variable') {
+    const name = (node as PhpParserTypes.Variable).name;
+    for (const assign of findAllNodesByKind(body, 'assign') as PhpParserTypes.Assign[]) {
+      if (assign.left.kind === 'variable' && (assign.left as PhpParserTypes.Variable).name === name) {
+        expressions.push(assign.right);
+      }
+    }
+  }
+
+  for (const expression of expressions) {
+    const calls = [expression, ...findAllNodesByKind(expression, 'call')].filter((n) => n.kind === 'call');
+    for (const call of calls as PhpParserTypes.Call[]) {
+      const method = getCalledMethod(call);
+      if (method && PAGINATOR_KINDS[method]) return PAGINATOR_KINDS[method];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the response of a resource made from the given arguments, marking it paginated when made from a paginator.
+ */
+function createResourceResponse(
+  resource: string,
+  args: PhpParserTypes.Node[],
+  body: PhpParserTypes.Node
+): ControllerResponse {
+  return args[0] && getPaginatorKind(args[0], body)
+    ? { resource, kind: 'resource', paginated: true }
+    : { resource, kind: 'resource' };
+}
+
+/**
+ * Get the resource returned by an expression: new UserResource(...), UserResource::make(...) or
+ * UserResource::collection(...), possibly followed by ->additional() or ->response().
+ */
+export function getReturnedResource(
+  node: PhpParserTypes.Node,
+  body: PhpParserTypes.Node,
+  context: NamespaceContext
+): ControllerResponse | null {
+  if (node.kind === 'new') {
+    const { what, arguments: args } = node as PhpParserTypes.New;
+    if (what.kind !== 'name') return null;
+    return createResourceResponse(resolveClassName((what as PhpParserTypes.Name).name, context), args, body);
+  }
+
+  if (node.kind !== 'call') return null;
+
+  const call = node as PhpParserTypes.Call;
+  const method = getCalledMethod(call);
+  if (!method) return null;
+
+  if (call.what.kind === 'propertylookup') {
+    const target = (call.what as unknown as PhpParserTypes.PropertyLookup).what;
+    return CHAINED_METHODS.includes(method) ? getReturnedResource(target, body, context) : null;
+  }
+
+  const target = (call.what as unknown as PhpParserTypes.StaticLookup).what;
+  if (target.kind !== 'name') return null;
+  const resource = resolveClassName((target as PhpParserTypes.Name).name, context);
+
+  if (method === 'make') return createResourceResponse(resource, call.arguments, body);
+  if (method === 'collection') {
+    const paginator = call.arguments[0] ? getPaginatorKind(call.arguments[0], body) : null;
+    return { resource, kind: paginator ?? 'collection' };
+  }
+
+  return null;
+}
+
+/**
+ * Get the fully-qualified class name of a type hint, or null for built-in and union types.
+ */
+function getTypeHintClass(type: PhpParserTypes.Node | null | undefined, context: NamespaceContext): string | null {
+  if (!type || type.kind !== 'name') return null;
+  return resolveClassName((type as PhpParserTypes.Name).name, context);
+}
+
+/**
+ * Parse the public methods of a controller: the resource each one returns, read from its return statements
+ * or its return type hint, and the classes of its type-hinted parameters.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseControllerActions(phpContent: string): Record<string, ControllerAction> {
+  const ast = parsePhp(phpContent);
+  if (!ast) return {};
+
+  const classNode = findNodeByKind(ast, 'class') as PhpParserTypes.Class | null;
+  if (!classNode) return {};
+
+  const context = getNamespaceContext(ast);
+  const actions: Record<string, ControllerAction> = {};
+
+  for (const method of findAllNodesByKind(classNode, 'method') as PhpParserTypes.Method[]) {
+    if (method.visibility === 'private' || method.visibility === 'protected' || method.isStatic) continue;
+
+    const name = typeof method.name === 'string' ? method.name : (method.name as PhpParserTypes.Identifier).name;
+    const parameterTypes = method.arguments
+      .map((param) => getTypeHintClass(param.type, context))
+      .filter((type): type is string => type !== null);
+
+    // Return statements are more precise than the type hint, which can't tell a paginated collection apart
+    let response: ControllerResponse | null = null;
+    if (method.body) {
+      for (const returnNode of findReturnStatements(method.body)) {
+        response = returnNode.expr ? getReturnedResource(returnNode.expr, method.body, context) : null;
+        if (response) break;
+      }
+    }
+
+    const returnType = getTypeHintClass(method.type, context);
+    if (!response && returnType) {
+      response = { resource: returnType, kind: 'resource' };
+    }
+
+    actions[name] = { ...(response ? { response } : {}), parameterTypes };
+  }
+
+  return actions;
+}
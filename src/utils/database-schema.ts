@@ -0,0 +1,337 @@
+import { basename, join, relative } from 'node:path';
+import type * as PhpParserTypes from 'php-parser';
+import { getPhpFiles, readFileSafe } from './file.js';
+import { toSnakeCase } from './inflector.js';
+import {
+  findAllNodesByKind,
+  getClassConstantName,
+  getPhpSyntaxError,
+  getStringValue,
+  parsePhp,
+  reportParseError,
+  type ParseErrorHandler,
+} from './php-parser.js';
+
+export type ColumnDefinition = {
+  /** TypeScript type of the column's values. */
+  type: string;
+  nullable: boolean;
+};
+
+/**
+ * Columns of each table, keyed by table name and then column name.
+ */
+export type DatabaseSchema = Record<string, Record<string, ColumnDefinition>>;
+
+/**
+ * TypeScript types of Blueprint column methods, e.g. $table->integer('votes').
+ */
+const COLUMN_TYPES: Record<string, string> = {
+  id: 'number',
+  increments: 'number',
+  bigIncrements: 'number',
+  mediumIncrements: 'number',
+  smallIncrements: 'number',
+  tinyIncrements: 'number',
+  integer: 'number',
+  bigInteger: 'number',
+  mediumInteger: 'number',
+  smallInteger: 'number',
+  tinyInteger: 'number',
+  unsignedInteger: 'number',
+  unsignedBigInteger: 'number',
+  unsignedMediumInteger: 'number',
+  unsignedSmallInteger: 'number',
+  unsignedTinyInteger: 'number',
+  foreignId: 'number',
+  // Eloquent serializes decimals as strings to keep their precision, unless a cast says otherwise
+  decimal: 'string',
+  unsignedDecimal: 'string',
+  double: 'number',
+  float: 'number',
+  year: 'number',
+  boolean: 'boolean',
+  string: 'string',
+  char: 'string',
+  text: 'string',
+  tinyText: 'string',
+  mediumText: 'string',
+  longText: 'string',
+  uuid: 'string',
+  ulid: 'string',
+  foreignUuid: 'string',
+  foreignUlid: 'string',
+  ipAddress: 'string',
+  macAddress: 'string',
+  binary: 'string',
+  set: 'string',
+  date: 'string',
+  dateTime: 'string',
+  dateTimeTz: 'string',
+  time: 'string',
+  timeTz: 'string',
+  timestamp: 'string',
+  timestampTz: 'string',
+  json: 'any',
+  jsonb: 'any',
+};
+
+/**
+ * Column names of Blueprint methods whose column argument is optional.
+ */
+const DEFAULT_COLUMN_NAMES: Record<string, string> = {
+  id: 'id',
+  uuid: 'uuid',
+  ulid: 'ulid',
+  ipAddress: 'ip_address',
+  macAddress: 'mac_address',
+};
+
+/**
+ * Polymorphic relation columns: {name}_id with the given type and {name}_type.
+ */
+const MORPH_COLUMNS: Record<string, { id: string; nullable: boolean }> = {
+  morphs: { id: 'number', nullable: false },
+  nullableMorphs: { id: 'number', nullable: true },
+  uuidMorphs: { id: 'string', nullable: false },
+  nullableUuidMorphs: { id: 'string', nullable: true },
+  ulidMorphs: { id: 'string', nullable: false },
+  nullableUlidMorphs: { id: 'string', nullable: true },
+};
+
+type ChainedCall = { method: string; args: PhpParserTypes.Node[] };
+
+/**
+ * Flatten a method chain on a variable, e.g. $table->string('name')->nullable(), into its calls.
+ * Returns null if the chain doesn't start at the variable.
+ */
+function getMethodChain(node: PhpParserTypes.Node, variable: string): ChainedCall[] | null {
+  const chain: ChainedCall[] = [];
+  let current = node;
+
+  while (current.kind === 'call') {
+    const call = current as PhpParserTypes.Call;
+    if (call.what.kind !== 'propertylookup') return null;
+
+    const lookup = call.what as unknown as PhpParserTypes.PropertyLookup;
+    if (lookup.offset.kind !== 'identifier') return null;
+
+    chain.unshift({ method: (lookup.offset as PhpParserTypes.Identifier).name, args: call.arguments });
+    current = lookup.what;
+  }
+
+  return current.kind === 'variable' && (current as PhpParserTypes.Variable).name === variable ? chain : null;
+}
+
+/**
+ * Get the string values of column name arguments: dropColumn('a', 'b') or dropColumn(['a', 'b']).
+ */
+function getColumnNames(args: PhpParserTypes.Node[]): string[] {
+  return args.flatMap((arg) => {
+    if (arg.kind === 'array') {
+      return (arg as PhpParserTypes.Array).items.flatMap((item) => {
+        const value = item.kind === 'entry' ? (item as PhpParserTypes.Entry).value : item;
+        const name = getStringValue(value);
+        return name ? [name] : [];
+      });
+    }
+    const name = getStringValue(arg);
+    return name ? [name] : [];
+  });
+}
+
+/**
+ * Get the type of an enum column from its allowed values, e.g. $table->enum('status', ['draft', 'published']).
+ */
+function getEnumColumnType(args: PhpParserTypes.Node[]): string {
+  const values = args[1] ? getColumnNames([args[1]]) : [];
+  return values.length > 0 ? values.map((value) => JSON.stringify(value)).join(' | ') : 'string';
+}
+
+/**
+ * Apply a statement of a Blueprint closure ($table->...) to the columns of a table.
+ */
+function applyBlueprintCall(columns: Record<string, ColumnDefinition>, chain: ChainedCall[]): void {
+  const [{ method, args }, ...modifiers] = chain;
+  // ->nullable() or ->nullable(false)
+  const nullableCall = modifiers.find((m) => m.method === 'nullable');
+  const nullableArg = nullableCall?.args[0];
+  const nullable = !!nullableCall && (nullableArg?.kind !== 'boolean' || (nullableArg as PhpParserTypes.Boolean).value);
+  const column = (args[0] && getStringValue(args[0])) || DEFAULT_COLUMN_NAMES[method];
+
+  if (method in COLUMN_TYPES && column) {
+    columns[column] = { type: COLUMN_TYPES[method], nullable };
+    return;
+  }
+
+  if (method === 'enum' && column) {
+    columns[column] = { type: getEnumColumnType(args), nullable };
+    return;
+  }
+
+  if (method in MORPH_COLUMNS && column) {
+    const morph = MORPH_COLUMNS[method];
+    columns[`${column}_id`] = { type: morph.id, nullable: morph.nullable };
+    columns[`${column}_type`] = { type: 'string', nullable: morph.nullable };
+    return;
+  }
+
+  switch (method) {
+    case 'foreignIdFor': {
+      // The model's foreign key: User::class -> user_id
+      const model = args[0] ? getClassConstantName(args[0]) : null;
+      const name = (args[1] && getStringValue(args[1])) || (model && `${toSnakeCase(model.split('\\').pop()!)}_id`);
+      if (name) columns[name] = { type: 'number', nullable };
+      break;
+    }
+    case 'timestamps':
+    case 'timestampsTz':
+    case 'nullableTimestamps':
+      columns.created_at = { type: 'string', nullable: true };
+      columns.updated_at = { type: 'string', nullable: true };
+      break;
+    case 'softDeletes':
+    case 'softDeletesTz':
+      columns[column || 'deleted_at'] = { type: 'string', nullable: true };
+      break;
+    case 'rememberToken':
+      columns.remember_token = { type: 'string', nullable: true };
+      break;
+    case 'dropColumn':
+      for (const name of getColumnNames(args)) delete columns[name];
+      break;
+    case 'dropConstrainedForeignId':
+      if (column) delete columns[column];
+      break;
+    case 'renameColumn': {
+      const to = args[1] && getStringValue(args[1]);
+      if (column && to && columns[column]) {
+        columns[to] = columns[column];
+        delete columns[column];
+      }
+      break;
+    }
+    case 'dropTimestamps':
+    case 'dropTimestampsTz':
+      delete columns.created_at;
+      delete columns.updated_at;
+      break;
+    case 'dropSoftDeletes':
+    case 'dropSoftDeletesTz':
+      delete columns[column || 'deleted_at'];
+      break;
+    case 'dropRememberToken':
+      delete columns.remember_token;
+      break;
+    case 'dropMorphs':
+      if (column) {
+        delete columns[`${column}_id`];
+        delete columns[`${column}_type`];
+      }
+      break;
+  }
+}
+
+/**
+ * Get the name of the first parameter of a closure, e.g. table for function (Blueprint $table).
+ */
+function getClosureParameter(closure: PhpParserTypes.Closure | PhpParserTypes.ArrowFunc): string | null {
+  const param = closure.arguments[0];
+  if (!param) return null;
+  return typeof param.name === 'string' ? param.name : (param.name as PhpParserTypes.Identifier).name;
+}
+
+/**
+ * Apply a migration's up() method to a database schema: Schema::create(), Schema::table(),
+ * Schema::rename() and Schema::drop() / Schema::dropIfExists().
+ * Returns the updated schema without modifying the given one.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseMigration(phpContent: string, schema: DatabaseSchema = {}): DatabaseSchema {
+  const result: DatabaseSchema = Object.fromEntries(
+    Object.entries(schema).map(([table, columns]) => [table, { ...columns }])
+  );
+
+  const ast = parsePhp(phpContent);
+  if (!ast) return result;
+
+  // Only up() describes the schema after the migration; down() reverts it
+  const methods = findAllNodesByKind(ast, 'method') as PhpParserTypes.Method[];
+  const upMethod = methods.find((m) => (typeof m.name === 'string' ? m.name : m.name.name) === 'up');
+  if (!upMethod?.body) return result;
+
+  for (const node of findAllNodesByKind(upMethod.body, 'call')) {
+    const call = node as PhpParserTypes.Call;
+    if (call.what.kind !== 'staticlookup') continue;
+
+    const lookup = call.what as unknown as PhpParserTypes.StaticLookup;
+    const facade = lookup.what.kind === 'name' ? (lookup.what as PhpParserTypes.Name).name.split('\\').pop() : null;
+    if (facade !== 'Schema' || lookup.offset.kind !== 'identifier') continue;
+
+    const method = (lookup.offset as PhpParserTypes.Identifier).name;
+    const table = call.arguments[0] && getStringValue(call.arguments[0]);
+    if (!table) continue;
+
+    if (method === 'drop' || method === 'dropIfExists') {
+      delete result[table];
+      continue;
+    }
+
+    if (method === 'rename') {
+      const to = call.arguments[1] && getStringValue(call.arguments[1]);
+      if (to && result[table]) {
+        result[to] = result[table];
+        delete result[table];
+      }
+      continue;
+    }
+
+    if (method !== 'create' && method !== 'table') continue;
+
+    const closure = call.arguments[1];
+    if (!closure || (closure.kind !== 'closure' && closure.kind !== 'arrowfunc')) continue;
+
+    const variable = getClosureParameter(closure as PhpParserTypes.Closure);
+    if (!variable) continue;
+
+    const body = (closure as PhpParserTypes.Closure).body;
+    const expressions =
+      closure.kind === 'closure'
+        ? (findAllNodesByKind(body, 'expressionstatement') as PhpParserTypes.ExpressionStatement[]).map(
+            (statement) => statement.expression
+          )
+        : [(closure as PhpParserTypes.ArrowFunc).body];
+
+    const columns = method === 'create' ? {} : (result[table] ?? {});
+    for (const expression of expressions) {
+      const chain = getMethodChain(expression, variable);
+      if (chain && chain.length > 0) applyBlueprintCall(columns, chain);
+    }
+    result[table] = columns;
+  }
+
+  return result;
+}
+
+/**
+ * Build the database schema by applying every migration in order of their (timestamped) file names.
+ * This is a plugin-level function that handles file I/O.
+ */
+export function readDatabaseSchema(migrationsDirs: string[], cwd: string, onError?: ParseErrorHandler): DatabaseSchema {
+  const files = migrationsDirs
+    .flatMap((dir) => getPhpFiles(dir).map((file) => join(dir, file)))
+    .sort((a, b) => basename(a).localeCompare(basename(b)));
+
+  let schema: DatabaseSchema = {};
+  for (const file of files) {
+    const content = readFileSafe(file) || '';
+    const syntaxError = getPhpSyntaxError(content);
+    if (syntaxError) {
+      reportParseError(onError, 'migration', relative(cwd, file), syntaxError);
+      continue;
+    }
+    schema = parseMigration(content, schema);
+  }
+
+  return schema;
+}
@@ -0,0 +1,104 @@
+import { existsSync, statSync, watch, type FSWatcher } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * The file watcher API the watchers rely on, implemented by Vite's dev server watcher and by createFileWatcher().
+ */
+export type FileWatcher = {
+  add(paths: string | readonly string[]): unknown;
+  on(event: 'change', listener: (filePath: string) => void): unknown;
+  emit(event: 'change', filePath: string): unknown;
+};
+
+/**
+ * The part of Vite's dev server the watchers use.
+ */
+export type WatchServer = {
+  watcher: FileWatcher;
+};
+
+/**
+ * Convert a glob pattern ("app/Enums/**\/*.php") to a regular expression matching full paths.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/\\/g, '/')
+    .split('/')
+    .map((segment) =>
+      segment === '**'
+        ? '(?:.*/)?'
+        : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]') + '/'
+    )
+    .join('')
+    .replace(/\/$/, '');
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get the directory or file a pattern starts from: everything before its first wildcard segment.
+ */
+function getPatternBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const wildcard = segments.findIndex((segment) => /[*?]/.test(segment));
+  return wildcard === -1 ? pattern : segments.slice(0, wildcard).join('/') || '/';
+}
+
+/**
+ * Create a file watcher on top of fs.watch, for watching outside of Vite (e.g. `ferry --watch`).
+ * Change events are debounced per file, since editors often write a file several times.
+ */
+export function createFileWatcher(debounceMs = 50): FileWatcher & { close(): void } {
+  const listeners: Array<(filePath: string) => void> = [];
+  const patterns: RegExp[] = [];
+  const watchers: Record<string, FSWatcher> = {};
+  const timers: Record<string, ReturnType<typeof setTimeout>> = {};
+
+  const notify = (filePath: string) => {
+    const normalized = filePath.replace(/\\/g, '/');
+    if (!patterns.some((pattern) => pattern.test(normalized))) return;
+
+    clearTimeout(timers[filePath]);
+    timers[filePath] = setTimeout(() => {
+      delete timers[filePath];
+      for (const listener of listeners) listener(filePath);
+    }, debounceMs);
+  };
+
+  const fileWatcher = {
+    add(paths: string | readonly string[]) {
+      for (const path of typeof paths === 'string' ? [paths] : paths) {
+        patterns.push(globToRegExp(path));
+
+        const base = getPatternBase(path);
+        if (watchers[base] || !existsSync(base)) continue;
+
+        if (statSync(base).isDirectory()) {
+          watchers[base] = watch(base, { recursive: true }, (_event, fileName) => {
+            if (fileName) notify(join(base, fileName.toString()));
+          });
+        } else {
+          watchers[base] = watch(base, () => notify(base));
+        }
+      }
+      return fileWatcher;
+    },
+
+    on(_event: 'change', listener: (filePath: string) => void) {
+      listeners.push(listener);
+      return fileWatcher;
+    },
+
+    emit(_event: 'change', filePath: string) {
+      for (const listener of listeners) listener(filePath);
+      return true;
+    },
+
+    close() {
+      for (const watcher of Object.values(watchers)) watcher.close();
+      for (const timer of Object.values(timers)) clearTimeout(timer);
+    },
+  };
+
+  return fileWatcher;
+}
@@ -1,5 +1,5 @@
-import { existsSync, readFileSync, mkdirSync, writeFileSync, readdirSync, unlinkSync } from 'node:fs';
-import { dirname, join } from 'node:path';
+import { existsSync, readFileSync, mkdirSync, writeFileSync, readdirSync, unlinkSync, rmdirSync } from 'node:fs';
+import { dirname, isAbsolute, join, relative, sep } from 'node:path';
 
 /**
  * Safely read a file, returning null if it doesn't exist or can't be read.
@@ -22,25 +22,143 @@ export function writeFileEnsureDir(filePath: string, content: string): void {
 }
 
 /**
- * Get all PHP files from a directory.
+ * Get all PHP files from a directory and its subdirectories.
+ * Returns paths relative to the directory, using forward slashes (e.g. "Admin/UserResource.php").
  */
 export function getPhpFiles(dir: string): string[] {
   if (!existsSync(dir)) {
     return [];
   }
-  return readdirSync(dir).filter((f) => f.endsWith('.php'));
+
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      files.push(...getPhpFiles(join(dir, entry.name)).map((f) => `${entry.name}/${f}`));
+    } else if (entry.name.endsWith('.php')) {
+      files.push(entry.name);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Check whether a file in an output directory is generated (and removed by cleanOutputDir).
+ */
+export function isGeneratedFile(fileName: string): boolean {
+  return fileName.endsWith('.d.ts') || fileName.endsWith('.js') || fileName.endsWith('.d.ts.map');
+}
+
+/**
+ * Get all generated files from an output directory and its subdirectories.
+ * Returns paths relative to the directory, using forward slashes (e.g. "Billing/BillingStatus.js").
+ */
+export function getGeneratedFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      files.push(...getGeneratedFiles(join(dir, entry.name)).map((f) => `${entry.name}/${f}`));
+    } else if (isGeneratedFile(entry.name)) {
+      files.push(entry.name);
+    }
+  }
+  return files.sort();
 }
 
 /**
- * Clean generated files from output directory, keeping package.json.
+ * Clean generated files from output directory and its subdirectories, keeping package.json.
+ * Subdirectories left empty are removed.
  */
 export function cleanOutputDir(outputDir: string): void {
   if (!existsSync(outputDir)) return;
 
-  const files = readdirSync(outputDir);
-  for (const file of files) {
-    if (file.endsWith('.d.ts') || file.endsWith('.js') || file.endsWith('.d.ts.map')) {
-      unlinkSync(join(outputDir, file));
+  for (const entry of readdirSync(outputDir, { withFileTypes: true })) {
+    const entryPath = join(outputDir, entry.name);
+    if (entry.isDirectory()) {
+      cleanOutputDir(entryPath);
+      if (readdirSync(entryPath).length === 0) {
+        rmdirSync(entryPath);
+      }
+    } else if (isGeneratedFile(entry.name)) {
+      unlinkSync(entryPath);
     }
   }
 }
+
+/**
+ * Convert a single glob path segment (e.g. "*", "Shop*") to a regular expression.
+ */
+function globSegmentToRegExp(segment: string): RegExp {
+  const pattern = segment
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Expand source directory patterns (e.g. "app/Enums", "modules/*\/Enums") to absolute directories.
+ * Supports "*" and "?" within a segment and "**" for any number of directories. Relative patterns are resolved from cwd.
+ * Patterns without wildcards are kept even if the directory doesn't exist yet.
+ */
+export function resolveSourceDirs(patterns: string[], cwd: string): string[] {
+  const dirs: string[] = [];
+
+  const expand = (base: string, segments: string[], wildcard = false): void => {
+    if (segments.length === 0) {
+      // Directories matched through a wildcard must exist
+      if ((!wildcard || existsSync(base)) && !dirs.includes(base)) dirs.push(base);
+      return;
+    }
+
+    const [segment, ...rest] = segments;
+    if (!/[*?]/.test(segment)) {
+      expand(join(base, segment), rest, wildcard);
+      return;
+    }
+
+    if (!existsSync(base)) return;
+
+    const subdirs = readdirSync(base, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+
+    if (segment === '**') {
+      expand(base, rest, true);
+      for (const subdir of subdirs) {
+        expand(join(base, subdir), segments, true);
+      }
+      return;
+    }
+
+    const regexp = globSegmentToRegExp(segment);
+    for (const subdir of subdirs.filter((name) => regexp.test(name))) {
+      expand(join(base, subdir), rest, true);
+    }
+  };
+
+  for (const pattern of patterns) {
+    const absolute = isAbsolute(pattern) ? pattern : join(cwd, pattern);
+    const segments = absolute.split(/[\\/]/);
+    const root = segments.shift() || sep;
+    expand(root === sep ? sep : `${root}${sep}`, segments.filter(Boolean));
+  }
+
+  return dirs;
+}
+
+/**
+ * Get a file's path relative to the source directory containing it, using forward slashes.
+ */
+export function getSourceRelativePath(filePath: string, dirs: string[]): string {
+  const candidates = dirs
+    .map((dir) => relative(dir, filePath))
+    .filter((path) => !path.startsWith('..') && !isAbsolute(path))
+    .sort((a, b) => a.length - b.length);
+
+  return (candidates[0] ?? relative(dirs[0] ?? '', filePath)).replace(/\\/g, '/');
+}
@@ -0,0 +1,243 @@
+import type * as PhpParserTypes from 'php-parser';
+import {
+  findAllNodesByKind,
+  findNodeByKind,
+  findReturnStatements,
+  getClassConstantName,
+  getNamespaceContext,
+  getStringValue,
+  parsePhp,
+  type NamespaceContext,
+  type SourceLocation,
+} from './php-parser.js';
+
+export type ValidationRule = {
+  name: string;
+  args: string[];
+};
+
+export type FormRequestField = {
+  rules: ValidationRule[];
+  loc?: SourceLocation;
+};
+
+export type FormRequestDefinition = {
+  name: string;
+  fields: Record<string, FormRequestField>;
+  loc?: SourceLocation;
+};
+
+/**
+ * Rules whose arguments must not be split on commas.
+ */
+const UNSPLITTABLE_RULES = ['regex', 'not_regex'];
+
+/**
+ * Parse a single rule string like "max:255" or "in:a,b,c".
+ */
+export function parseRuleString(rule: string): ValidationRule | null {
+  const trimmed = rule.trim();
+  if (!trimmed) return null;
+
+  const colon = trimmed.indexOf(':');
+  if (colon === -1) {
+    return { name: trimmed.toLowerCase(), args: [] };
+  }
+
+  const name = trimmed.slice(0, colon).toLowerCase();
+  const rest = trimmed.slice(colon + 1);
+  const args = UNSPLITTABLE_RULES.includes(name) ? [rest] : rest.split(',').map((a) => a.trim());
+
+  return { name, args };
+}
+
+/**
+ * Parse a pipe-delimited rule string like "required|email|max:255".
+ */
+export function parseRulePipeString(rules: string): ValidationRule[] {
+  return rules
+    .split('|')
+    .map(parseRuleString)
+    .filter((r): r is ValidationRule => r !== null);
+}
+
+/**
+ * Collect literal values from rule arguments, flattening array arguments.
+ */
+function collectLiteralArgs(args: PhpParserTypes.Node[]): string[] {
+  const values: string[] = [];
+
+  for (const arg of args) {
+    if (arg.kind === 'array') {
+      for (const item of (arg as PhpParserTypes.Array).items) {
+        const value = item.kind === 'entry' ? (item as PhpParserTypes.Entry).value : item;
+        const str = getStringValue(value);
+        if (str !== null) values.push(str);
+      }
+      continue;
+    }
+
+    const str = getStringValue(arg);
+    if (str !== null) values.push(str);
+  }
+
+  return values;
+}
+
+/**
+ * Convert a rule object name (Rule::enum, new Enum, Rule::notIn) to its rule string name.
+ */
+function ruleObjectName(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Parse a rule expressed as an object: Rule::enum(Foo::class), Rule::in([...]), new Enum(Foo::class).
+ * Enum classes are resolved to fully-qualified names using the file's namespace context.
+ */
+function parseRuleObject(node: PhpParserTypes.Node, context: NamespaceContext): ValidationRule | null {
+  let current = node;
+
+  // Unwrap fluent chains like Rule::enum(Foo::class)->only([...])
+  while (current.kind === 'call') {
+    const call = current as PhpParserTypes.Call;
+    if (call.what.kind !== 'propertylookup' && call.what.kind !== 'nullsafepropertylookup') break;
+    current = (call.what as unknown as PhpParserTypes.PropertyLookup).what;
+  }
+
+  let className: string | null = null;
+  let method: string | null = null;
+  let args: PhpParserTypes.Node[] = [];
+
+  if (current.kind === 'call') {
+    const call = current as PhpParserTypes.Call;
+    if (call.what.kind !== 'staticlookup') return null;
+
+    const lookup = call.what as unknown as PhpParserTypes.StaticLookup;
+    if (lookup.what.kind !== 'name' || lookup.offset.kind !== 'identifier') return null;
+
+    className = (lookup.what as PhpParserTypes.Name).name;
+    method = (lookup.offset as PhpParserTypes.Identifier).name;
+    args = call.arguments;
+  } else if (current.kind === 'new') {
+    const newExpr = current as PhpParserTypes.New;
+    if (newExpr.what.kind !== 'name') return null;
+
+    className = (newExpr.what as PhpParserTypes.Name).name;
+    args = newExpr.arguments;
+  } else {
+    return null;
+  }
+
+  const shortName = className.split('\\').pop()!;
+
+  // Password::defaults(), Password::min(8), new Password(8)
+  if (shortName === 'Password') {
+    return { name: 'string', args: [] };
+  }
+
+  // File::image(), File::types([...])
+  if (shortName === 'File') {
+    return { name: 'file', args: [] };
+  }
+
+  const name = ruleObjectName(method ?? shortName);
+
+  if (name === 'enum') {
+    const enumClass = args.length > 0 ? getClassConstantName(args[0], context) : null;
+    return enumClass ? { name, args: [enumClass] } : null;
+  }
+
+  return { name, args: collectLiteralArgs(args) };
+}
+
+/**
+ * Parse the rules assigned to a single field.
+ */
+function parseFieldRules(node: PhpParserTypes.Node, context: NamespaceContext): ValidationRule[] {
+  if (node.kind === 'string') {
+    return parseRulePipeString((node as PhpParserTypes.String).value);
+  }
+
+  if (node.kind === 'array') {
+    const rules: ValidationRule[] = [];
+    for (const item of (node as PhpParserTypes.Array).items) {
+      const value = item.kind === 'entry' ? (item as PhpParserTypes.Entry).value : item;
+
+      // Each string in the array form is a single rule (not split on pipes)
+      if (value.kind === 'string') {
+        const rule = parseRuleString((value as PhpParserTypes.String).value);
+        if (rule) rules.push(rule);
+        continue;
+      }
+
+      const rule = parseRuleObject(value, context);
+      if (rule) rules.push(rule);
+    }
+    return rules;
+  }
+
+  const rule = parseRuleObject(node, context);
+  return rule ? [rule] : [];
+}
+
+/**
+ * Parse a FormRequest class and extract the rules returned by its rules() method.
+ * The arrays of every return of rules() itself are merged (an early return for PATCH requests, say),
+ * while returns inside closures (Rule::when() callbacks, custom rules) are left out.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseFormRequestRules(phpContent: string, filePath?: string): FormRequestDefinition | null {
+  const ast = parsePhp(phpContent);
+  if (!ast) return null;
+
+  const classNode = findNodeByKind(ast, 'class') as PhpParserTypes.Class | null;
+  if (!classNode) return null;
+
+  const name =
+    typeof classNode.name === 'string' ? classNode.name : (classNode.name as PhpParserTypes.Identifier).name;
+
+  const methods = findAllNodesByKind(classNode, 'method') as PhpParserTypes.Method[];
+  const rulesMethod = methods.find((m) => {
+    const methodName = typeof m.name === 'string' ? m.name : (m.name as PhpParserTypes.Identifier).name;
+    return methodName === 'rules';
+  });
+
+  if (!rulesMethod || !rulesMethod.body) return null;
+
+  const returnedArrays = findReturnStatements(rulesMethod.body)
+    .map((returnNode) => returnNode.expr)
+    .filter((expr): expr is PhpParserTypes.Array => expr?.kind === 'array');
+  if (returnedArrays.length === 0) return null;
+
+  const context = getNamespaceContext(ast);
+  const fields: Record<string, FormRequestField> = {};
+
+  for (const item of returnedArrays.flatMap((array) => array.items)) {
+    if (item.kind !== 'entry') continue;
+
+    const entry = item as PhpParserTypes.Entry;
+    const key = entry.key ? getStringValue(entry.key) : null;
+    // The first return with a field wins
+    if (!key || fields[key]) continue;
+
+    const field: FormRequestField = { rules: parseFieldRules(entry.value, context) };
+
+    if (filePath && (entry.key as any).loc?.start) {
+      field.loc = {
+        file: filePath,
+        line: (entry.key as any).loc.start.line,
+        column: (entry.key as any).loc.start.column,
+      };
+    }
+
+    fields[key] = field;
+  }
+
+  const loc: SourceLocation | undefined =
+    filePath && (classNode as any).loc?.start
+      ? { file: filePath, line: (classNode as any).loc.start.line, column: (classNode as any).loc.start.column }
+      : undefined;
+
+  return { name, fields, loc };
+}
@@ -0,0 +1,253 @@
+import type * as PhpParserTypes from 'php-parser';
+import { PAGINATED_TYPES } from '../generators/resources.js';
+import { getReturnedResource, type ControllerResponse } from './controller-parser.js';
+import {
+  findAllNodesByKind,
+  findNodeByKind,
+  getNamespaceContext,
+  getReturnedExpression,
+  getStringValue,
+  inferTypeFromAstNode,
+  isResourceCollectionFile,
+  parsePhp,
+  unionTypes,
+  type ParseResourceOptions,
+  type ResourceFieldInfo,
+  type SourceLocation,
+} from './php-parser.js';
+
+/**
+ * A page rendered with Inertia::render() or inertia().
+ */
+export type InertiaPage = {
+  component: string;
+  /** Props passed to the page, or null when they can't be determined (e.g. a variable). */
+  props: Record<string, ResourceFieldInfo> | null;
+  loc?: SourceLocation;
+};
+
+/**
+ * Inertia prop helpers whose value is only sent when requested (partial reloads) or after the page loads.
+ */
+const OPTIONAL_PROP_HELPERS = ['lazy', 'optional', 'defer'];
+
+/**
+ * Inertia prop helpers wrapping a value (or a closure returning it), always sent with the page.
+ */
+const PROP_HELPERS = [...OPTIONAL_PROP_HELPERS, 'always', 'merge', 'deepMerge'];
+
+/**
+ * Get the method name and arguments of an Inertia::method(...) call.
+ */
+function getInertiaCall(node: PhpParserTypes.Node): { method: string; args: PhpParserTypes.Node[] } | null {
+  if (node.kind !== 'call') return null;
+
+  const call = node as PhpParserTypes.Call;
+  if (call.what.kind !== 'staticlookup') return null;
+
+  const lookup = call.what as unknown as PhpParserTypes.StaticLookup;
+  if (lookup.what.kind !== 'name' || (lookup.what as PhpParserTypes.Name).name.split('\\').pop() !== 'Inertia') {
+    return null;
+  }
+
+  const offset = lookup.offset;
+  const method = offset.kind === 'identifier' ? (offset as PhpParserTypes.Identifier).name : null;
+  return method ? { method, args: call.arguments } : null;
+}
+
+/**
+ * Get the arguments of an Inertia::render() or inertia() call.
+ */
+function getRenderArguments(node: PhpParserTypes.Node): PhpParserTypes.Node[] | null {
+  const inertia = getInertiaCall(node);
+  if (inertia) return inertia.method === 'render' ? inertia.args : null;
+
+  const call = node as PhpParserTypes.Call;
+  if (call.what.kind !== 'name') return null;
+  return (call.what as PhpParserTypes.Name).name.replace(/^\\/, '') === 'inertia' ? call.arguments : null;
+}
+
+/**
+ * Get the type of a resource sent as a prop. Inertia turns resources into their response, so the prop is
+ * the resource's envelope (UserResource.Response) like a JSON response.
+ */
+function getResourcePropType(response: ControllerResponse, options: ParseResourceOptions): string | null {
+  const entry = options.symbols?.get(response.resource);
+  if (entry?.group !== 'resources') return null;
+
+  const typeName = entry.typeName;
+  if (response.kind === 'resource') {
+    const paginated = response.paginated && isResourceCollectionFile(entry.file, { symbols: options.symbols });
+    return `${typeName}.${paginated ? 'Paginated' : 'Response'}`;
+  }
+  if (response.kind === 'collection') return `${typeName}.Collection`;
+  return `${PAGINATED_TYPES[response.kind]}<${typeName}>`;
+}
+
+/**
+ * Format props as an inline object type, like inferTypeFromAstNode() does for nested arrays.
+ */
+function formatPropsType(props: Record<string, ResourceFieldInfo>): string {
+  const entries = Object.entries(props).map(([key, info]) => `${key}${info.optional ? '?' : ''}: ${info.type}`);
+  return entries.length > 0 ? `{ ${entries.join('; ')} }` : 'any[]';
+}
+
+/**
+ * Infer the type of a prop value. Closures and Inertia's prop helpers are unwrapped, since Inertia evaluates them,
+ * and Inertia::lazy(), optional() and defer() props are optional. Other values are typed like resource fields.
+ */
+function inferPropType(
+  node: PhpParserTypes.Node,
+  key: string,
+  body: PhpParserTypes.Node,
+  options: ParseResourceOptions
+): ResourceFieldInfo {
+  const helper = getInertiaCall(node);
+  if (helper && PROP_HELPERS.includes(helper.method)) {
+    const value = helper.args[0] ? getReturnedExpression(helper.args[0]) : null;
+    const type = value ? inferPropType(value, key, body, options).type : 'any';
+    return { type, optional: OPTIONAL_PROP_HELPERS.includes(helper.method) };
+  }
+
+  if (node.kind === 'arrowfunc' || node.kind === 'closure') {
+    const value = getReturnedExpression(node);
+    return value ? inferPropType(value, key, body, options) : { type: 'any', optional: false };
+  }
+
+  if (node.kind === 'retif') {
+    const { test, trueExpr, falseExpr } = node as PhpParserTypes.RetIf;
+    const types = [trueExpr ?? test, falseExpr].map((expr) => inferPropType(expr, key, body, options).type);
+    return { type: unionTypes(...types), optional: false };
+  }
+
+  const response = options.context ? getReturnedResource(node, body, options.context) : null;
+  const resourceType = response ? getResourcePropType(response, options) : null;
+  if (resourceType) {
+    return { type: resourceType, optional: false };
+  }
+
+  if (node.kind === 'array') {
+    return { type: formatPropsType(parsePropsArray(node as PhpParserTypes.Array, body, options)), optional: false };
+  }
+
+  return { type: inferTypeFromAstNode(node, key, { ...options, docShape: null }).type, optional: false };
+}
+
+/**
+ * Parse the props of an array literal, keyed by their names.
+ */
+function parsePropsArray(
+  array: PhpParserTypes.Array,
+  body: PhpParserTypes.Node,
+  options: ParseResourceOptions
+): Record<string, ResourceFieldInfo> {
+  const props: Record<string, ResourceFieldInfo> = {};
+
+  for (const item of array.items) {
+    if (item.kind !== 'entry') continue;
+
+    const entry = item as PhpParserTypes.Entry;
+    const key = entry.key ? getStringValue(entry.key) : null;
+    if (key === null) continue;
+
+    props[key] = inferPropType(entry.value, key, body, options);
+
+    const start = (entry.key as any).loc?.start;
+    if (options.filePath && start) {
+      props[key].loc = { file: options.filePath, line: start.line, column: start.column };
+    }
+  }
+
+  return props;
+}
+
+/**
+ * Parse the props of a page: an array literal, compact('user', ...) whose variables are untyped,
+ * or null when they can't be determined.
+ */
+function parseProps(
+  node: PhpParserTypes.Node | undefined,
+  body: PhpParserTypes.Node,
+  options: ParseResourceOptions
+): Record<string, ResourceFieldInfo> | null {
+  if (!node) return {};
+
+  if (node.kind === 'array') {
+    return parsePropsArray(node as PhpParserTypes.Array, body, options);
+  }
+
+  const call = node as PhpParserTypes.Call;
+  if (node.kind === 'call' && call.what.kind === 'name' && (call.what as PhpParserTypes.Name).name === 'compact') {
+    const names = call.arguments.map(getStringValue).filter((name): name is string => name !== null);
+    return Object.fromEntries(names.map((name) => [name, { type: 'any', optional: false }]));
+  }
+
+  return null;
+}
+
+/**
+ * Parse the pages rendered by the methods of a controller with Inertia::render() or inertia(), and their props.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseInertiaPages(phpContent: string, options: ParseResourceOptions = {}): InertiaPage[] {
+  const ast = parsePhp(phpContent);
+  if (!ast) return [];
+
+  const parseOptions = { ...options, context: getNamespaceContext(ast) };
+  const pages: InertiaPage[] = [];
+
+  for (const method of findAllNodesByKind(ast, 'method') as PhpParserTypes.Method[]) {
+    if (!method.body) continue;
+
+    for (const call of findAllNodesByKind(method.body, 'call')) {
+      const args = getRenderArguments(call);
+      const component = args?.[0] ? getStringValue(args[0]) : null;
+      if (!args || component === null) continue;
+
+      const page: InertiaPage = { component, props: parseProps(args[1], method.body, parseOptions) };
+      const start = (call as any).loc?.start;
+      if (options.filePath && start) {
+        page.loc = { file: options.filePath, line: start.line, column: start.column };
+      }
+      pages.push(page);
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Parse the props shared with every page by the share() method of the HandleInertiaRequests middleware:
+ * an array literal, possibly merged with parent::share($request). Returns null if the class has no share().
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseInertiaSharedProps(
+  phpContent: string,
+  options: ParseResourceOptions = {}
+): Record<string, ResourceFieldInfo> | null {
+  const ast = parsePhp(phpContent);
+  if (!ast) return null;
+
+  const share = (findAllNodesByKind(ast, 'method') as PhpParserTypes.Method[]).find((method) => {
+    const name = typeof method.name === 'string' ? method.name : (method.name as PhpParserTypes.Identifier).name;
+    return name === 'share';
+  });
+  if (!share?.body) return null;
+
+  const returnNode = findNodeByKind(share.body, 'return') as PhpParserTypes.Return | null;
+  if (!returnNode?.expr) return {};
+
+  const parseOptions = { ...options, context: getNamespaceContext(ast) };
+  const expr = returnNode.expr;
+
+  // array_merge(parent::share($request), [...]): the parent's props (errors) are Inertia's own, so only arrays count
+  const arrays =
+    expr.kind === 'call' && (expr as PhpParserTypes.Call).what.kind === 'name'
+      ? (expr as PhpParserTypes.Call).arguments.filter((arg) => arg.kind === 'array')
+      : [expr].filter((node) => node.kind === 'array');
+
+  return Object.assign(
+    {},
+    ...arrays.map((array) => parsePropsArray(array as PhpParserTypes.Array, share.body!, parseOptions))
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Words Laravel (through doctrine/inflector) keeps the same in the singular and the plural.
+ */
+const UNCOUNTABLE_WORDS = [
+  'audio',
+  'cash',
+  'data',
+  'equipment',
+  'feedback',
+  'furniture',
+  'information',
+  'jeans',
+  'media',
+  'metadata',
+  'money',
+  'news',
+  'police',
+  'research',
+  'rice',
+  'series',
+  'sheep',
+  'software',
+  'species',
+  'staff',
+  'traffic',
+];
+
+/**
+ * Irregular plurals, keyed by plural.
+ */
+const IRREGULAR_WORDS: Record<string, string> = {
+  people: 'person',
+  men: 'man',
+  women: 'woman',
+  children: 'child',
+  teeth: 'tooth',
+  feet: 'foot',
+  geese: 'goose',
+  mice: 'mouse',
+  oxen: 'ox',
+  leaves: 'leaf',
+  lives: 'life',
+  knives: 'knife',
+  wives: 'wife',
+  criteria: 'criterion',
+  phenomena: 'phenomenon',
+};
+
+/**
+ * Irregular plurals, keyed by singular.
+ */
+const IRREGULAR_PLURALS: Record<string, string> = Object.fromEntries(
+  Object.entries(IRREGULAR_WORDS).map(([plural, singular]) => [singular, plural])
+);
+
+/**
+ * Suffix rules of singulars, checked in order. A word matching none of them is left unchanged.
+ */
+const SINGULAR_RULES: Array<[RegExp, string]> = [
+  [/(alias|status|campus|bus|virus)(es)?$/i, '$1'],
+  [/(analy|ba|diagno|parenthe|progno|synop|the|cri|ax|test)(sis|ses)$/i, '$1sis'],
+  [/(matr)ices$/i, '$1ix'],
+  [/(vert|ind)ices$/i, '$1ex'],
+  [/(quiz)zes$/i, '$1'],
+  [/^(movie|cookie|tie|pie|zombie)s$/i, '$1'],
+  [/([^aeiouy]|qu)ies$/i, '$1y'],
+  [/(hero|potato|tomato|echo)es$/i, '$1'],
+  [/(ss|sh|ch|x|z)es$/i, '$1'],
+  [/(ss|us|is)$/i, '$1'],
+  [/s$/i, ''],
+];
+
+/**
+ * Suffix rules of plurals, checked in order. The last one matches any word.
+ */
+const PLURAL_RULES: Array<[RegExp, string]> = [
+  [/(quiz)$/i, '$1zes'],
+  [/(matr)ix$/i, '$1ices'],
+  [/(vert|ind)ex$/i, '$1ices'],
+  [/(analy|ba|diagno|parenthe|progno|synop|the|cri|ax|test)sis$/i, '$1ses'],
+  [/(hero|potato|tomato|echo)$/i, '$1es'],
+  [/([^aeiouy]|qu)y$/i, '$1ies'],
+  [/(s|x|z|ch|sh)$/i, '$1es'],
+  [/$/, 's'],
+];
+
+/**
+ * Inflect the last word of a name (the one after the last hyphen, underscore or lowercase-uppercase boundary),
+ * keeping the case of its first letter.
+ */
+function inflectLastWord(
+  name: string,
+  irregular: Record<string, string>,
+  rules: Array<[RegExp, string]>
+): string {
+  const [, prefix, last] = /^(.*?)([A-Z]?[a-z]*)$/.exec(name)!;
+  const lower = last.toLowerCase();
+
+  let inflected = last;
+  if (irregular[lower]) {
+    const word = irregular[lower];
+    inflected = last[0] === last[0]?.toUpperCase() ? word[0].toUpperCase() + word.slice(1) : word;
+  } else if (!UNCOUNTABLE_WORDS.includes(lower)) {
+    const rule = rules.find(([pattern]) => pattern.test(last));
+    if (rule) inflected = last.replace(rule[0], rule[1]);
+  }
+
+  return prefix + inflected;
+}
+
+/**
+ * Singularize a name like Laravel's Str::singular(), e.g. "categories" becomes "category" and "news" stays "news".
+ */
+export function singularize(name: string): string {
+  return inflectLastWord(name, IRREGULAR_WORDS, SINGULAR_RULES);
+}
+
+/**
+ * Pluralize a name like Laravel's Str::plural(), e.g. "order_item" becomes "order_items" and "person" becomes "people".
+ */
+export function pluralize(name: string): string {
+  return inflectLastWord(name, IRREGULAR_PLURALS, PLURAL_RULES);
+}
+
+/**
+ * Convert a class or method name to snake case (OrderItem -> order_item).
+ */
+export function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
@@ -0,0 +1,356 @@
+import { join } from 'node:path';
+import { readFileSafe } from './file.js';
+import type { EnumDefinition, ResourceFieldInfo } from './php-parser.js';
+
+/**
+ * Name of the manifest file written to each package, a snapshot of what it was generated from.
+ */
+export const MANIFEST_FILE = 'manifest.json';
+
+export type ManifestField = {
+  type: string;
+  optional: boolean;
+};
+
+export type ManifestEnum = {
+  backing: string | null;
+  cases: Record<string, string | number>;
+};
+
+/**
+ * Snapshot of the enums, resources (output) and form requests (input) a generation was built from.
+ * Resources without a parseable shape (typed as Record<string, any>) are stored as null.
+ */
+export type Manifest = {
+  enums?: Record<string, ManifestEnum>;
+  resources?: Record<string, Record<string, ManifestField> | null>;
+  requests?: Record<string, Record<string, ManifestField>>;
+};
+
+export type ChangeType =
+  | 'enum-added'
+  | 'enum-removed'
+  | 'case-added'
+  | 'case-removed'
+  | 'case-value-changed'
+  | 'type-added'
+  | 'type-removed'
+  | 'field-added'
+  | 'field-removed'
+  | 'field-required'
+  | 'field-optional'
+  | 'field-type-narrowed'
+  | 'field-type-widened'
+  | 'field-type-changed';
+
+export type ManifestChange = {
+  kind: 'enum' | 'resource' | 'request';
+  /** Enum, resource or request name. */
+  name: string;
+  /** Enum case or field name. */
+  member?: string;
+  change: ChangeType;
+  breaking: boolean;
+  before?: unknown;
+  after?: unknown;
+  message: string;
+};
+
+export type ChangeReport = {
+  breaking: boolean;
+  changes: ManifestChange[];
+};
+
+/**
+ * Create the manifest section for a set of enums.
+ */
+export function createEnumManifest(enums: Record<string, EnumDefinition>): Manifest {
+  const entries = Object.values(enums).map((def): [string, ManifestEnum] => [
+    def.name,
+    { backing: def.backing, cases: Object.fromEntries(def.cases.map((c) => [c.key, c.value])) },
+  ]);
+  return { enums: Object.fromEntries(entries) };
+}
+
+/**
+ * Strip source locations from parsed fields.
+ */
+export function toManifestFields(fields: Record<string, ResourceFieldInfo>): Record<string, ManifestField> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, { type, optional }]) => [key, { type: type || 'any', optional }])
+  );
+}
+
+/**
+ * Serialize a manifest for the generated package.
+ */
+export function formatManifest(manifest: Manifest): string {
+  return JSON.stringify(manifest, null, 2) + '\n';
+}
+
+/**
+ * Read the manifest of a generated package, or null if it has none.
+ * This is a plugin-level function that handles file I/O.
+ */
+export function readManifest(outputDir: string): Manifest | null {
+  const content = readFileSafe(join(outputDir, MANIFEST_FILE));
+  if (!content) return null;
+
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Split a type into its top-level union members, normalizing whitespace.
+ */
+function splitUnion(type: string): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of type) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}>'.includes(char)) {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      members.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  members.push(current);
+
+  return members.map((member) => member.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+/**
+ * Compare two types by their union members: narrowed when the new type accepts a subset of the old one.
+ */
+function compareTypes(before: string, after: string): 'same' | 'narrowed' | 'widened' | 'changed' {
+  const oldMembers = new Set(splitUnion(before));
+  const newMembers = new Set(splitUnion(after));
+  const isAny = (members: Set<string>) => members.has('any') || members.has('unknown');
+
+  const removed = [...oldMembers].some((m) => !newMembers.has(m));
+  const added = [...newMembers].some((m) => !oldMembers.has(m));
+
+  if (!removed && !added) return 'same';
+  if (isAny(newMembers) || !removed) return 'widened';
+  if (isAny(oldMembers) || !added) return 'narrowed';
+  return 'changed';
+}
+
+/**
+ * Compare the fields of a resource or request.
+ * Resources are read by the frontend, so losing or widening a field breaks it. Narrowing a field's type breaks it too,
+ * since code written for the old type (e.g. comparing with a removed enum case or null) no longer type-checks.
+ * Requests are sent by the frontend, so a new required field or a narrowed type breaks it.
+ */
+function compareFields(
+  kind: 'resource' | 'request',
+  name: string,
+  before: Record<string, ManifestField>,
+  after: Record<string, ManifestField>
+): ManifestChange[] {
+  const isInput = kind === 'request';
+  const changes: ManifestChange[] = [];
+
+  for (const [field, info] of Object.entries(before)) {
+    const current = after[field];
+    const member = `${name}.${field}`;
+
+    if (!current) {
+      changes.push({
+        kind,
+        name,
+        member: field,
+        change: 'field-removed',
+        breaking: true,
+        before: info,
+        message: `Field ${member} was removed`,
+      });
+      continue;
+    }
+
+    if (info.optional !== current.optional) {
+      const change = current.optional ? 'field-optional' : 'field-required';
+      changes.push({
+        kind,
+        name,
+        member: field,
+        change,
+        breaking: isInput ? !current.optional : current.optional,
+        before: info,
+        after: current,
+        message: `Field ${member} became ${current.optional ? 'optional' : 'required'}`,
+      });
+    }
+
+    const comparison = compareTypes(info.type, current.type);
+    if (comparison !== 'same') {
+      changes.push({
+        kind,
+        name,
+        member: field,
+        change: `field-type-${comparison}`,
+        breaking: comparison !== 'widened' || !isInput,
+        before: info,
+        after: current,
+        message: `Field ${member} type ${comparison} from ${info.type} to ${current.type}`,
+      });
+    }
+  }
+
+  for (const [field, info] of Object.entries(after)) {
+    if (before[field]) continue;
+    changes.push({
+      kind,
+      name,
+      member: field,
+      change: 'field-added',
+      breaking: isInput && !info.optional,
+      after: info,
+      message: `${info.optional ? 'Optional' : 'Required'} field ${name}.${field} was added`,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the cases of an enum. Removing a case or changing its value breaks code using it.
+ */
+function compareEnums(name: string, before: ManifestEnum, after: ManifestEnum): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+
+  for (const [key, value] of Object.entries(before.cases)) {
+    const member = `${name}::${key}`;
+
+    if (!(key in after.cases)) {
+      changes.push({
+        kind: 'enum',
+        name,
+        member: key,
+        change: 'case-removed',
+        breaking: true,
+        before: value,
+        message: `Case ${member} was removed`,
+      });
+    } else if (after.cases[key] !== value) {
+      changes.push({
+        kind: 'enum',
+        name,
+        member: key,
+        change: 'case-value-changed',
+        breaking: true,
+        before: value,
+        after: after.cases[key],
+        message: `Case ${member} changed from ${JSON.stringify(value)} to ${JSON.stringify(after.cases[key])}`,
+      });
+    }
+  }
+
+  for (const [key, value] of Object.entries(after.cases)) {
+    if (key in before.cases) continue;
+    changes.push({
+      kind: 'enum',
+      name,
+      member: key,
+      change: 'case-added',
+      breaking: false,
+      after: value,
+      message: `Case ${name}::${key} was added`,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare a stored manifest with the current one and classify every change as breaking or not.
+ * Sections missing from either manifest (e.g. a package never generated) are not compared.
+ */
+export function compareManifests(before: Manifest, after: Manifest): ChangeReport {
+  const changes: ManifestChange[] = [];
+
+  if (before.enums && after.enums) {
+    for (const [name, def] of Object.entries(before.enums)) {
+      if (after.enums[name]) {
+        changes.push(...compareEnums(name, def, after.enums[name]));
+      } else {
+        changes.push({
+          kind: 'enum',
+          name,
+          change: 'enum-removed',
+          breaking: true,
+          before: def,
+          message: `Enum ${name} was removed`,
+        });
+      }
+    }
+    for (const [name, def] of Object.entries(after.enums)) {
+      if (before.enums[name]) continue;
+      changes.push({
+        kind: 'enum',
+        name,
+        change: 'enum-added',
+        breaking: false,
+        after: def,
+        message: `Enum ${name} was added`,
+      });
+    }
+  }
+
+  for (const kind of ['resource', 'request'] as const) {
+    const label = kind === 'resource' ? 'Resource' : 'Request';
+    const oldTypes: Record<string, Record<string, ManifestField> | null> | undefined =
+      kind === 'resource' ? before.resources : before.requests;
+    const newTypes: Record<string, Record<string, ManifestField> | null> | undefined =
+      kind === 'resource' ? after.resources : after.requests;
+    if (!oldTypes || !newTypes) continue;
+
+    for (const [name, fields] of Object.entries(oldTypes)) {
+      if (!(name in newTypes)) {
+        changes.push({
+          kind,
+          name,
+          change: 'type-removed',
+          breaking: true,
+          before: fields,
+          message: `${label} ${name} was removed`,
+        });
+        continue;
+      }
+
+      // Untyped resources accept anything, so there's nothing to compare
+      const current = newTypes[name];
+      if (fields && current) {
+        changes.push(...compareFields(kind, name, fields, current));
+      }
+    }
+
+    for (const [name, fields] of Object.entries(newTypes)) {
+      if (name in oldTypes) continue;
+      changes.push({
+        kind,
+        name,
+        change: 'type-added',
+        breaking: false,
+        after: fields,
+        message: `${label} ${name} was added`,
+      });
+    }
+  }
+
+  return { breaking: changes.some((c) => c.breaking), changes };
+}
@@ -0,0 +1,145 @@
+import { join, posix } from 'node:path';
+import { cleanOutputDir, writeFileEnsureDir } from './file.js';
+
+/**
+ * Generated files of a package, keyed by path relative to the package root (e.g. "Admin/UserResource.d.ts").
+ */
+export type GeneratedFiles = Record<string, string>;
+
+/**
+ * A generated package and where it is written.
+ */
+export type GeneratedPackage = {
+  packageName: string;
+  outputDir: string;
+  files: GeneratedFiles;
+};
+
+export type PackageModule = {
+  /** Name exported from the root barrel (collision-free across the package). */
+  name: string;
+  /** Name exported from the module's directory barrel (unique within that directory). */
+  shortName: string;
+  /** Module path relative to the package root, without extension (e.g. "Admin/UserResource"). */
+  path: string;
+  /** Exports types only, so it's left out of the runtime barrels. */
+  typeOnly?: boolean;
+};
+
+/**
+ * Format a single barrel line, e.g. `export { A as B } from './A.js';`.
+ */
+export type BarrelLineFormatter = (localName: string, exportedName: string, specifier: string) => string;
+
+/**
+ * Format an export specifier, aliasing only when the names differ.
+ */
+export function formatExportSpecifier(localName: string, exportedName: string): string {
+  return localName === exportedName ? localName : `${localName} as ${exportedName}`;
+}
+
+/**
+ * Get the output path for a PHP file relative to its source directory,
+ * mirroring its folder and naming the file after its generated type.
+ */
+export function getModulePath(phpFile: string, name: string): string {
+  const dir = posix.dirname(phpFile.replace(/\\/g, '/'));
+  return dir === '.' ? name : `${dir}/${name}`;
+}
+
+/**
+ * Get the specifier importing a module from another, both relative to the package root (Admin/UserResource -> ../pagination.js).
+ */
+export function getModuleSpecifier(fromModule: string, toModule: string): string {
+  const specifier = posix.relative(posix.dirname(fromModule), toModule);
+  return `${specifier.startsWith('.') ? specifier : `./${specifier}`}.js`;
+}
+
+/**
+ * Add the root barrel plus one barrel per subdirectory, so `pkg/Admin` exports the modules in Admin/.
+ * Returns the subdirectories that received a barrel.
+ */
+export function addBarrels(
+  files: GeneratedFiles,
+  modules: PackageModule[],
+  formatDts: BarrelLineFormatter,
+  formatJs: BarrelLineFormatter
+): string[] {
+  const write = (dir: string, lines: { dts: string[]; js: string[] }) => {
+    files[posix.join(dir, 'index.d.ts')] = lines.dts.join('\n') + '\n';
+    files[posix.join(dir, 'index.js')] = lines.js.join('\n') + '\n';
+  };
+
+  // Root barrel exports every module under its collision-free name
+  write('.', {
+    dts: modules.map((m) => formatDts(m.name, m.name, `./${m.path}.js`)),
+    js: modules.filter((m) => !m.typeOnly).map((m) => formatJs(m.name, m.name, `./${m.path}.js`)),
+  });
+
+  // Directory barrels export their direct modules under their short names
+  const byDir: Record<string, PackageModule[]> = {};
+  for (const module of modules) {
+    const dir = posix.dirname(module.path);
+    if (dir !== '.') {
+      (byDir[dir] ??= []).push(module);
+    }
+  }
+
+  for (const [dir, dirModules] of Object.entries(byDir)) {
+    write(dir, {
+      dts: dirModules.map((m) => formatDts(m.name, m.shortName, `./${posix.basename(m.path)}.js`)),
+      js: dirModules
+        .filter((m) => !m.typeOnly)
+        .map((m) => formatJs(m.name, m.shortName, `./${posix.basename(m.path)}.js`)),
+    });
+  }
+
+  return Object.keys(byDir).sort();
+}
+
+/**
+ * Add the generated package's package.json, with subpath exports for directory barrels
+ * and the peer dependencies its modules import.
+ */
+export function addPackageJson(
+  files: GeneratedFiles,
+  packageName: string,
+  subpaths: string[] = [],
+  peerDependencies: Record<string, string> = {}
+): void {
+  const pkg: Record<string, unknown> = {
+    name: packageName,
+    version: '0.0.0',
+    main: 'index.js',
+    types: 'index.d.ts',
+  };
+
+  if (Object.keys(peerDependencies).length > 0) {
+    pkg.peerDependencies = peerDependencies;
+  }
+
+  if (subpaths.length > 0) {
+    const exports: Record<string, unknown> = {
+      '.': { types: './index.d.ts', default: './index.js' },
+    };
+    for (const subpath of subpaths) {
+      exports[`./${subpath}`] = { types: `./${subpath}/index.d.ts`, default: `./${subpath}/index.js` };
+    }
+    exports['./*'] = './*';
+    pkg.exports = exports;
+  }
+
+  files['package.json'] = JSON.stringify(pkg, null, 2);
+}
+
+/**
+ * Replace the previously generated files in an output directory with a fresh set.
+ */
+export function writeGeneratedFiles(outputDir: string, files: GeneratedFiles): void {
+  // Clean existing generated files
+  cleanOutputDir(outputDir);
+
+  for (const [path, content] of Object.entries(files)) {
+    writeFileEnsureDir(join(outputDir, path), content);
+  }
+}
@@ -1,9 +1,12 @@
 import { existsSync } from 'node:fs';
 import { createRequire } from 'node:module';
-import { join } from 'node:path';
+import { join, relative } from 'node:path';
 import type * as PhpParserTypes from 'php-parser';
+import type { ColumnDefinition, DatabaseSchema } from './database-schema.js';
 import { readFileSafe } from './file.js';
-import { mapPhpTypeToTs } from './type-mapper.js';
+import { pluralize, toSnakeCase } from './inflector.js';
+import type { SymbolIndex } from './symbol-index.js';
+import { getEnumValueType, mapDocTypeToTs, mapPhpTypeToTs } from './type-mapper.js';
 
 // Import php-parser (CommonJS module with constructor)
 const require = createRequire(import.meta.url);
@@ -26,43 +29,111 @@ export type SourceLocation = {
   column?: number;
 };
 
+/**
+ * A scalar literal returned by an enum method or assigned to an enum constant.
+ */
+export type EnumScalar = string | number | boolean | null;
+
 export type EnumCase = {
   key: string;
   value: string | number;
   label?: string;
+  /** Translation key of the label, when label() returns __('enums.status.active'), trans() or Lang::get(). */
+  labelKey?: string;
+  /** Translated labels keyed by locale, resolved from the lang files. */
+  labels?: Record<string, string>;
+  /** Values of the enum's metadata methods for this case, keyed by method name (e.g. { color: 'red' }). */
+  properties?: Record<string, EnumScalar>;
   loc?: SourceLocation;
 };
 
+/**
+ * A constant of an enum: a reference to one of its cases (const DEFAULT = self::Pending) or a scalar value.
+ */
+export type EnumConstant = {
+  name: string;
+  case?: string;
+  value?: EnumScalar;
+};
+
+/**
+ * How an enum is generated: a TypeScript enum, a const object with a union type of its values, or a type-only union.
+ */
+export type EnumStyle = 'enum' | 'const' | 'union';
+
 export type EnumDefinition = {
   name: string;
+  fqcn?: string;
   backing: string | null;
   cases: EnumCase[];
+  /** Style chosen with a `@ferry-style` docblock tag on the enum, overriding the configured one. */
+  style?: EnumStyle;
+  constants?: EnumConstant[];
   loc?: SourceLocation;
 };
 
+/**
+ * Called with the file and error when a PHP file can't be parsed.
+ */
+export type ParseErrorHandler = (file: string, error: unknown) => void;
+
+/**
+ * Strip the <?php tag if present (parseEval expects raw PHP code).
+ */
+function stripOpenTag(content: string): string {
+  const code = content.trimStart();
+  if (code.startsWith('<?php')) {
+    return code.slice(5);
+  } else if (code.startsWith('<?')) {
+    return code.slice(2);
+  }
+  return code;
+}
+
 /**
  * Parse PHP content and return the AST.
  * Uses parseEval which doesn't require <?php tags or filenames.
  */
-function parsePhp(content: string): PhpParserTypes.Program | null {
+export function parsePhp(content: string): PhpParserTypes.Program | null {
   try {
-    // Strip <?php tag if present (parseEval expects raw PHP code)
-    let code = content.trimStart();
-    if (code.startsWith('<?php')) {
-      code = code.slice(5);
-    } else if (code.startsWith('<?')) {
-      code = code.slice(2);
-    }
-    return parser.parseEval(code);
+    return parser.parseEval(stripOpenTag(content));
   } catch {
     return null;
   }
 }
 
+/**
+ * Get the syntax error in PHP content, or null if it parses.
+ */
+export function getPhpSyntaxError(content: string): Error | null {
+  try {
+    parser.parseEval(stripOpenTag(content));
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e : new Error(String(e));
+  }
+}
+
+/**
+ * Report a PHP file that couldn't be parsed, warning on the console when no handler is given.
+ */
+export function reportParseError(
+  onError: ParseErrorHandler | undefined,
+  kind: string,
+  file: string,
+  error: unknown
+): void {
+  if (onError) {
+    onError(file, error);
+  } else {
+    console.warn(`Failed to parse ${kind} file: ${file}`, error);
+  }
+}
+
 /**
  * Walk all child nodes in an AST node.
  */
-function walkChildren(node: PhpParserTypes.Node, callback: (child: PhpParserTypes.Node) => boolean): boolean {
+export function walkChildren(node: PhpParserTypes.Node, callback: (child: PhpParserTypes.Node) => boolean): boolean {
   const obj = node as any;
   for (const key of Object.keys(obj)) {
     const val = obj[key];
@@ -82,7 +153,7 @@ function walkChildren(node: PhpParserTypes.Node, callback: (child: PhpParserType
 /**
  * Find a node by kind in the AST.
  */
-function findNodeByKind(ast: PhpParserTypes.Node, kind: string): PhpParserTypes.Node | null {
+export function findNodeByKind(ast: PhpParserTypes.Node, kind: string): PhpParserTypes.Node | null {
   if (ast.kind === kind) return ast;
 
   let result: PhpParserTypes.Node | null = null;
@@ -101,7 +172,7 @@ function findNodeByKind(ast: PhpParserTypes.Node, kind: string): PhpParserTypes.
 /**
  * Find all nodes of a specific kind in the AST.
  */
-function findAllNodesByKind(ast: PhpParserTypes.Node, kind: string): PhpParserTypes.Node[] {
+export function findAllNodesByKind(ast: PhpParserTypes.Node, kind: string): PhpParserTypes.Node[] {
   const results: PhpParserTypes.Node[] = [];
 
   function walk(node: PhpParserTypes.Node) {
@@ -118,10 +189,36 @@ function findAllNodesByKind(ast: PhpParserTypes.Node, kind: string): PhpParserTy
   return results;
 }
 
+/**
+ * Nodes declaring their own function body, whose return statements aren't those of the enclosing function.
+ */
+const NESTED_FUNCTION_KINDS = ['closure', 'arrowfunc', 'function', 'class'];
+
+/**
+ * Find the return statements of a function body, leaving out those of the closures, arrow functions
+ * and anonymous classes declared in it (e.g. DB::transaction(fn () => ...)).
+ */
+export function findReturnStatements(body: PhpParserTypes.Node): PhpParserTypes.Return[] {
+  const results: PhpParserTypes.Return[] = [];
+
+  function walk(node: PhpParserTypes.Node) {
+    if (node.kind === 'return') {
+      results.push(node as PhpParserTypes.Return);
+    }
+    walkChildren(node, (child) => {
+      if (!NESTED_FUNCTION_KINDS.includes(child.kind)) walk(child);
+      return false;
+    });
+  }
+
+  walk(body);
+  return results;
+}
+
 /**
  * Extract string value from a PHP literal node.
  */
-function getStringValue(node: PhpParserTypes.Node): string | null {
+export function getStringValue(node: PhpParserTypes.Node): string | null {
   if (node.kind === 'string') {
     return (node as PhpParserTypes.String).value;
   }
@@ -131,11 +228,248 @@ function getStringValue(node: PhpParserTypes.Node): string | null {
   return null;
 }
 
+export type NamespaceContext = {
+  namespace: string;
+  /** Imported class names keyed by their alias. */
+  uses: Record<string, string>;
+};
+
+/**
+ * Read the namespace and `use` imports of a parsed file.
+ */
+export function getNamespaceContext(ast: PhpParserTypes.Node): NamespaceContext {
+  const namespaceNode = findNodeByKind(ast, 'namespace') as PhpParserTypes.Namespace | null;
+  const namespace = namespaceNode ? namespaceNode.name.replace(/^\\+/, '') : '';
+  const uses: Record<string, string> = {};
+
+  for (const group of findAllNodesByKind(ast, 'usegroup') as PhpParserTypes.UseGroup[]) {
+    // Skip `use function` and `use const` imports
+    if (group.type) continue;
+
+    const prefix = group.name ? group.name.replace(/^\\+/, '') + '\\' : '';
+    // Types declare `item`, but the parser produces `items`
+    for (const item of (group as any).items as PhpParserTypes.UseItem[]) {
+      if (item.type) continue;
+
+      const fqcn = prefix + item.name.replace(/^\\+/, '');
+      const alias = item.alias ? item.alias.name : fqcn.split('\\').pop()!;
+      uses[alias] = fqcn;
+    }
+  }
+
+  return { namespace, uses };
+}
+
+/**
+ * Parse the namespace and `use` imports from PHP content.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseNamespaceContext(phpContent: string): NamespaceContext {
+  const ast = parsePhp(phpContent);
+  return ast ? getNamespaceContext(ast) : { namespace: '', uses: {} };
+}
+
+/**
+ * Resolve a class name as written in source to its fully-qualified name (without a leading backslash),
+ * following PHP's name resolution rules.
+ */
+export function resolveClassName(name: string, context: NamespaceContext): string {
+  if (name.startsWith('\\')) {
+    return name.replace(/^\\+/, '');
+  }
+
+  if (['self', 'static', 'parent'].includes(name.toLowerCase())) {
+    return name;
+  }
+
+  const [first, ...rest] = name.split('\\');
+  const alias = Object.keys(context.uses).find((a) => a.toLowerCase() === first.toLowerCase());
+  if (alias) {
+    return [context.uses[alias], ...rest].join('\\');
+  }
+
+  return context.namespace ? `${context.namespace}\\${name}` : name;
+}
+
+/**
+ * Get the fully-qualified name of the first class, enum, interface or trait declared in PHP content.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function getDeclaredClassName(phpContent: string): string | null {
+  const ast = parsePhp(phpContent);
+  if (!ast) return null;
+
+  for (const kind of ['class', 'enum', 'interface', 'trait']) {
+    const node = findNodeByKind(ast, kind) as PhpParserTypes.Declaration | null;
+    if (!node || !node.name) continue;
+
+    const name = typeof node.name === 'string' ? node.name : (node.name as PhpParserTypes.Identifier).name;
+    const { namespace } = getNamespaceContext(ast);
+    return namespace ? `${namespace}\\${name}` : name;
+  }
+
+  return null;
+}
+
+/**
+ * Extract the class name from a Foo::class constant lookup.
+ * When a namespace context is given, the name is resolved to its fully-qualified form.
+ */
+export function getClassConstantName(node: PhpParserTypes.Node, context?: NamespaceContext): string | null {
+  if (node.kind !== 'staticlookup') return null;
+
+  const lookup = node as PhpParserTypes.StaticLookup;
+  const offset = lookup.offset;
+  if (!offset || offset.kind !== 'identifier' || (offset as PhpParserTypes.Identifier).name !== 'class') {
+    return null;
+  }
+
+  const what = lookup.what;
+  if (what.kind !== 'name') return null;
+
+  const name = (what as PhpParserTypes.Name).name;
+  return context ? resolveClassName(name, context) : name.replace(/^\\+/, '');
+}
+
+/**
+ * Get the value of a scalar literal (a string, number, boolean or null), or undefined for any other expression.
+ */
+function getScalarValue(node: PhpParserTypes.Node): EnumScalar | undefined {
+  switch (node.kind) {
+    case 'string':
+      return (node as PhpParserTypes.String).value;
+    case 'number':
+      return Number((node as PhpParserTypes.Number).value);
+    case 'boolean':
+      return (node as PhpParserTypes.Boolean).value;
+    case 'nullkeyword':
+      return null;
+    case 'unary': {
+      // Negative numbers are parsed as a minus applied to the number
+      const unary = node as PhpParserTypes.Unary;
+      const value = unary.type === '-' ? getScalarValue(unary.what) : undefined;
+      return typeof value === 'number' ? -value : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the case referenced by self::Case, static::Case or Enum::Case, or null if the node isn't a case of the enum.
+ */
+function getEnumCaseReference(node: PhpParserTypes.Node, enumName: string, keys: string[]): string | null {
+  if (node.kind !== 'staticlookup') return null;
+
+  const lookup = node as PhpParserTypes.StaticLookup;
+  const what = lookup.what as PhpParserTypes.Node;
+  const isEnum =
+    what.kind === 'selfreference' ||
+    what.kind === 'staticreference' ||
+    (what.kind === 'name' && (what as PhpParserTypes.Name).name.split('\\').pop() === enumName);
+  const caseName = lookup.offset.kind === 'identifier' ? (lookup.offset as PhpParserTypes.Identifier).name : null;
+
+  return isEnum && caseName && keys.includes(caseName) ? caseName : null;
+}
+
+/**
+ * Get the translation key of a __('key'), trans('key') or Lang::get('key') call, or null for any other expression.
+ */
+function getTranslationKey(node: PhpParserTypes.Node): string | null {
+  if (node.kind !== 'call') return null;
+
+  const call = node as PhpParserTypes.Call;
+  const what = call.what as PhpParserTypes.Node;
+  let isTranslation = false;
+  if (what.kind === 'name') {
+    isTranslation = ['__', 'trans'].includes((what as PhpParserTypes.Name).name.replace(/^\\+/, ''));
+  } else if (what.kind === 'staticlookup') {
+    const lookup = what as unknown as PhpParserTypes.StaticLookup;
+    isTranslation =
+      lookup.what.kind === 'name' &&
+      (lookup.what as PhpParserTypes.Name).name.split('\\').pop() === 'Lang' &&
+      lookup.offset.kind === 'identifier' &&
+      (lookup.offset as PhpParserTypes.Identifier).name === 'get';
+  }
+
+  const key = isTranslation && call.arguments[0] ? getScalarValue(call.arguments[0]) : undefined;
+  return typeof key === 'string' ? key : null;
+}
+
+/**
+ * Get the label of a label() arm: a string literal or a translation key, or undefined for any other expression.
+ */
+function getLabelValue(node: PhpParserTypes.Node): { label: string } | { labelKey: string } | undefined {
+  const value = getScalarValue(node);
+  if (typeof value === 'string') return { label: value };
+
+  const labelKey = getTranslationKey(node);
+  return labelKey !== null ? { labelKey } : undefined;
+}
+
+/**
+ * Get the value a zero-argument enum method returns for each case, keyed by case name:
+ * a `match ($this)` whose arms return values read by getValue, including grouped conditions and a `default` arm,
+ * or a single value returned for every case.
+ * Cases not matched by any arm are left out. Returns null if the method returns anything else.
+ */
+function getEnumMethodValues<T>(
+  method: PhpParserTypes.Method,
+  enumName: string,
+  keys: string[],
+  getValue: (node: PhpParserTypes.Node) => T | undefined
+): Record<string, T> | null {
+  if (!method.body) return null;
+
+  const returnNode = findNodeByKind(method.body, 'return') as PhpParserTypes.Return | null;
+  const expression = returnNode?.expr ?? null;
+  const constant = expression ? getValue(expression) : undefined;
+  if (constant !== undefined) {
+    return Object.fromEntries(keys.map((key) => [key, constant]));
+  }
+
+  const matchNode =
+    expression?.kind === 'match'
+      ? (expression as PhpParserTypes.Match)
+      : (findNodeByKind(method.body, 'match') as PhpParserTypes.Match | null);
+  if (!matchNode?.arms) return null;
+
+  const values: Record<string, T> = {};
+  let fallback: T | undefined;
+
+  for (const arm of matchNode.arms) {
+    const value = getValue(arm.body);
+    if (value === undefined) return null;
+
+    if (!arm.conds) {
+      fallback = value;
+      continue;
+    }
+    for (const cond of arm.conds) {
+      const key = getEnumCaseReference(cond, enumName, keys);
+      // The first matching arm wins, like PHP's match
+      if (key && !(key in values)) values[key] = value;
+    }
+  }
+
+  if (fallback !== undefined) {
+    for (const key of keys) {
+      if (!(key in values)) values[key] = fallback;
+    }
+  }
+
+  return values;
+}
+
 /**
  * Parse PHP enum content and extract its definition.
+ * Besides label(), the given zero-argument methods (e.g. color()) are read as properties of each case.
  * This is a pure function that takes PHP source code as input.
  */
-export function parseEnumContent(phpContent: string, filePath?: string): EnumDefinition | null {
+export function parseEnumContent(
+  phpContent: string,
+  filePath?: string,
+  methodNames: string[] = []
+): EnumDefinition | null {
   const ast = parsePhp(phpContent);
   if (!ast) return null;
 
@@ -144,6 +478,8 @@ export function parseEnumContent(phpContent: string, filePath?: string): EnumDef
   if (!enumNode) return null;
 
   const name = typeof enumNode.name === 'string' ? enumNode.name : (enumNode.name as PhpParserTypes.Identifier).name;
+  const { namespace } = getNamespaceContext(ast);
+  const fqcn = namespace ? `${namespace}\\${name}` : name;
   const backing = enumNode.valueType ? (enumNode.valueType as PhpParserTypes.Identifier).name.toLowerCase() : null;
 
   // Capture enum location
@@ -189,54 +525,97 @@ export function parseEnumContent(phpContent: string, filePath?: string): EnumDef
     cases.push({ key, value, loc: caseLoc });
   }
 
-  // Parse label() method if it exists
+  // label() and the requested metadata methods become properties of each case
   const methods = findAllNodesByKind(enumNode, 'method') as PhpParserTypes.Method[];
-  const labelMethod = methods.find((m) => {
-    const methodName = typeof m.name === 'string' ? m.name : (m.name as PhpParserTypes.Identifier).name;
-    return methodName === 'label';
-  });
+  const keys = cases.map((c) => c.key);
+
+  const findMethod = (methodName: string) =>
+    methods.find(
+      (m) =>
+        (typeof m.name === 'string' ? m.name : (m.name as PhpParserTypes.Identifier).name) === methodName &&
+        m.arguments.length === 0
+    );
+
+  // Labels are string literals or translation keys, resolved from the lang files when generating
+  const labelMethod = findMethod('label');
+  const labels = labelMethod ? getEnumMethodValues(labelMethod, name, keys, getLabelValue) : null;
+  for (const enumCase of cases) {
+    Object.assign(enumCase, labels?.[enumCase.key]);
+  }
 
-  if (labelMethod && labelMethod.body) {
-    // Find match expression in the method
-    const matchNode = findNodeByKind(labelMethod.body, 'match') as PhpParserTypes.Match | null;
-    if (matchNode && matchNode.arms) {
-      for (const arm of matchNode.arms) {
-        if (arm.conds) {
-          for (const cond of arm.conds) {
-            // Handle self::CASE_NAME
-            if (cond.kind === 'staticlookup') {
-              const lookup = cond as PhpParserTypes.StaticLookup;
-              const offset = lookup.offset;
-              const caseName =
-                typeof offset === 'string'
-                  ? offset
-                  : offset.kind === 'identifier'
-                    ? (offset as PhpParserTypes.Identifier).name
-                    : null;
-
-              if (caseName) {
-                const labelValue = getStringValue(arm.body);
-                if (labelValue !== null) {
-                  const enumCase = cases.find((c) => c.key === caseName);
-                  if (enumCase) {
-                    enumCase.label = labelValue;
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
+  for (const methodName of methodNames) {
+    const method = findMethod(methodName);
+    const values = method ? getEnumMethodValues(method, name, keys, getScalarValue) : null;
+    if (!values) continue;
+
+    for (const enumCase of cases) {
+      enumCase.properties = { ...enumCase.properties, [methodName]: values[enumCase.key] ?? null };
+    }
+  }
+
+  const constants: EnumConstant[] = [];
+  for (const node of findAllNodesByKind(enumNode, 'classconstant') as PhpParserTypes.ClassConstant[]) {
+    for (const constant of node.constants) {
+      const constantName =
+        typeof constant.name === 'string' ? constant.name : (constant.name as PhpParserTypes.Identifier).name;
+      const caseKey = getEnumCaseReference(constant.value as PhpParserTypes.Node, name, keys);
+      const value = getScalarValue(constant.value as PhpParserTypes.Node);
+      if (caseKey) constants.push({ name: constantName, case: caseKey });
+      else if (value !== undefined) constants.push({ name: constantName, value });
     }
   }
 
-  return { name, backing, cases, loc: enumLoc };
+  // A `@ferry-style const` docblock tag picks the style of this enum
+  let style: EnumStyle | undefined;
+  for (const comment of enumNode.leadingComments ?? []) {
+    const match = comment.value.match(/@ferry-style\s+(enum|const|union)\b/);
+    if (match) style = match[1] as EnumStyle;
+  }
+
+  return { name, fqcn, backing, cases, style, ...(constants.length > 0 ? { constants } : {}), loc: enumLoc };
+}
+
+/**
+ * Get a cast as a string: 'decimal:2', Foo::class, or the 'Class:argument' strings Laravel builds with
+ * AsEnumCollection::of(Role::class), AsCollection::using(...) or AsEnumCollection::class.':'.Role::class.
+ */
+function getCastValue(node: PhpParserTypes.Node, context?: NamespaceContext): string | null {
+  if (node.kind === 'string' || node.kind === 'number') {
+    return getStringValue(node);
+  }
+
+  if (node.kind === 'staticlookup') {
+    // Handle Foo::class
+    return getClassConstantName(node, context);
+  }
+
+  if (node.kind === 'bin' && (node as PhpParserTypes.Bin).type === '.') {
+    const bin = node as PhpParserTypes.Bin;
+    const left = getCastValue(bin.left, context);
+    const right = getCastValue(bin.right, context);
+    return left !== null && right !== null ? left + right : null;
+  }
+
+  if (node.kind === 'call' && (node as PhpParserTypes.Call).what.kind === 'staticlookup') {
+    const call = node as PhpParserTypes.Call;
+    const lookup = call.what as unknown as PhpParserTypes.StaticLookup;
+    const method = lookup.offset.kind === 'identifier' ? (lookup.offset as PhpParserTypes.Identifier).name : null;
+    if ((method !== 'of' && method !== 'using') || lookup.what.kind !== 'name') return null;
+
+    const name = (lookup.what as PhpParserTypes.Name).name;
+    const castClass = context ? resolveClassName(name, context) : name.replace(/^\\+/, '');
+    const args = call.arguments.map((arg) => getCastValue(arg, context));
+    return args.every((arg) => arg !== null) ? `${castClass}:${args.join(',')}` : castClass;
+  }
+
+  return null;
 }
 
 /**
  * Extract key-value pairs from a PHP array node.
+ * Foo::class values are resolved to fully-qualified names when a namespace context is given.
  */
-function extractArrayPairs(arrayNode: PhpParserTypes.Array): Record<string, string> {
+function extractArrayPairs(arrayNode: PhpParserTypes.Array, context?: NamespaceContext): Record<string, string> {
   const pairs: Record<string, string> = {};
 
   for (const item of arrayNode.items) {
@@ -245,27 +624,7 @@ function extractArrayPairs(arrayNode: PhpParserTypes.Array): Record<string, stri
       const key = entry.key ? getStringValue(entry.key) : null;
       if (!key) continue;
 
-      const value = entry.value;
-      let strValue: string | null = null;
-
-      if (value.kind === 'string' || value.kind === 'number') {
-        strValue = getStringValue(value);
-      } else if (value.kind === 'staticlookup') {
-        // Handle Foo::class
-        const lookup = value as PhpParserTypes.StaticLookup;
-        const offset = lookup.offset;
-        if (
-          offset &&
-          offset.kind === 'identifier' &&
-          (offset as PhpParserTypes.Identifier).name === 'class'
-        ) {
-          const what = lookup.what;
-          if (what.kind === 'name') {
-            strValue = (what as PhpParserTypes.Name).name.replace(/^\\+/, '');
-          }
-        }
-      }
-
+      const strValue = getCastValue(entry.value, context);
       if (strValue !== null) {
         pairs[key] = strValue;
       }
@@ -275,14 +634,21 @@ function extractArrayPairs(arrayNode: PhpParserTypes.Array): Record<string, stri
   return pairs;
 }
 
+export type ParseModelCastsOptions = {
+  /** Resolve Foo::class casts to fully-qualified class names using the file's namespace and imports. */
+  resolveClassNames?: boolean;
+};
+
 /**
  * Parse model casts from PHP model content.
  * This is a pure function that takes PHP source code as input.
  */
-export function parseModelCasts(phpContent: string): Record<string, string> {
+export function parseModelCasts(phpContent: string, options: ParseModelCastsOptions = {}): Record<string, string> {
   const ast = parsePhp(phpContent);
   if (!ast) return {};
 
+  const context = options.resolveClassNames ? getNamespaceContext(ast) : undefined;
+
   // Find the class
   const classNode = findNodeByKind(ast, 'class') as PhpParserTypes.Class | null;
   if (!classNode) return {};
@@ -298,7 +664,7 @@ export function parseModelCasts(phpContent: string): Record<string, string> {
           ? prop.name
           : (prop.name as unknown as PhpParserTypes.Identifier).name;
       if (propName === 'casts' && prop.value && prop.value.kind === 'array') {
-        return extractArrayPairs(prop.value as PhpParserTypes.Array);
+        return extractArrayPairs(prop.value as PhpParserTypes.Array, context);
       }
     }
   }
@@ -314,7 +680,7 @@ export function parseModelCasts(phpContent: string): Record<string, string> {
     // Find return statement with array
     const returnNode = findNodeByKind(castsMethod.body, 'return') as PhpParserTypes.Return | null;
     if (returnNode && returnNode.expr && returnNode.expr.kind === 'array') {
-      return extractArrayPairs(returnNode.expr as PhpParserTypes.Array);
+      return extractArrayPairs(returnNode.expr as PhpParserTypes.Array, context);
     }
   }
 
@@ -322,87 +688,310 @@ export function parseModelCasts(phpContent: string): Record<string, string> {
 }
 
 /**
- * Extract docblock array shape from PHP content.
- * This is a pure function that takes PHP source code as input.
+ * Read the type at the start of a docblock tag, up to the first whitespace outside of generics and shapes.
  */
-export function extractDocblockArrayShape(phpContent: string): Record<string, string> | null {
-  const match = phpContent.match(/@return\s+array\s*\{/s);
-  if (!match) return null;
+function readDocblockType(text: string): string {
+  let depth = 0;
+  let end = 0;
 
-  const startPos = match.index!;
-  const openBracePos = phpContent.indexOf('{', startPos);
-  if (openBracePos === -1) return null;
+  for (; end < text.length; end++) {
+    const ch = text[end];
+    if ('<{('.includes(ch)) depth++;
+    else if ('>})'.includes(ch)) depth--;
+    else if (/\s/.test(ch) && depth === 0) break;
+  }
 
-  // Find matching closing brace
-  let depth = 0;
-  let pos = openBracePos;
-  let endPos: number | null = null;
+  return text.slice(0, end).trim();
+}
 
-  while (pos < phpContent.length) {
-    const ch = phpContent[pos];
-    if (ch === '{') depth++;
-    else if (ch === '}') {
-      depth--;
-      if (depth === 0) {
-        endPos = pos;
-        break;
-      }
-    }
-    pos++;
+/**
+ * Get the type of the `@return` tag in the docblock of a node.
+ */
+function getDocblockReturnType(node: PhpParserTypes.Node): string | null {
+  for (const comment of node.leadingComments ?? []) {
+    const match = comment.value.match(/@return\s+(.+)/);
+    if (match) return readDocblockType(match[1]) || null;
   }
+  return null;
+}
 
-  if (endPos === null) return null;
+/**
+ * Format a type declaration (int, ?Carbon, int|string) in docblock notation.
+ */
+function formatTypeDeclaration(type: PhpParserTypes.Node | null | undefined, nullable: boolean): string | null {
+  if (!type) return null;
 
-  // Extract content and strip docblock asterisks from multiline format
-  let inside = phpContent.slice(openBracePos + 1, endPos);
-  inside = inside.replace(/^\s*\*\s?/gm, '');
+  const members =
+    type.kind === 'uniontype'
+      ? (type as PhpParserTypes.UnionType).types.map((member) => (member as PhpParserTypes.Name).name)
+      : [(type as PhpParserTypes.Name).name];
+  if (nullable) members.push('null');
 
-  const pairs: Record<string, string> = {};
-  let i = 0;
+  return members.join('|');
+}
 
-  while (i < inside.length) {
-    // Skip whitespace and commas
-    while (i < inside.length && (inside[i].match(/\s/) || inside[i] === ',')) i++;
-    if (i >= inside.length) break;
+/**
+ * Get the getter type of an Attribute accessor from its `@return Attribute<TGet, TSet>` docblock,
+ * or the return type of the getter closure passed to Attribute::make(get: ...) or new Attribute(...).
+ */
+function getAccessorType(method: PhpParserTypes.Method): string | null {
+  const docType = getDocblockReturnType(method);
+  const generic = docType?.match(/^\\?(?:[A-Za-z0-9_]+\\)*Attribute\s*<(.+)>$/);
+  if (generic) {
+    const [getType] = generic[1].split(/,(?![^<{]*[>}])/);
+    return getType.trim();
+  }
 
-    // Extract key
-    const keyMatch = inside.slice(i).match(/^[A-Za-z0-9_]+/);
-    if (!keyMatch) break;
+  if (!method.body) return null;
+  const returnNode = findNodeByKind(method.body, 'return') as PhpParserTypes.Return | null;
+  const expr = returnNode?.expr;
+  if (!expr || (expr.kind !== 'call' && expr.kind !== 'new')) return null;
 
-    const key = keyMatch[0];
-    i += key.length;
+  // The getter is the `get` named argument or the first positional argument
+  const args = (expr as PhpParserTypes.Call).arguments;
+  const named = args.find((arg) => arg.kind === 'namedargument' && (arg as any).name === 'get');
+  const getter = named ? (named as any).value : args[0]?.kind !== 'namedargument' ? args[0] : null;
+  if (!getter || (getter.kind !== 'closure' && getter.kind !== 'arrowfunc')) return null;
 
-    // Skip to colon
-    while (i < inside.length && /\s/.test(inside[i])) i++;
-    if (i >= inside.length || inside[i] !== ':') break;
-    i++;
+  const closure = getter as PhpParserTypes.Closure;
+  return formatTypeDeclaration(closure.type, closure.nullable);
+}
 
-    // Extract type
-    while (i < inside.length && /\s/.test(inside[i])) i++;
-    const typeStart = i;
-    let depthCur = 0;
+/**
+ * Parse the attribute types a model declares outside of its casts: `@property` and `@property-read` tags
+ * in the class docblock, Attribute accessors (fullName(): Attribute) and legacy accessors (getFullNameAttribute()).
+ * Returns docblock types keyed by attribute name, with accessors taking precedence over docblock tags.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseModelProperties(phpContent: string): Record<string, string> {
+  const ast = parsePhp(phpContent);
+  if (!ast) return {};
 
-    while (i < inside.length) {
-      const ch = inside[i];
-      if (ch === '{' || ch === '<' || ch === '(') depthCur++;
-      else if (ch === '}' || ch === '>' || ch === ')') {
-        if (depthCur > 0) depthCur--;
-      } else if (ch === ',' && depthCur === 0) break;
-      i++;
+  const classNode = findNodeByKind(ast, 'class') as PhpParserTypes.Class | null;
+  if (!classNode) return {};
+
+  const properties: Record<string, string> = {};
+
+  for (const comment of classNode.leadingComments ?? []) {
+    for (const match of comment.value.matchAll(/@property(?:-read)?\s+([^\n]+?)\s+\$(\w+)/g)) {
+      properties[match[2]] = match[1];
     }
+  }
 
-    const type = inside.slice(typeStart, i).trim();
-    if (type) pairs[key] = type;
-    if (i < inside.length && inside[i] === ',') i++;
+  for (const method of findAllNodesByKind(classNode, 'method') as PhpParserTypes.Method[]) {
+    const methodName = typeof method.name === 'string' ? method.name : (method.name as PhpParserTypes.Identifier).name;
+    const legacy = methodName.match(/^get(\w+)Attribute$/);
+
+    if (legacy) {
+      const type = formatTypeDeclaration(method.type, method.nullable) ?? getDocblockReturnType(method);
+      if (type) properties[toSnakeCase(legacy[1])] = type;
+      continue;
+    }
+
+    const returnType = method.type as PhpParserTypes.Name | null;
+    if (returnType?.kind === 'name' && returnType.name.split('\\').pop() === 'Attribute') {
+      const type = getAccessorType(method);
+      if (type) properties[toSnakeCase(methodName)] = type;
+    }
   }
 
-  return pairs;
+  return properties;
 }
 
-export type ResourceFieldInfo = {
-  type: string;
-  optional: boolean;
-  loc?: SourceLocation;
+export type ModelRelation = {
+  /** Class name of the related model, or null when it's unknown (morphTo). */
+  model: string | null;
+  /** Whether the relation holds a collection of models (hasMany) rather than a single one (belongsTo). */
+  many: boolean;
+};
+
+/**
+ * Eloquent relationship methods, and whether they relate many models.
+ * Relation classes in return type hints map to the same entries (HasMany -> hasMany).
+ */
+const RELATION_METHODS: Record<string, boolean> = {
+  hasOne: false,
+  hasOneThrough: false,
+  belongsTo: false,
+  morphOne: false,
+  morphTo: false,
+  hasMany: true,
+  hasManyThrough: true,
+  belongsToMany: true,
+  morphMany: true,
+  morphToMany: true,
+  morphedByMany: true,
+};
+
+/**
+ * Find the relationship call a relation method returns, through chained calls like ->latestOfMany().
+ */
+function findRelationCall(method: PhpParserTypes.Method): { method: string; args: PhpParserTypes.Node[] } | null {
+  if (!method.body) return null;
+
+  const returnNode = findNodeByKind(method.body, 'return') as PhpParserTypes.Return | null;
+  let expr = returnNode?.expr ?? null;
+
+  while (expr?.kind === 'call') {
+    const call = getThisMethodCall(expr);
+    if (call && call.method in RELATION_METHODS) return call;
+
+    const what = (expr as PhpParserTypes.Call).what;
+    expr = what.kind === 'propertylookup' ? (what as unknown as PhpParserTypes.PropertyLookup).what : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse the Eloquent relationships of a model from its methods: the relationship call they return
+ * ($this->hasMany(Post::class)), or their return type hint (: HasMany) with a `@return HasMany<Post, $this>` docblock.
+ * Returns the related model and cardinality keyed by relation (method) name.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseModelRelations(
+  phpContent: string,
+  options: ParseModelCastsOptions = {}
+): Record<string, ModelRelation> {
+  const ast = parsePhp(phpContent);
+  if (!ast) return {};
+
+  const classNode = findNodeByKind(ast, 'class') as PhpParserTypes.Class | null;
+  if (!classNode) return {};
+
+  const context = options.resolveClassNames ? getNamespaceContext(ast) : undefined;
+  const relations: Record<string, ModelRelation> = {};
+
+  for (const method of findAllNodesByKind(classNode, 'method') as PhpParserTypes.Method[]) {
+    const methodName = typeof method.name === 'string' ? method.name : (method.name as PhpParserTypes.Identifier).name;
+
+    const call = findRelationCall(method);
+    if (call) {
+      const model = call.method === 'morphTo' || !call.args[0] ? null : getClassConstantName(call.args[0], context);
+      relations[methodName] = { model, many: RELATION_METHODS[call.method] };
+      continue;
+    }
+
+    const returnType = method.type as PhpParserTypes.Name | null;
+    const relationClass = returnType?.kind === 'name' ? returnType.name.split('\\').pop()! : '';
+    const relationMethod = relationClass && relationClass[0].toLowerCase() + relationClass.slice(1);
+    if (!(relationMethod in RELATION_METHODS)) continue;
+
+    const generic = getDocblockReturnType(method)?.match(/<\s*([A-Za-z0-9_\\]+)/);
+    const model = generic && relationMethod !== 'morphTo' ? generic[1] : null;
+    relations[methodName] = {
+      model: model && context ? resolveClassName(model, context) : (model?.replace(/^\\+/, '') ?? null),
+      many: RELATION_METHODS[relationMethod],
+    };
+  }
+
+  return relations;
+}
+
+/**
+ * Get the table of an Eloquent model: its $table property, or the snake case plural of its class name.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function getModelTable(phpContent: string): string | null {
+  const ast = parsePhp(phpContent);
+  if (!ast) return null;
+
+  const classNode = findNodeByKind(ast, 'class') as PhpParserTypes.Class | null;
+  if (!classNode || !classNode.name) return null;
+
+  const tableProperty = findClassProperty(classNode, 'table');
+  const table = tableProperty?.value ? getStringValue(tableProperty.value) : null;
+  if (table) return table;
+
+  const className =
+    typeof classNode.name === 'string' ? classNode.name : (classNode.name as PhpParserTypes.Identifier).name;
+  return pluralize(toSnakeCase(className));
+}
+
+/**
+ * Extract docblock array shape from PHP content.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function extractDocblockArrayShape(phpContent: string): Record<string, string> | null {
+  const match = phpContent.match(/@return\s+array\s*\{/s);
+  if (!match) return null;
+
+  const startPos = match.index!;
+  const openBracePos = phpContent.indexOf('{', startPos);
+  if (openBracePos === -1) return null;
+
+  // Find matching closing brace
+  let depth = 0;
+  let pos = openBracePos;
+  let endPos: number | null = null;
+
+  while (pos < phpContent.length) {
+    const ch = phpContent[pos];
+    if (ch === '{') depth++;
+    else if (ch === '}') {
+      depth--;
+      if (depth === 0) {
+        endPos = pos;
+        break;
+      }
+    }
+    pos++;
+  }
+
+  if (endPos === null) return null;
+
+  // Extract content and strip docblock asterisks from multiline format
+  let inside = phpContent.slice(openBracePos + 1, endPos);
+  inside = inside.replace(/^\s*\*\s?/gm, '');
+
+  const pairs: Record<string, string> = {};
+  let i = 0;
+
+  while (i < inside.length) {
+    // Skip whitespace and commas
+    while (i < inside.length && (inside[i].match(/\s/) || inside[i] === ',')) i++;
+    if (i >= inside.length) break;
+
+    // Extract key
+    const keyMatch = inside.slice(i).match(/^[A-Za-z0-9_]+/);
+    if (!keyMatch) break;
+
+    const key = keyMatch[0];
+    i += key.length;
+
+    // Skip to colon
+    while (i < inside.length && /\s/.test(inside[i])) i++;
+    if (i >= inside.length || inside[i] !== ':') break;
+    i++;
+
+    // Extract type
+    while (i < inside.length && /\s/.test(inside[i])) i++;
+    const typeStart = i;
+    let depthCur = 0;
+
+    while (i < inside.length) {
+      const ch = inside[i];
+      if (ch === '{' || ch === '<' || ch === '(') depthCur++;
+      else if (ch === '}' || ch === '>' || ch === ')') {
+        if (depthCur > 0) depthCur--;
+      } else if (ch === ',' && depthCur === 0) break;
+      i++;
+    }
+
+    const type = inside.slice(typeStart, i).trim();
+    if (type) pairs[key] = type;
+    if (i < inside.length && inside[i] === ',') i++;
+  }
+
+  return pairs;
+}
+
+export type ResourceFieldInfo = {
+  type: string;
+  optional: boolean;
+  /** Whether the field is a model attribute Laravel serializes as a date (a date cast or timestamp). */
+  date?: boolean;
+  loc?: SourceLocation;
 };
 
 export type ResourceArrayEntry = {
@@ -419,31 +1008,112 @@ export type ParseResourceOptions = {
   collectedEnums?: Record<string, EnumDefinition>;
   resourceClass?: string;
   filePath?: string;
+  /** Namespace-aware index used to resolve class references to exact files and type names. */
+  symbols?: SymbolIndex;
+  /** Namespace and imports of the resource file being parsed. */
+  context?: NamespaceContext;
+  /** Project root, used to compute the source paths of parent resources. */
+  cwd?: string;
+  /** Fields of the parent resource, resolved when toArray() calls parent::toArray(). */
+  parentFields?: () => Record<string, ResourceFieldInfo> | null;
+  /** For ResourceCollection classes, the type of the collected resources ($this->collection), or null when unknown. */
+  collects?: string | null;
+  /** Column types read from the migrations, used for model attributes without a cast. */
+  schema?: DatabaseSchema;
+  /** Resources of models not named {Model}Resource, keyed by model class name. */
+  modelResources?: Record<string, string>;
+  /** Filled with the resources the parsed types reference: the PHP file of each type name, for importing them. */
+  referencedResources?: Record<string, string>;
+  /** The model backing the resource, read once when the first field needs it. */
+  model?: () => ResourceModel | null;
 };
 
 /**
- * Check if an AST node contains a whenLoaded call.
+ * The model backing a resource, parsed once for all the fields read from it.
  */
-function containsWhenLoaded(node: PhpParserTypes.Node): boolean {
-  if (node.kind === 'call') {
-    const call = node as PhpParserTypes.Call;
-    if (call.what.kind === 'propertylookup') {
-      const lookup = call.what as unknown as PhpParserTypes.PropertyLookup;
-      const offset = lookup.offset;
-      const name = offset.kind === 'identifier' ? (offset as PhpParserTypes.Identifier).name : null;
-      if (name === 'whenLoaded') return true;
-    }
-  }
+export type ResourceModel = {
+  casts: Record<string, string>;
+  /** Types of the accessors and @property tags. */
+  properties: Record<string, string>;
+  relations: Record<string, ModelRelation>;
+  /** Columns of the model's table, read from the migrations. */
+  columns: Record<string, ColumnDefinition>;
+  /** Namespace and imports of the model file, when class names are resolved with a symbol index. */
+  context: NamespaceContext | null;
+  timestamps: boolean;
+  softDeletes: boolean;
+};
+
+/**
+ * Positions of the value and default arguments of a resource helper.
+ */
+type HelperArguments = { value: number; default: number };
+
+/**
+ * Laravel's conditional attribute helpers (ConditionallyLoadsAttributes), which omit the key unless a default is given.
+ */
+const CONDITIONAL_HELPERS: Record<string, HelperArguments> = {
+  when: { value: 1, default: 2 },
+  unless: { value: 1, default: 2 },
+  whenNull: { value: 0, default: 1 },
+  whenNotNull: { value: 0, default: 1 },
+  whenHas: { value: 1, default: 2 },
+  whenAppended: { value: 1, default: 2 },
+  whenLoaded: { value: 1, default: 2 },
+  whenCounted: { value: 1, default: 2 },
+  whenAggregated: { value: 3, default: 4 },
+  whenExistsLoaded: { value: 1, default: 2 },
+  whenPivotLoaded: { value: 1, default: 2 },
+  whenPivotLoadedAs: { value: 2, default: 3 },
+};
+
+/**
+ * Helpers merging an array of attributes into the resource. merge() always merges, the others only conditionally.
+ */
+const MERGE_HELPERS: Record<string, HelperArguments> = {
+  merge: { value: 0, default: -1 },
+  mergeWhen: { value: 1, default: 2 },
+  mergeUnless: { value: 1, default: 2 },
+};
+
+/**
+ * Aggregates whenAggregated() always returns a number for.
+ */
+const NUMERIC_AGGREGATES = ['count', 'sum', 'avg', 'average'];
+
+/**
+ * Get the method name and arguments of a $this->method(...) call.
+ */
+function getThisMethodCall(node: PhpParserTypes.Node): { method: string; args: PhpParserTypes.Node[] } | null {
+  if (node.kind !== 'call') return null;
+
+  const call = node as PhpParserTypes.Call;
+  if (call.what.kind !== 'propertylookup') return null;
+
+  const lookup = call.what as unknown as PhpParserTypes.PropertyLookup;
+  if (lookup.what.kind !== 'variable' || (lookup.what as PhpParserTypes.Variable).name !== 'this') return null;
+
+  const offset = lookup.offset;
+  const method = offset.kind === 'identifier' ? (offset as PhpParserTypes.Identifier).name : null;
+  return method ? { method, args: call.arguments } : null;
+}
+
+/**
+ * Check if an AST node contains a conditional attribute helper call (whenLoaded, when, whenNotNull, ...).
+ */
+function containsConditionalCall(node: PhpParserTypes.Node): boolean {
+  const call = getThisMethodCall(node);
+  if (call && call.method in CONDITIONAL_HELPERS) return true;
 
   // Check arguments recursively
   const obj = node as any;
   for (const key of Object.keys(obj)) {
     const val = obj[key];
     if (val && typeof val === 'object') {
-      if (val.kind && containsWhenLoaded(val)) return true;
+      if (val.kind && containsConditionalCall(val)) return true;
       if (Array.isArray(val)) {
         for (const item of val) {
-          if (item && item.kind && containsWhenLoaded(item)) return true;
+          if (item && item.kind && containsConditionalCall(item)) return true;
         }
       }
     }
@@ -451,6 +1121,28 @@ function containsWhenLoaded(node: PhpParserTypes.Node): boolean {
   return false;
 }
 
+/**
+ * Get the expression a helper value evaluates to: the returned expression of a closure, or the value itself.
+ */
+export function getReturnedExpression(node: PhpParserTypes.Node): PhpParserTypes.Node | null {
+  if (node.kind === 'arrowfunc') {
+    return (node as PhpParserTypes.ArrowFunc).body;
+  }
+  if (node.kind === 'closure') {
+    const body = (node as PhpParserTypes.Closure).body;
+    return body ? (findReturnStatements(body)[0]?.expr ?? null) : null;
+  }
+  return node;
+}
+
+/**
+ * Combine types into a union, collapsing to any if one of them is any.
+ */
+export function unionTypes(...types: string[]): string {
+  if (types.includes('any')) return 'any';
+  return [...new Set(types.flatMap((type) => type.split(' | ')))].join(' | ');
+}
+
 /**
  * Extract resource name from a static call like Resource::make() or Resource::collection().
  */
@@ -477,7 +1169,7 @@ function extractNewResource(newExpr: PhpParserTypes.New): string | null {
 }
 
 /**
- * Extract property name from $this->resource->property.
+ * Extract property name from $this->resource->property, or $this->property which resources delegate to their model.
  */
 function extractResourceProperty(node: PhpParserTypes.Node): string | null {
   if (node.kind !== 'propertylookup') return null;
@@ -485,6 +1177,13 @@ function extractResourceProperty(node: PhpParserTypes.Node): string | null {
   const lookup = node as PhpParserTypes.PropertyLookup;
   const what = lookup.what;
 
+  // Check for $this->property
+  if (what.kind === 'variable' && (what as PhpParserTypes.Variable).name === 'this') {
+    const offset = lookup.offset;
+    const name = offset.kind === 'identifier' ? (offset as PhpParserTypes.Identifier).name : null;
+    return name === 'resource' ? null : name;
+  }
+
   // Check for $this->resource
   if (what.kind === 'propertylookup') {
     const inner = what as PhpParserTypes.PropertyLookup;
@@ -502,14 +1201,49 @@ function extractResourceProperty(node: PhpParserTypes.Node): string | null {
 }
 
 /**
- * Map a PHP cast to a TypeScript type, potentially collecting enum references.
+ * TypeScript types of Laravel's built-in cast classes, keyed by short class name.
+ */
+const CAST_CLASS_TYPES: Record<string, string> = {
+  AsArrayObject: 'Record<string, any>',
+  AsEncryptedArrayObject: 'Record<string, any>',
+  AsCollection: 'any[]',
+  AsEncryptedCollection: 'any[]',
+  AsFluent: 'Record<string, any>',
+  AsStringable: 'string',
+  AsHtmlString: 'string',
+  AsUri: 'string',
+};
+
+/**
+ * Built-in casts holding a collection of the enum they are parameterised with (AsEnumCollection::of(Role::class)).
  */
-function mapCastToType(cast: string, enumsDir: string, collectedEnums: Record<string, EnumDefinition>): string {
-  const original = cast;
+const ENUM_COLLECTION_CASTS = ['AsEnumCollection', 'AsEnumArrayObject'];
+
+/**
+ * Map an enum class to the union of its values (OrderStatusValue), collecting its definition.
+ * Returns null if the class isn't an enum.
+ */
+function mapEnumClassToType(className: string, options: ParseResourceOptions): string | null {
+  const { enumsDir = '', collectedEnums = {}, symbols } = options;
+
+  // Resolve the (fully-qualified) class through the symbol index
+  if (symbols) {
+    const entry = symbols.get(className);
+    if (entry?.group === 'enums') {
+      const content = readFileSafe(entry.file);
+      const def = content ? parseEnumContent(content) : null;
+      if (def) {
+        def.name = entry.typeName;
+        collectedEnums[def.name] = def;
+        return getEnumValueType(def.name);
+      }
+    }
+    return null;
+  }
 
   // Try to find enum in app/Enums
-  const match = original.match(/([A-Za-z0-9_\\]+)$/);
-  const short = match ? match[1].replace(/^\\+/, '') : original;
+  const match = className.match(/([A-Za-z0-9_\\]+)$/);
+  const short = match ? match[1].replace(/^\\+/, '') : className;
   const enumPath = join(enumsDir, `${short}.php`);
 
   if (existsSync(enumPath)) {
@@ -518,12 +1252,65 @@ function mapCastToType(cast: string, enumsDir: string, collectedEnums: Record<st
       const def = parseEnumContent(content);
       if (def) {
         collectedEnums[def.name] = def;
-        return def.name;
+        return getEnumValueType(def.name);
       }
     }
   }
 
-  return mapPhpTypeToTs(cast);
+  return null;
+}
+
+/**
+ * Map a custom cast class (implementing CastsAttributes) to the type of the value its get() method returns:
+ * a `@ferry-type` annotation on the class or get() method, taken as-is, else get()'s `@return` docblock or return type.
+ * Cast classes are located through the symbol index. Returns null if the class can't be read or has no type.
+ */
+function mapCustomCastToType(className: string, options: ParseResourceOptions): string | null {
+  const file = options.symbols?.resolveFile(className);
+  const content = file ? readFileSafe(file) : null;
+  const ast = content ? parsePhp(content) : null;
+  const classNode = ast ? (findNodeByKind(ast, 'class') as PhpParserTypes.Class | null) : null;
+  if (!ast || !classNode) return null;
+
+  const getMethod = findClassMethod(classNode, 'get');
+  for (const node of [getMethod, classNode]) {
+    for (const comment of node?.leadingComments ?? []) {
+      const match = comment.value.match(/@ferry-type\s+(.+?)\s*(?:\*\/)?$/m);
+      if (match) return match[1];
+    }
+  }
+
+  if (!getMethod) return null;
+  const docType = getDocblockReturnType(getMethod) ?? formatTypeDeclaration(getMethod.type, getMethod.nullable);
+  if (!docType) return null;
+
+  const context = getNamespaceContext(ast);
+  return mapDocTypeToTs(docType, (name) => mapEnumClassToType(resolveClassName(name, context), options) ?? 'any');
+}
+
+/**
+ * Map a PHP cast to a TypeScript type, potentially collecting enum references.
+ * Handles parameterised casts (decimal:2, encrypted:array, AsEnumCollection:Role), built-in cast classes,
+ * enums and custom cast classes.
+ */
+function mapCastToType(cast: string, options: ParseResourceOptions): string {
+  const separator = cast.indexOf(':');
+  const base = separator === -1 ? cast : cast.slice(0, separator);
+  const parameter = separator === -1 ? null : cast.slice(separator + 1);
+  const shortName = base.split('\\').pop()!;
+
+  if (ENUM_COLLECTION_CASTS.includes(shortName)) {
+    const enumType = parameter ? mapEnumClassToType(parameter.split(',')[0], options) : null;
+    return `${enumType ?? 'any'}[]`;
+  }
+  if (shortName in CAST_CLASS_TYPES) {
+    return CAST_CLASS_TYPES[shortName];
+  }
+  if (base.toLowerCase() === 'encrypted' && parameter) {
+    return mapPhpTypeToTs(parameter);
+  }
+
+  return mapEnumClassToType(base, options) ?? mapCustomCastToType(base, options) ?? mapPhpTypeToTs(base);
 }
 
 /**
@@ -534,20 +1321,351 @@ function resourceExists(resourceName: string, resourcesDir: string | undefined):
   return existsSync(join(resourcesDir, `${resourceName}.php`));
 }
 
+/**
+ * Record a resource referenced by a parsed type, returning its type name.
+ */
+function referenceResource(typeName: string, file: string | null, options: ParseResourceOptions): string {
+  if (file && options.referencedResources) {
+    options.referencedResources[typeName] = file;
+  }
+  return typeName;
+}
+
+/**
+ * Resolve a resource class reference to its generated type name, or null if it isn't a known resource.
+ */
+function resolveResourceType(resourceName: string, options: ParseResourceOptions): string | null {
+  const { symbols, context, resourcesDir } = options;
+
+  if (symbols && context) {
+    const entry = symbols.get(resolveClassName(resourceName, context));
+    return entry?.group === 'resources' ? referenceResource(entry.typeName, entry.file, options) : null;
+  }
+
+  if (!resourceExists(resourceName, resourcesDir)) return null;
+  return referenceResource(resourceName, resourcesDir ? join(resourcesDir, `${resourceName}.php`) : null, options);
+}
+
+/**
+ * Find the model backing a resource (UserResource -> User) and return its content.
+ * Prefers an imported model, then a model in the resource's sibling namespace, then any model with that name.
+ */
+function findResourceModel(options: ParseResourceOptions): string | null {
+  const { modelsDir, resourceClass, symbols, context } = options;
+  if (!resourceClass) return null;
+
+  const modelCandidate = resourceClass.split('\\').pop()!.replace(/Resource$/, '');
+
+  if (symbols && context) {
+    const imported = context.uses[modelCandidate];
+    const importedFile = imported ? symbols.resolveFile(imported) : null;
+    if (importedFile) return readFileSafe(importedFile);
+
+    // Prefer the model mirroring the resource's subfolder (Resources\Admin\UserResource -> Models\Admin\User)
+    const namespace = context.namespace.split('\\');
+    const models = symbols
+      .list('models', modelCandidate)
+      .map((model) => {
+        const modelNamespace = model.fqcn.split('\\').slice(0, -1);
+        let shared = 0;
+        while (
+          shared < modelNamespace.length &&
+          shared < namespace.length &&
+          modelNamespace[modelNamespace.length - 1 - shared] === namespace[namespace.length - 1 - shared]
+        ) {
+          shared++;
+        }
+        return { model, shared };
+      })
+      .sort((a, b) => b.shared - a.shared);
+    if (models.length > 0) return readFileSafe(models[0].model.file);
+    return null;
+  }
+
+  if (!modelsDir) return null;
+
+  const modelPath = join(modelsDir, `${modelCandidate}.php`);
+  return existsSync(modelPath) ? readFileSafe(modelPath) : null;
+}
+
+/**
+ * Parse the model backing a resource: its casts, accessors, relations and table columns.
+ */
+function parseResourceModel(options: ParseResourceOptions): ResourceModel | null {
+  const modelContent = findResourceModel(options);
+  if (!modelContent) return null;
+
+  const resolveClassNames = !!options.symbols;
+  const table = options.schema ? getModelTable(modelContent) : null;
+
+  return {
+    casts: parseModelCasts(modelContent, { resolveClassNames }),
+    properties: parseModelProperties(modelContent),
+    relations: parseModelRelations(modelContent, { resolveClassNames }),
+    columns: (table && options.schema?.[table]) || {},
+    context: resolveClassNames ? parseNamespaceContext(modelContent) : null,
+    timestamps: !/\$timestamps\s*=\s*false/.test(modelContent),
+    softDeletes: /\bSoftDeletes\b/.test(modelContent),
+  };
+}
+
+/**
+ * Get the model backing the resource being parsed, parsed once per resource when the options carry it.
+ */
+function getResourceModel(options: ParseResourceOptions): ResourceModel | null {
+  return options.model ? options.model() : parseResourceModel(options);
+}
+
+/**
+ * Infer the type of a model attribute read through the resource ($this->resource->property or $this->property).
+ */
+function inferResourcePropertyType(prop: string, options: ParseResourceOptions): string {
+  const lower = prop.toLowerCase();
+
+  // Check model casts, then its accessors and @property tags, then the model table's column
+  const model = getResourceModel(options);
+  if (model) {
+    const column = model.columns[prop];
+    const { casts } = model;
+
+    if (casts[prop]) {
+      const cast = casts[prop];
+      const trim = cast.trim();
+      const isShape = trim.startsWith('{') || /array\s*\{/.test(trim);
+      if (isShape) return trim;
+
+      const type = mapCastToType(cast, options);
+      return column?.nullable ? unionTypes(type, 'null') : type;
+    }
+
+    const { properties, context: modelContext } = model;
+    if (properties[prop]) {
+      // Enums resolve to their generated type, other classes (besides dates) to any
+      return mapDocTypeToTs(
+        properties[prop],
+        (className) =>
+          mapEnumClassToType(modelContext ? resolveClassName(className, modelContext) : className, options) ?? 'any'
+      );
+    }
+
+    if (column) {
+      return column.nullable ? unionTypes(column.type, 'null') : column.type;
+    }
+  }
+
+  // Boolean checks
+  if (lower.startsWith('is_') || lower.startsWith('has_') || /^(is|has)[A-Z]/.test(prop)) {
+    return 'boolean';
+  }
+
+  // IDs and UUIDs
+  if (prop === 'id' || prop.endsWith('_id') || lower === 'uuid' || prop.endsWith('Id')) {
+    return 'string';
+  }
+
+  // Timestamps
+  if (prop.endsWith('_at') || prop.endsWith('At')) {
+    return 'string';
+  }
+
+  return 'string';
+}
+
+/**
+ * Casts Laravel serializes as dates, also with a format (date:Y-m-d).
+ */
+const DATE_CASTS = [
+  'date',
+  'datetime',
+  'immutable_date',
+  'immutable_datetime',
+  'custom_datetime',
+  'immutable_custom_datetime',
+];
+
+/**
+ * Check if a model attribute read through the resource is serialized as a date: a date cast,
+ * the created_at / updated_at timestamps (unless $timestamps is false) or deleted_at with SoftDeletes.
+ */
+function isModelDateAttribute(prop: string, options: ParseResourceOptions): boolean {
+  const model = getResourceModel(options);
+  if (!model) return false;
+
+  const cast = model.casts[prop];
+  if (cast) return DATE_CASTS.includes(cast.split(':')[0].toLowerCase());
+
+  if (prop === 'created_at' || prop === 'updated_at') return model.timestamps;
+  return prop === 'deleted_at' && model.softDeletes;
+}
+
+/**
+ * Find the resource a model is sent as: the modelResources option, else {Model}Resource.
+ * Prefers a resource in the namespace of the resource being parsed, then any resource with that name.
+ */
+function findModelResource(model: string, options: ParseResourceOptions): string | null {
+  const { modelResources = {}, resourcesDir, symbols, context } = options;
+  const shortName = model.split('\\').pop()!;
+  const resource = modelResources[model] ?? modelResources[shortName] ?? `${shortName}Resource`;
+  const resourceShortName = resource.split('\\').pop()!;
+
+  if (symbols) {
+    const entry =
+      (resource.includes('\\') ? symbols.get(resource.replace(/^\\+/, '')) : null) ??
+      (context ? symbols.get(resolveClassName(resource, context)) : null) ??
+      symbols.list('resources', resourceShortName)[0] ??
+      null;
+    return entry?.group === 'resources' ? referenceResource(entry.typeName, entry.file, options) : null;
+  }
+
+  const file = resourcesDir ? join(resourcesDir, `${resourceShortName}.php`) : null;
+  return file && existsSync(file) ? referenceResource(resourceShortName, file, options) : null;
+}
+
+/**
+ * Infer the type of a relation loaded with whenLoaded('relation').
+ * Uses the relationship method on the resource's model for the related model's resource and cardinality,
+ * falling back to the resource named after the relation (relation -> RelationResource).
+ */
+function inferLoadedRelationType(args: PhpParserTypes.Node[], options: ParseResourceOptions): string {
+  const { resourcesDir, symbols, context } = options;
+
+  // Try to find matching resource (only if resourcesDir or a symbol index is provided)
+  if ((resourcesDir || symbols) && args.length > 0 && args[0].kind === 'string') {
+    const relationName = (args[0] as PhpParserTypes.String).value;
+
+    const relation = getResourceModel(options)?.relations[relationName];
+    if (relation) {
+      const type = (relation.model && findModelResource(relation.model, options)) || 'Record<string, any>';
+      return relation.many ? `${type}[]` : unionTypes(type, 'null');
+    }
+
+    const candidate = `${relationName[0].toUpperCase()}${relationName.slice(1)}Resource`;
+
+    if (symbols && context) {
+      // Same namespace first, then any resource with that name
+      const entry =
+        symbols.get(resolveClassName(candidate, context)) ?? symbols.list('resources', candidate)[0] ?? null;
+      if (entry?.group === 'resources') {
+        return referenceResource(entry.typeName, entry.file, options);
+      }
+    } else if (resourcesDir && existsSync(join(resourcesDir, `${candidate}.php`))) {
+      return referenceResource(candidate, join(resourcesDir, `${candidate}.php`), options);
+    }
+  }
+
+  return 'Record<string, any>';
+}
+
+/**
+ * Infer the type of a conditional helper call like $this->when($condition, $value, $default).
+ * The value is typed from the argument (or closure) passed, falling back to what the helper returns for the attribute
+ * or relation it names. The key is optional unless a default is given.
+ */
+function inferConditionalType(
+  method: string,
+  args: PhpParserTypes.Node[],
+  key: string,
+  options: ParseResourceOptions
+): ResourceFieldInfo {
+  const positions = CONDITIONAL_HELPERS[method];
+  const valueArg = args[positions.value];
+  const defaultArg = args[positions.default];
+
+  const infer = (arg: PhpParserTypes.Node): string => {
+    const expression = getReturnedExpression(arg);
+    return expression ? inferTypeFromAstNode(expression, key, { ...options, docShape: null }).type : 'any';
+  };
+  const attribute = args[0]?.kind === 'string' ? (args[0] as PhpParserTypes.String).value : null;
+
+  let type: string;
+  if (method === 'whenNull') {
+    type = 'null';
+  } else if (method === 'whenNotNull') {
+    const members = valueArg ? infer(valueArg).split(' | ') : ['any'];
+    type = members.filter((t) => t !== 'null').join(' | ') || 'any';
+  } else if (valueArg) {
+    type = infer(valueArg);
+  } else if (method === 'whenLoaded') {
+    type = inferLoadedRelationType(args, options);
+  } else if ((method === 'whenHas' || method === 'whenAppended') && attribute) {
+    type = inferResourcePropertyType(attribute, options);
+  } else if (method === 'whenCounted') {
+    type = 'number';
+  } else if (method === 'whenAggregated') {
+    const aggregate = args[2]?.kind === 'string' ? (args[2] as PhpParserTypes.String).value : null;
+    type = aggregate && NUMERIC_AGGREGATES.includes(aggregate) ? 'number' : 'any';
+  } else if (method === 'whenExistsLoaded') {
+    type = 'boolean';
+  } else {
+    type = 'any';
+  }
+
+  if (defaultArg) {
+    return { type: unionTypes(type, infer(defaultArg)), optional: false };
+  }
+
+  return { type, optional: true };
+}
+
+/**
+ * Parse the attributes merged into a resource by $this->merge(), mergeWhen() or mergeUnless().
+ * Conditionally merged keys are optional, unless the default merges the same key.
+ */
+function parseMergedEntries(
+  method: string,
+  args: PhpParserTypes.Node[],
+  options: ParseResourceOptions
+): Record<string, ResourceArrayEntry> {
+  const positions = MERGE_HELPERS[method];
+
+  const parse = (arg: PhpParserTypes.Node | undefined): Record<string, ResourceArrayEntry> => {
+    const expression = arg ? getReturnedExpression(arg) : null;
+    return (expression && parseArrayExpression(expression, options)) ?? {};
+  };
+
+  const entries = parse(args[positions.value]);
+  if (method === 'merge') return entries;
+
+  const fallback = parse(args[positions.default]);
+  const result: Record<string, ResourceArrayEntry> = { ...fallback, ...entries };
+
+  for (const [key, entry] of Object.entries(result)) {
+    const other = fallback[key];
+    if (entries[key] && other) {
+      const type = unionTypes(entry.fieldInfo.type, other.fieldInfo.type);
+      const optional = entry.fieldInfo.optional || other.fieldInfo.optional;
+      result[key] = { ...entry, fieldInfo: { ...entry.fieldInfo, type, optional } };
+    } else {
+      result[key] = { ...entry, fieldInfo: { ...entry.fieldInfo, optional: true } };
+    }
+  }
+
+  return result;
+}
+
 /**
  * Infer TypeScript type from an AST value node.
  */
-function inferTypeFromAstNode(
+export function inferTypeFromAstNode(
   node: PhpParserTypes.Node,
   key: string,
   options: ParseResourceOptions = {}
 ): ResourceFieldInfo {
-  const { resourcesDir, modelsDir, enumsDir, docShape, collectedEnums = {}, resourceClass = '' } = options;
-  const optional = containsWhenLoaded(node);
+  const { docShape } = options;
+
+  // A conditional helper with a default always sets the key
+  const helper = getThisMethodCall(node);
+  const optional =
+    helper && helper.method in CONDITIONAL_HELPERS
+      ? !helper.args[CONDITIONAL_HELPERS[helper.method].default]
+      : containsConditionalCall(node);
 
-  // Use docblock type if available
+  // Use docblock type if available, still hydrating the model's date attributes
   if (docShape && docShape[key]) {
-    return { type: docShape[key], optional };
+    const prop = extractResourceProperty(node);
+    return prop && isModelDateAttribute(prop, options)
+      ? { type: docShape[key], optional, date: true }
+      : { type: docShape[key], optional };
   }
 
   // Boolean heuristics from key name
@@ -568,39 +1686,20 @@ function inferTypeFromAstNode(
       }
       // Resource::collection returns Resource[] (array of resources)
       if (method === 'collection') {
-        if (resourceExists(resource, resourcesDir)) {
-          return { type: `${resource}[]`, optional };
-        }
-        return { type: 'any[]', optional };
+        const resourceType = resolveResourceType(resource, options);
+        return { type: resourceType ? `${resourceType}[]` : 'any[]', optional };
       }
       // Resource::make returns a single Resource
       if (method === 'make') {
-        if (resourceExists(resource, resourcesDir)) {
-          return { type: resource, optional };
-        }
-        return { type: 'any', optional };
+        const resourceType = resolveResourceType(resource, options);
+        return { type: resourceType ?? 'any', optional };
       }
     }
 
-    // Check if it's a whenLoaded call without a wrapper resource
-    if (call.what.kind === 'propertylookup') {
-      const lookup = call.what as unknown as PhpParserTypes.PropertyLookup;
-      const offset = lookup.offset;
-      const name = offset.kind === 'identifier' ? (offset as PhpParserTypes.Identifier).name : null;
-      if (name === 'whenLoaded') {
-        // Try to find matching resource (only if resourcesDir is provided)
-        if (resourcesDir) {
-          const args = call.arguments;
-          if (args.length > 0 && args[0].kind === 'string') {
-            const relationName = (args[0] as PhpParserTypes.String).value;
-            const candidate = `${relationName[0].toUpperCase()}${relationName.slice(1)}Resource`;
-            if (existsSync(join(resourcesDir, `${candidate}.php`))) {
-              return { type: candidate, optional: true };
-            }
-          }
-        }
-        return { type: 'Record<string, any>', optional: true };
-      }
+    // Conditional helpers without a wrapper resource ($this->whenLoaded(), $this->when(), ...)
+    const helper = getThisMethodCall(call);
+    if (helper && helper.method in CONDITIONAL_HELPERS) {
+      return inferConditionalType(helper.method, helper.args, key, options);
     }
   }
 
@@ -609,63 +1708,38 @@ function inferTypeFromAstNode(
     const newExpr = node as PhpParserTypes.New;
     const resource = extractNewResource(newExpr);
     if (resource) {
-      if (resourceExists(resource, resourcesDir)) {
-        return { type: resource, optional };
-      }
-      return { type: 'any', optional };
+      return { type: resolveResourceType(resource, options) ?? 'any', optional };
     }
     return { type: 'any', optional };
   }
 
   // Handle $this->resource->property
   const prop = extractResourceProperty(node);
+  if (prop === 'collection' && options.collects !== undefined) {
+    return { type: options.collects ? `${options.collects}[]` : 'any[]', optional };
+  }
   if (prop) {
-    const lower = prop.toLowerCase();
-
-    // Boolean checks
-    if (lower.startsWith('is_') || lower.startsWith('has_') || /^(is|has)[A-Z]/.test(prop)) {
-      return { type: 'boolean', optional: false };
-    }
-
-    // IDs and UUIDs
-    if (prop === 'id' || prop.endsWith('_id') || lower === 'uuid' || prop.endsWith('Id')) {
-      return { type: 'string', optional: false };
-    }
-
-    // Check model casts
-    if (modelsDir && resourceClass) {
-      const modelCandidate = resourceClass.replace(/Resource$/, '');
-      const modelPath = join(modelsDir, `${modelCandidate}.php`);
-
-      if (existsSync(modelPath)) {
-        const modelContent = readFileSafe(modelPath);
-        if (modelContent) {
-          const casts = parseModelCasts(modelContent);
-          if (casts[prop]) {
-            const cast = casts[prop];
-            const trim = cast.trim();
-            const tsType =
-              trim.startsWith('{') || trim.includes(':') || /array\s*\{/.test(trim)
-                ? trim
-                : mapCastToType(cast, enumsDir || '', collectedEnums);
-            return { type: tsType, optional: false };
-          }
-        }
-      }
-    }
-
-    // Timestamps
-    if (prop.endsWith('_at') || prop.endsWith('At')) {
-      return { type: 'string', optional: false };
-    }
+    const type = inferResourcePropertyType(prop, options);
+    return isModelDateAttribute(prop, options) ? { type, optional: false, date: true } : { type, optional: false };
+  }
 
-    return { type: 'string', optional: false };
+  // Handle literals
+  if (node.kind === 'string' || node.kind === 'encapsed' || node.kind === 'nowdoc') {
+    return { type: 'string', optional };
+  }
+  if (node.kind === 'number') {
+    return { type: 'number', optional };
+  }
+  if (node.kind === 'boolean') {
+    return { type: 'boolean', optional };
+  }
+  if (node.kind === 'nullkeyword') {
+    return { type: 'null', optional };
   }
 
-  // Handle nested arrays
-  if (node.kind === 'array') {
-    const arrayNode = node as PhpParserTypes.Array;
-    const nestedFields = parseArrayEntries(arrayNode.items, options);
+  // Handle nested arrays, including array_merge() of arrays
+  const nestedFields = node.kind === 'array' || isArrayMergeCall(node) ? parseArrayExpression(node, options) : null;
+  if (nestedFields) {
     if (Object.keys(nestedFields).length > 0) {
       const props = Object.entries(nestedFields).map(([k, v]) => {
         const opt = v.fieldInfo.optional ? '?' : '';
@@ -693,7 +1767,21 @@ function parseArrayEntries(
     if (item.kind !== 'entry') continue;
 
     const entry = item as PhpParserTypes.Entry;
-    if (!entry.key) continue;
+
+    // Spread ...parent::toArray($request) and ...[...] into the array
+    if (entry.unpack) {
+      Object.assign(result, parseArrayExpression(entry.value, options));
+      continue;
+    }
+
+    // Spread $this->merge([...]) and $this->mergeWhen($condition, [...]) into the parent
+    if (!entry.key) {
+      const helper = getThisMethodCall(entry.value);
+      if (helper && helper.method in MERGE_HELPERS) {
+        Object.assign(result, parseMergedEntries(helper.method, helper.args, options));
+      }
+      continue;
+    }
 
     const key = getStringValue(entry.key);
     if (!key) continue;
@@ -724,12 +1812,89 @@ function parseArrayEntries(
 }
 
 /**
- * Parse resource fields from PHP content using AST.
- * Returns null if parsing fails or no toArray method is found.
+ * Check if a node is a parent::toArray() call.
  */
-export function parseResourceFieldsAst(
+function isParentToArrayCall(node: PhpParserTypes.Node): boolean {
+  if (node.kind !== 'call') return false;
+
+  const call = node as PhpParserTypes.Call;
+  if (call.what.kind !== 'staticlookup') return false;
+
+  const lookup = call.what as unknown as PhpParserTypes.StaticLookup;
+  const offset = lookup.offset;
+  const method = offset.kind === 'identifier' ? (offset as PhpParserTypes.Identifier).name : null;
+  return lookup.what.kind === 'parentreference' && method === 'toArray';
+}
+
+/**
+ * Check if a node is an array_merge() call.
+ */
+function isArrayMergeCall(node: PhpParserTypes.Node): boolean {
+  if (node.kind !== 'call') return false;
+
+  const what = (node as PhpParserTypes.Call).what;
+  return what.kind === 'name' && (what as PhpParserTypes.Name).name.replace(/^\\/, '') === 'array_merge';
+}
+
+/**
+ * Parse the entries of an expression evaluating to an array: an array literal, parent::toArray() or an array_merge() of them.
+ * Returns null if the array's keys can't be determined.
+ */
+function parseArrayExpression(
+  node: PhpParserTypes.Node,
+  options: ParseResourceOptions
+): Record<string, ResourceArrayEntry> | null {
+  if (node.kind === 'array') {
+    return parseArrayEntries((node as PhpParserTypes.Array).items, options);
+  }
+
+  if (isParentToArrayCall(node)) {
+    const fields = options.parentFields?.();
+    if (!fields) return null;
+    return Object.fromEntries(Object.entries(fields).map(([key, fieldInfo]) => [key, { key, fieldInfo }]));
+  }
+
+  // Later arrays override the keys of earlier ones
+  if (isArrayMergeCall(node)) {
+    const result: Record<string, ResourceArrayEntry> = {};
+    for (const arg of (node as PhpParserTypes.Call).arguments) {
+      const entries = parseArrayExpression(arg, options);
+      if (!entries) return null;
+      Object.assign(result, entries);
+    }
+    return result;
+  }
+
+  return null;
+}
+
+/**
+ * Find the file of the resource a class extends (JsonResource and other framework classes aren't found).
+ */
+function findParentResourceFile(classNode: PhpParserTypes.Class, options: ParseResourceOptions): string | null {
+  if (!classNode.extends) return null;
+
+  const { symbols, context, resourcesDir } = options;
+  const parentName = classNode.extends.name;
+
+  if (symbols && context) {
+    return symbols.resolveFile(resolveClassName(parentName, context));
+  }
+
+  if (!resourcesDir) return null;
+
+  const parentPath = join(resourcesDir, `${parentName.split('\\').pop()}.php`);
+  return existsSync(parentPath) ? parentPath : null;
+}
+
+/**
+ * Parse the fields of a resource class, following `extends` to parent resources.
+ * Files already being parsed are skipped so circular inheritance can't recurse forever.
+ */
+function parseResourceClassFields(
   phpContent: string,
-  options: Omit<ParseResourceOptions, 'resourceClass'> = {}
+  options: Omit<ParseResourceOptions, 'resourceClass'>,
+  visited: string[]
 ): Record<string, ResourceFieldInfo> | null {
   const ast = parsePhp(phpContent);
   if (!ast) return null;
@@ -743,6 +1908,38 @@ export function parseResourceFieldsAst(
     typeof classNode.name === 'string'
       ? classNode.name
       : (classNode.name as PhpParserTypes.Identifier).name;
+  const context = getNamespaceContext(ast);
+  const resourceOptions: ParseResourceOptions = { ...options, resourceClass: className, context };
+
+  // The model is parsed once for all the fields read from it, when the first one needs it
+  let model: ResourceModel | null | undefined;
+  resourceOptions.model = () => (model !== undefined ? model : (model = parseResourceModel(resourceOptions)));
+
+  // Parent fields are parsed from the parent's own file, with its own docblock, model and source locations
+  let parentFields: Record<string, ResourceFieldInfo> | null | undefined;
+  resourceOptions.parentFields = () => {
+    if (parentFields !== undefined) return parentFields;
+
+    const parentFile = findParentResourceFile(classNode, resourceOptions);
+    const parentContent = parentFile && !visited.includes(parentFile) ? readFileSafe(parentFile) : null;
+    if (!parentFile || !parentContent) return (parentFields = null);
+
+    const docShape = extractDocblockArrayShape(parentContent);
+    const mappedDocShape = docShape
+      ? Object.fromEntries(Object.entries(docShape).map(([key, type]) => [key, mapDocTypeToTs(type)]))
+      : null;
+
+    parentFields = parseResourceClassFields(
+      parentContent,
+      {
+        ...options,
+        docShape: mappedDocShape,
+        filePath: options.cwd ? relative(options.cwd, parentFile).replace(/\\/g, '/') : undefined,
+      },
+      [...visited, parentFile]
+    );
+    return parentFields;
+  };
 
   // Find toArray method
   const methods = findAllNodesByKind(classNode, 'method') as PhpParserTypes.Method[];
@@ -751,14 +1948,16 @@ export function parseResourceFieldsAst(
     return methodName === 'toArray';
   });
 
-  if (!toArrayMethod || !toArrayMethod.body) return null;
+  // Without its own toArray, a resource inherits its parent's
+  if (!toArrayMethod) return resourceOptions.parentFields();
+  if (!toArrayMethod.body) return null;
 
-  // Find return statement with array
+  // Find the returned array (a literal, parent::toArray() or array_merge() of them)
   const returnNode = findNodeByKind(toArrayMethod.body, 'return') as PhpParserTypes.Return | null;
-  if (!returnNode || !returnNode.expr || returnNode.expr.kind !== 'array') return null;
+  if (!returnNode || !returnNode.expr) return null;
 
-  const arrayNode = returnNode.expr as PhpParserTypes.Array;
-  const entries = parseArrayEntries(arrayNode.items, { ...options, resourceClass: className });
+  const entries = parseArrayExpression(returnNode.expr, resourceOptions);
+  if (!entries) return null;
 
   // Convert to flat field info
   const result: Record<string, ResourceFieldInfo> = {};
@@ -768,3 +1967,164 @@ export function parseResourceFieldsAst(
 
   return result;
 }
+
+/**
+ * Parse resource fields from PHP content using AST.
+ * Fields inherited through parent::toArray() keep the source locations of the parent resource.
+ * Returns null if parsing fails or no toArray method is found.
+ */
+export function parseResourceFieldsAst(
+  phpContent: string,
+  options: Omit<ParseResourceOptions, 'resourceClass'> = {}
+): Record<string, ResourceFieldInfo> | null {
+  return parseResourceClassFields(phpContent, options, []);
+}
+
+export type ResourceResponseInfo = {
+  /** Whether the class extends ResourceCollection. */
+  collection: boolean;
+  /** Type name of the resource a collection collects, from $collects or the class name, or null when unknown. */
+  collects: string | null;
+  /** Value of the $wrap property: the wrapper key, null when wrapping is disabled, or undefined when not declared. */
+  wrap?: string | null;
+  /** Top-level keys added to the response by with() and $this->additional(). */
+  with: Record<string, ResourceFieldInfo>;
+};
+
+/**
+ * Find a property declared in a class by name.
+ */
+function findClassProperty(classNode: PhpParserTypes.Class, name: string): PhpParserTypes.Property | null {
+  const propertyStatements = findAllNodesByKind(classNode, 'propertystatement') as PhpParserTypes.PropertyStatement[];
+
+  for (const propStmt of propertyStatements) {
+    for (const prop of propStmt.properties) {
+      const propName =
+        typeof prop.name === 'string' ? prop.name : (prop.name as unknown as PhpParserTypes.Identifier).name;
+      if (propName === name) return prop;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a method declared in a class by name.
+ */
+function findClassMethod(classNode: PhpParserTypes.Class, name: string): PhpParserTypes.Method | null {
+  const methods = findAllNodesByKind(classNode, 'method') as PhpParserTypes.Method[];
+  const method = methods.find((m) => {
+    const methodName = typeof m.name === 'string' ? m.name : (m.name as PhpParserTypes.Identifier).name;
+    return methodName === name;
+  });
+  return method ?? null;
+}
+
+/**
+ * Convert parsed array entries to flat field info.
+ */
+function toFieldInfo(entries: Record<string, ResourceArrayEntry>): Record<string, ResourceFieldInfo> {
+  return Object.fromEntries(Object.entries(entries).map(([key, entry]) => [key, entry.fieldInfo]));
+}
+
+/**
+ * Parse how a resource class is sent in a response, following `extends` to parent resources.
+ */
+function parseResourceClassResponse(
+  phpContent: string,
+  options: Omit<ParseResourceOptions, 'resourceClass'>,
+  visited: string[]
+): ResourceResponseInfo | null {
+  const ast = parsePhp(phpContent);
+  if (!ast) return null;
+
+  const classNode = findNodeByKind(ast, 'class') as PhpParserTypes.Class | null;
+  if (!classNode) return null;
+
+  const className =
+    typeof classNode.name === 'string' ? classNode.name : (classNode.name as PhpParserTypes.Identifier).name;
+  const context = getNamespaceContext(ast);
+  const resourceOptions: ParseResourceOptions = { ...options, resourceClass: className, context };
+
+  // Properties and methods a class doesn't declare are inherited from its parent resource
+  const parentFile = findParentResourceFile(classNode, resourceOptions);
+  const parentContent = parentFile && !visited.includes(parentFile) ? readFileSafe(parentFile) : null;
+  const parent = parentContent ? parseResourceClassResponse(parentContent, options, [...visited, parentFile!]) : null;
+
+  const parentName = classNode.extends ? resolveClassName(classNode.extends.name, context) : '';
+  const collection = parent?.collection ?? parentName.split('\\').pop() === 'ResourceCollection';
+
+  // Laravel collects UserResource in UserCollection, trying User before UserResource
+  let collects = parent?.collects ?? null;
+  const collectsProperty = findClassProperty(classNode, 'collects');
+  const collectsClass = collectsProperty?.value ? getClassConstantName(collectsProperty.value) : null;
+  if (collectsClass) {
+    collects = resolveResourceType(collectsClass, resourceOptions);
+  } else if (collection && !collects && className.endsWith('Collection')) {
+    const baseName = className.slice(0, -'Collection'.length);
+    const baseResource = resolveResourceType(baseName, resourceOptions);
+    collects = baseResource ?? resolveResourceType(`${baseName}Resource`, resourceOptions);
+  }
+
+  // `public static $wrap = null` disables wrapping, like withoutWrapping()
+  let wrap = parent?.wrap;
+  const wrapProperty = findClassProperty(classNode, 'wrap');
+  if (wrapProperty) {
+    wrap = wrapProperty.value ? getStringValue(wrapProperty.value) : null;
+  }
+
+  const withFields = { ...parent?.with };
+  const withMethod = findClassMethod(classNode, 'with');
+  if (withMethod?.body) {
+    const returnNode = findNodeByKind(withMethod.body, 'return') as PhpParserTypes.Return | null;
+    if (returnNode?.expr) {
+      Object.assign(withFields, toFieldInfo(parseArrayExpression(returnNode.expr, resourceOptions) ?? {}));
+    }
+  }
+
+  // $this->additional([...]), usually called from the constructor
+  for (const call of findAllNodesByKind(classNode, 'call')) {
+    const helper = getThisMethodCall(call);
+    if (helper?.method !== 'additional' || !helper.args[0]) continue;
+    Object.assign(withFields, toFieldInfo(parseArrayExpression(helper.args[0], resourceOptions) ?? {}));
+  }
+
+  return { collection, collects, wrap, with: withFields };
+}
+
+/**
+ * Parse how a resource is wrapped in a response: its $wrap key, the keys added by with() and additional(),
+ * and for ResourceCollection classes, the resource they collect.
+ * Returns null if parsing fails or no class is found.
+ */
+export function parseResourceResponse(
+  phpContent: string,
+  options: Omit<ParseResourceOptions, 'resourceClass'> = {}
+): ResourceResponseInfo | null {
+  return parseResourceClassResponse(phpContent, options, []);
+}
+
+/**
+ * Check if a resource file declares a ResourceCollection class, directly or through its parent resources.
+ * Only collections have a paginated response; other resources made from a paginator are sent as they are.
+ */
+export function isResourceCollectionFile(
+  file: string,
+  options: Omit<ParseResourceOptions, 'resourceClass'> = {}
+): boolean {
+  const content = readFileSafe(file);
+  return content ? parseResourceResponse(content, options)?.collection === true : false;
+}
+
+/**
+ * Check if PHP content disables resource wrapping, e.g. JsonResource::withoutWrapping() in a service provider.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function callsWithoutWrapping(phpContent: string): boolean {
+  const ast = parsePhp(phpContent);
+  if (!ast) return false;
+
+  return findAllNodesByKind(ast, 'call').some(
+    (node) => extractStaticCallResource(node as PhpParserTypes.Call)?.method === 'withoutWrapping'
+  );
+}
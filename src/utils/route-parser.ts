@@ -0,0 +1,404 @@
+import type * as PhpParserTypes from 'php-parser';
+import { singularize } from './inflector.js';
+import {
+  getClassConstantName,
+  getNamespaceContext,
+  getStringValue,
+  parsePhp,
+  type NamespaceContext,
+  type SourceLocation,
+} from './php-parser.js';
+
+export type RouteParameter = {
+  name: string;
+  optional: boolean;
+};
+
+export type RouteAction = {
+  /** Class name of the controller, resolved against the route file's namespace and `use` imports. */
+  controller: string;
+  method: string;
+};
+
+export type RouteDefinition = {
+  name?: string;
+  uri: string;
+  methods: string[];
+  parameters: RouteParameter[];
+  action?: RouteAction;
+  loc?: SourceLocation;
+};
+
+export type ParseRoutesOptions = {
+  /** URI prefix applied to every route in the file (e.g. "api" for routes/api.php). */
+  prefix?: string;
+  /** Name prefix applied to every route in the file. */
+  namePrefix?: string;
+  filePath?: string;
+};
+
+/**
+ * Attributes inherited by routes declared inside a group.
+ */
+type GroupAttributes = {
+  prefix: string;
+  namePrefix: string;
+  controller?: string;
+};
+
+type ChainCall = {
+  method: string;
+  args: PhpParserTypes.Node[];
+  node: PhpParserTypes.Call;
+};
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options'];
+
+/**
+ * Route methods that register routes, as opposed to attributes like prefix() or middleware().
+ */
+const ROUTE_METHODS = [
+  ...HTTP_METHODS,
+  'any',
+  'match',
+  'view',
+  'redirect',
+  'permanentRedirect',
+  'resource',
+  'apiResource',
+];
+
+const RESOURCE_ACTIONS: Array<{ action: string; methods: string[]; suffix: string; withParam: boolean }> = [
+  { action: 'index', methods: ['GET', 'HEAD'], suffix: '', withParam: false },
+  { action: 'create', methods: ['GET', 'HEAD'], suffix: '/create', withParam: false },
+  { action: 'store', methods: ['POST'], suffix: '', withParam: false },
+  { action: 'show', methods: ['GET', 'HEAD'], suffix: '', withParam: true },
+  { action: 'edit', methods: ['GET', 'HEAD'], suffix: '/edit', withParam: true },
+  { action: 'update', methods: ['PUT', 'PATCH'], suffix: '', withParam: true },
+  { action: 'destroy', methods: ['DELETE'], suffix: '', withParam: true },
+];
+
+const API_RESOURCE_EXCLUDED = ['create', 'edit'];
+
+/**
+ * Get the parameter of a resource segment the way Laravel's ResourceRegistrar names it,
+ * e.g. "categories" becomes "category" and "blog-posts" becomes "blog_post".
+ */
+export function getResourceParameterName(segment: string): string {
+  return singularize(segment).replace(/-/g, '_');
+}
+
+/**
+ * Join URI segments into a normalized path with a leading slash.
+ */
+function joinUri(...segments: string[]): string {
+  const parts = segments.map((s) => s.replace(/^\/+|\/+$/g, '')).filter(Boolean);
+  return '/' + parts.join('/');
+}
+
+/**
+ * Extract {param} and {param?} segments from a route URI.
+ */
+export function extractRouteParameters(uri: string): RouteParameter[] {
+  const params: RouteParameter[] = [];
+  for (const match of uri.matchAll(/\{([A-Za-z0-9_]+)(?::[A-Za-z0-9_]+)?(\?)?\}/g)) {
+    params.push({ name: match[1], optional: match[2] === '?' });
+  }
+  return params;
+}
+
+/**
+ * Flatten a fluent chain like Route::prefix('x')->name('y.')->group(...) into its calls, root first.
+ * Returns null unless the chain starts with a static call on Route.
+ */
+function flattenRouteChain(node: PhpParserTypes.Node): ChainCall[] | null {
+  const calls: ChainCall[] = [];
+  let current = node;
+
+  while (current.kind === 'call') {
+    const call = current as PhpParserTypes.Call;
+    const what = call.what as PhpParserTypes.Node;
+
+    if (what.kind === 'propertylookup' || what.kind === 'nullsafepropertylookup') {
+      const lookup = what as PhpParserTypes.PropertyLookup;
+      if (lookup.offset.kind !== 'identifier') return null;
+      calls.unshift({ method: (lookup.offset as PhpParserTypes.Identifier).name, args: call.arguments, node: call });
+      current = lookup.what;
+      continue;
+    }
+
+    if (what.kind === 'staticlookup') {
+      const lookup = what as unknown as PhpParserTypes.StaticLookup;
+      if (lookup.what.kind !== 'name' || lookup.offset.kind !== 'identifier') return null;
+
+      const className = (lookup.what as PhpParserTypes.Name).name.split('\\').pop();
+      if (className !== 'Route') return null;
+
+      calls.unshift({ method: (lookup.offset as PhpParserTypes.Identifier).name, args: call.arguments, node: call });
+      return calls;
+    }
+
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Get string values from a string or array literal argument.
+ */
+function getStringList(node: PhpParserTypes.Node | undefined): string[] {
+  if (!node) return [];
+  if (node.kind === 'array') {
+    return (node as PhpParserTypes.Array).items
+      .map((item) => getStringValue(item.kind === 'entry' ? (item as PhpParserTypes.Entry).value : item))
+      .filter((v): v is string => v !== null);
+  }
+  const value = getStringValue(node);
+  return value !== null ? [value] : [];
+}
+
+/**
+ * Resolve a route action argument to a controller and method.
+ */
+function parseRouteAction(
+  node: PhpParserTypes.Node | undefined,
+  group: GroupAttributes,
+  context: NamespaceContext
+): RouteAction | undefined {
+  if (!node) return undefined;
+
+  // [UserController::class, 'show']
+  if (node.kind === 'array') {
+    const [first, second] = (node as PhpParserTypes.Array).items.map((item) =>
+      item.kind === 'entry' ? (item as PhpParserTypes.Entry).value : item
+    );
+    const controller = first ? getClassConstantName(first, context) : null;
+    const method = second ? getStringValue(second) : null;
+    return controller && method ? { controller, method } : undefined;
+  }
+
+  // InvokableController::class
+  const invokable = getClassConstantName(node, context);
+  if (invokable) {
+    return { controller: invokable, method: '__invoke' };
+  }
+
+  const value = getStringValue(node);
+  if (value !== null) {
+    // 'App\Http\Controllers\UserController@show'
+    if (value.includes('@')) {
+      const [controller, method] = value.split('@');
+      return { controller: controller.replace(/^\\+/, ''), method };
+    }
+    // 'show' inside Route::controller(UserController::class)->group(...)
+    if (group.controller) {
+      return { controller: group.controller, method: value };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the source location of a node.
+ */
+function getLocation(node: PhpParserTypes.Node, filePath?: string): SourceLocation | undefined {
+  const loc = (node as any).loc;
+  return filePath && loc?.start ? { file: filePath, line: loc.start.line, column: loc.start.column } : undefined;
+}
+
+/**
+ * Expand a Route::resource() or Route::apiResource() call into its individual routes.
+ */
+function expandResource(
+  chain: ChainCall[],
+  group: GroupAttributes,
+  context: NamespaceContext,
+  isApi: boolean,
+  loc: SourceLocation | undefined
+): RouteDefinition[] {
+  const [root, ...modifiers] = chain;
+  const resourceName = root.args[0] ? getStringValue(root.args[0]) : null;
+  if (!resourceName) return [];
+
+  const controller = root.args[1] ? getClassConstantName(root.args[1], context) : null;
+
+  let actions = RESOURCE_ACTIONS.filter((a) => !isApi || !API_RESOURCE_EXCLUDED.includes(a.action));
+  const parameterOverrides: Record<string, string> = {};
+  const nameOverrides: Record<string, string> = {};
+
+  for (const modifier of modifiers) {
+    if (modifier.method === 'only') {
+      const only = modifier.args.flatMap((a) => getStringList(a));
+      actions = actions.filter((a) => only.includes(a.action));
+    } else if (modifier.method === 'except') {
+      const except = modifier.args.flatMap((a) => getStringList(a));
+      actions = actions.filter((a) => !except.includes(a.action));
+    } else if (modifier.method === 'parameters' || modifier.method === 'names') {
+      const target = modifier.method === 'parameters' ? parameterOverrides : nameOverrides;
+      const arg = modifier.args[0];
+      if (arg?.kind === 'array') {
+        for (const item of (arg as PhpParserTypes.Array).items) {
+          const entry = item as PhpParserTypes.Entry;
+          const key = entry.key ? getStringValue(entry.key) : null;
+          const value = getStringValue(entry.value);
+          if (key && value) target[key] = value;
+        }
+      }
+    }
+  }
+
+  // Nested resources like 'photos.comments' become photos/{photo}/comments/{comment}
+  const segments = resourceName.split('.');
+  const baseParts: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    baseParts.push(segment, `{${parameterOverrides[segment] ?? getResourceParameterName(segment)}}`);
+  }
+  const last = segments[segments.length - 1];
+  const base = joinUri(group.prefix, ...baseParts, last);
+  const param = parameterOverrides[last] ?? getResourceParameterName(last);
+
+  return actions.map(({ action, methods, suffix, withParam }) => {
+    const uri = joinUri(base, withParam ? `{${param}}` : '', suffix);
+    return {
+      // Like Laravel, ->names() overrides still get the group's name prefix
+      name: `${group.namePrefix}${nameOverrides[action] ?? `${resourceName}.${action}`}`,
+      uri,
+      methods,
+      parameters: extractRouteParameters(uri),
+      action: controller ? { controller, method: action } : undefined,
+      loc,
+    };
+  });
+}
+
+/**
+ * Apply group-defining chain calls (prefix, name/as, controller) to the current group attributes.
+ */
+function applyGroupAttributes(
+  chain: ChainCall[],
+  group: GroupAttributes,
+  context: NamespaceContext
+): GroupAttributes {
+  const next = { ...group };
+
+  for (const call of chain) {
+    const arg = call.args[0];
+    if (call.method === 'prefix' && arg) {
+      next.prefix = joinUri(next.prefix, getStringValue(arg) ?? '');
+    } else if ((call.method === 'name' || call.method === 'as') && arg) {
+      next.namePrefix += getStringValue(arg) ?? '';
+    } else if (call.method === 'controller' && arg) {
+      next.controller = getClassConstantName(arg, context) ?? next.controller;
+    } else if (call.method === 'group' && arg?.kind === 'array') {
+      // Route::group(['prefix' => 'admin', 'as' => 'admin.'], function () { ... })
+      for (const item of (arg as PhpParserTypes.Array).items) {
+        const entry = item as PhpParserTypes.Entry;
+        const key = entry.key ? getStringValue(entry.key) : null;
+        if (key === 'prefix') next.prefix = joinUri(next.prefix, getStringValue(entry.value) ?? '');
+        if (key === 'as') next.namePrefix += getStringValue(entry.value) ?? '';
+        if (key === 'controller') next.controller = getClassConstantName(entry.value, context) ?? next.controller;
+      }
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Walk statements and collect route definitions, descending into groups.
+ */
+function collectRoutes(
+  statements: PhpParserTypes.Node[],
+  group: GroupAttributes,
+  context: NamespaceContext,
+  filePath: string | undefined,
+  routes: RouteDefinition[]
+): void {
+  for (const statement of statements) {
+    if (statement.kind !== 'expressionstatement') continue;
+
+    const expression = (statement as PhpParserTypes.ExpressionStatement).expression;
+    const chain = flattenRouteChain(expression);
+    if (!chain) continue;
+
+    const loc = getLocation(statement, filePath);
+    const groupCall = chain.find((c) => c.method === 'group');
+
+    if (groupCall) {
+      const callback = groupCall.args[groupCall.args.length - 1];
+      const body = callback?.kind === 'closure' ? (callback as PhpParserTypes.Closure).body : null;
+      if (body) {
+        collectRoutes(body.children, applyGroupAttributes(chain, group, context), context, filePath, routes);
+      }
+      continue;
+    }
+
+    // Route::middleware('auth')->name('admin.')->get(...): calls before the verb apply like a group's attributes
+    const verbIndex = chain.findIndex((c) => ROUTE_METHODS.includes(c.method));
+    if (verbIndex === -1) continue;
+
+    const routeGroup = applyGroupAttributes(chain.slice(0, verbIndex), group, context);
+    const routeChain = chain.slice(verbIndex);
+    const root = routeChain[0];
+    const rootMethod = root.method;
+
+    if (rootMethod === 'resource' || rootMethod === 'apiResource') {
+      routes.push(...expandResource(routeChain, routeGroup, context, rootMethod === 'apiResource', loc));
+      continue;
+    }
+
+    let methods: string[];
+    let actionArg: PhpParserTypes.Node | undefined;
+    let uriArg: PhpParserTypes.Node | undefined = root.args[0];
+
+    if (HTTP_METHODS.includes(rootMethod)) {
+      methods = rootMethod === 'get' ? ['GET', 'HEAD'] : [rootMethod.toUpperCase()];
+      actionArg = root.args[1];
+    } else if (rootMethod === 'any') {
+      methods = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+      actionArg = root.args[1];
+    } else if (rootMethod === 'match') {
+      methods = getStringList(root.args[0]).map((m) => m.toUpperCase());
+      uriArg = root.args[1];
+      actionArg = root.args[2];
+    } else {
+      methods = rootMethod === 'view' ? ['GET', 'HEAD'] : ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+    }
+
+    const path = uriArg ? getStringValue(uriArg) : null;
+    if (path === null) continue;
+
+    const uri = joinUri(routeGroup.prefix, path);
+    const nameCall = routeChain.slice(1).find((c) => c.method === 'name');
+    const name = nameCall?.args[0] ? getStringValue(nameCall.args[0]) : null;
+
+    routes.push({
+      name: name !== null ? `${routeGroup.namePrefix}${name}` : undefined,
+      uri,
+      methods,
+      parameters: extractRouteParameters(uri),
+      action: parseRouteAction(actionArg, routeGroup, context),
+      loc,
+    });
+  }
+}
+
+/**
+ * Parse a Laravel route file and extract route definitions.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseRouteFile(phpContent: string, options: ParseRoutesOptions = {}): RouteDefinition[] {
+  const ast = parsePhp(phpContent);
+  if (!ast) return [];
+
+  const routes: RouteDefinition[] = [];
+  const group: GroupAttributes = {
+    prefix: options.prefix ?? '',
+    namePrefix: options.namePrefix ?? '',
+  };
+
+  collectRoutes(ast.children, group, getNamespaceContext(ast), options.filePath, routes);
+  return routes;
+}
@@ -8,6 +8,8 @@ export type SourceMapping = {
   generatedColumn: number;
   sourceLine: number;
   sourceColumn: number;
+  /** Index of the source file in `sources` (default: 0). */
+  sourceIndex?: number;
   name?: string;
 };
 
@@ -82,7 +84,7 @@ function encodeMappings(mappings: SourceMapping[]): string {
     const lineIndex = mapping.generatedLine - 1;
     const segment = encodeSegment(
       mapping.generatedColumn,
-      0, // sourceIndex - always 0 since we have one source file per map
+      mapping.sourceIndex ?? 0,
       mapping.sourceLine - 1, // 0-indexed in source maps
       mapping.sourceColumn,
       state
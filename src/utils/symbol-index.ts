@@ -0,0 +1,206 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { getPhpFiles, readFileSafe } from './file.js';
+import { getDeclaredClassName } from './php-parser.js';
+
+export type SymbolEntry = {
+  fqcn: string;
+  file: string;
+  group: string;
+  /** Collision-free name used for the generated TypeScript type. */
+  typeName: string;
+};
+
+export type Psr4Mapping = {
+  prefix: string;
+  dirs: string[];
+};
+
+/**
+ * Namespace-aware index of the PHP classes Ferry generates types for.
+ */
+export type SymbolIndex = {
+  /** Resolve a fully-qualified class name to its PHP file, using PSR-4 for classes outside the scanned groups. */
+  resolveFile(fqcn: string): string | null;
+  /** Get the indexed entry for a fully-qualified class name. */
+  get(fqcn: string): SymbolEntry | null;
+  /** Get all indexed entries in a group, optionally filtered by short class name. */
+  list(group: string, shortName?: string): SymbolEntry[];
+};
+
+/**
+ * Laravel's default autoload mapping, used when composer.json is missing.
+ */
+const DEFAULT_PSR4: Psr4Mapping[] = [{ prefix: 'App\\', dirs: ['app/'] }];
+
+/**
+ * Get the short (unqualified) name of a class.
+ */
+export function getShortName(fqcn: string): string {
+  return fqcn.split('\\').pop()!;
+}
+
+/**
+ * Get the namespace of a class.
+ */
+function getNamespace(fqcn: string): string {
+  return fqcn.split('\\').slice(0, -1).join('\\');
+}
+
+/**
+ * Read PSR-4 autoload mappings from composer.json.
+ */
+export function readPsr4Mappings(cwd: string): Psr4Mapping[] {
+  const content = readFileSafe(join(cwd, 'composer.json'));
+  if (!content) return DEFAULT_PSR4;
+
+  try {
+    const composer = JSON.parse(content);
+    const mappings: Psr4Mapping[] = [];
+
+    for (const section of [composer.autoload, composer['autoload-dev']]) {
+      const psr4 = section?.['psr-4'] ?? {};
+      for (const [prefix, dirs] of Object.entries(psr4)) {
+        mappings.push({ prefix, dirs: Array.isArray(dirs) ? (dirs as string[]) : [dirs as string] });
+      }
+    }
+
+    // Longest prefix wins
+    return mappings.sort((a, b) => b.prefix.length - a.prefix.length);
+  } catch {
+    return DEFAULT_PSR4;
+  }
+}
+
+/**
+ * Assign collision-free type names to a set of classes.
+ * Classes with a unique short name keep it; colliding classes are prefixed with the
+ * namespace segments that distinguish them (App\Enums\Billing\Status becomes BillingStatus).
+ * A prefixed name that is taken by another class (App\Models\BillingStatus) takes more segments until all are unique.
+ */
+export function assignTypeNames(fqcns: string[]): Record<string, string> {
+  const byShortName: Record<string, string[]> = {};
+  // Namespace of each class, and the range of its segments prefixed to its short name
+  const prefixes: Record<string, { segments: string[]; start: number; end: number }> = {};
+
+  for (const fqcn of fqcns) {
+    (byShortName[getShortName(fqcn)] ??= []).push(fqcn);
+    const segments = getNamespace(fqcn).split('\\').filter(Boolean);
+    prefixes[fqcn] = { segments, start: segments.length, end: segments.length };
+  }
+
+  for (const group of Object.values(byShortName)) {
+    if (group.length === 1) continue;
+
+    // Drop the namespace segments shared by every colliding class, from the start...
+    const namespaces = group.map((fqcn) => prefixes[fqcn].segments);
+    let start = 0;
+    while (namespaces.every((ns) => ns.length > start && ns[start] === namespaces[0][start])) {
+      start++;
+    }
+
+    // ...and from the end (App\Enums\Status vs App\Billing\Enums\Status), as long as names stay unique
+    let trimmed = 0;
+    const lastSegment = (ns: string[], offset: number) => ns[ns.length - 1 - offset];
+    while (
+      namespaces.every(
+        (ns) => ns.length - trimmed > start && lastSegment(ns, trimmed) === lastSegment(namespaces[0], trimmed)
+      )
+    ) {
+      const kept = namespaces.map((ns) => ns.slice(start, ns.length - trimmed - 1).join('\\'));
+      if (new Set(kept).size !== kept.length) break;
+      trimmed++;
+    }
+
+    for (const fqcn of group) {
+      const prefix = prefixes[fqcn];
+      prefix.start = start;
+      prefix.end = prefix.segments.length - trimmed;
+    }
+  }
+
+  const getName = (fqcn: string) => {
+    const { segments, start, end } = prefixes[fqcn];
+    return segments.slice(start, end).join('') + getShortName(fqcn);
+  };
+
+  // Prefix colliding names with one more segment, preferring the classes already prefixed
+  for (;;) {
+    const byName: Record<string, string[]> = {};
+    for (const fqcn of fqcns) {
+      (byName[getName(fqcn)] ??= []).push(fqcn);
+    }
+
+    const colliding = Object.values(byName)
+      .filter((group) => group.length > 1)
+      .flat()
+      .filter((fqcn) => prefixes[fqcn].start > 0);
+    const prefixed = colliding.filter((fqcn) => prefixes[fqcn].start < prefixes[fqcn].end);
+    const extended = prefixed.length > 0 ? prefixed : colliding;
+    if (extended.length === 0) break;
+
+    for (const fqcn of extended) {
+      prefixes[fqcn].start--;
+    }
+  }
+
+  return Object.fromEntries(fqcns.map((fqcn) => [fqcn, getName(fqcn)]));
+}
+
+/**
+ * Build a symbol index by scanning groups of directories (e.g. { enums: [...], resources: [...] }).
+ * Type names are made collision-free within each group.
+ */
+export function createSymbolIndex(cwd: string, groups: Record<string, string[]>): SymbolIndex {
+  const entries: Record<string, SymbolEntry> = {};
+  const psr4 = readPsr4Mappings(cwd);
+
+  for (const [group, dirs] of Object.entries(groups)) {
+    const found: Array<{ fqcn: string; file: string }> = [];
+
+    for (const dir of dirs) {
+      for (const file of getPhpFiles(dir)) {
+        const filePath = join(dir, file);
+        const content = readFileSafe(filePath);
+        const fqcn = content ? getDeclaredClassName(content) : null;
+        // Directories may overlap now that they are scanned recursively
+        if (fqcn && !entries[fqcn] && !found.some((f) => f.fqcn === fqcn)) {
+          found.push({ fqcn, file: filePath });
+        }
+      }
+    }
+
+    const typeNames = assignTypeNames(found.map((f) => f.fqcn));
+    for (const { fqcn, file } of found) {
+      entries[fqcn] = { fqcn, file, group, typeName: typeNames[fqcn] };
+    }
+  }
+
+  return {
+    resolveFile(fqcn) {
+      if (entries[fqcn]) return entries[fqcn].file;
+
+      for (const { prefix, dirs } of psr4) {
+        if (!fqcn.startsWith(prefix)) continue;
+
+        const relativePath = fqcn.slice(prefix.length).split('\\').join('/') + '.php';
+        for (const dir of dirs) {
+          const candidate = join(cwd, dir, relativePath);
+          if (existsSync(candidate)) return candidate;
+        }
+      }
+
+      return null;
+    },
+
+    get(fqcn) {
+      return entries[fqcn] ?? null;
+    },
+
+    list(group, shortName) {
+      return Object.values(entries).filter(
+        (e) => e.group === group && (shortName === undefined || getShortName(e.fqcn) === shortName)
+      );
+    },
+  };
+}
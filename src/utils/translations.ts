@@ -0,0 +1,115 @@
+import { existsSync, readdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import type * as PhpParserTypes from 'php-parser';
+import { getPhpFiles, readFileSafe } from './file.js';
+import {
+  findNodeByKind,
+  getPhpSyntaxError,
+  getStringValue,
+  parsePhp,
+  reportParseError,
+  type ParseErrorHandler,
+} from './php-parser.js';
+
+/**
+ * Translation strings keyed by locale and then by key, e.g. { en: { 'enums.status.active': 'Active' } }.
+ */
+export type Translations = Record<string, Record<string, string>>;
+
+/**
+ * Flatten a translation array into dot-separated keys: ['status' => ['active' => 'Active']] -> status.active.
+ */
+function flattenTranslationArray(array: PhpParserTypes.Array, prefix: string, strings: Record<string, string>): void {
+  for (const item of array.items) {
+    if (item.kind !== 'entry') continue;
+
+    const entry = item as PhpParserTypes.Entry;
+    const key = entry.key ? getStringValue(entry.key) : null;
+    if (key === null) continue;
+
+    if (entry.value.kind === 'array') {
+      flattenTranslationArray(entry.value as PhpParserTypes.Array, `${prefix}${key}.`, strings);
+    } else {
+      const value = getStringValue(entry.value);
+      if (value !== null) strings[`${prefix}${key}`] = value;
+    }
+  }
+}
+
+/**
+ * Parse a lang/{locale}/*.php file returning an array of translation strings, keyed by their dot-separated path.
+ * This is a pure function that takes PHP source code as input.
+ */
+export function parseTranslationFile(phpContent: string): Record<string, string> {
+  const ast = parsePhp(phpContent);
+  if (!ast) return {};
+
+  const returnNode = findNodeByKind(ast, 'return') as PhpParserTypes.Return | null;
+  if (!returnNode?.expr || returnNode.expr.kind !== 'array') return {};
+
+  const strings: Record<string, string> = {};
+  flattenTranslationArray(returnNode.expr as PhpParserTypes.Array, '', strings);
+  return strings;
+}
+
+/**
+ * Read the translation strings of every locale from Laravel lang directories:
+ * lang/{locale}/{file}.php, whose strings are keyed as {file}.{key}, and lang/{locale}.json, keyed as is.
+ * Package translations in lang/vendor are skipped.
+ * This is a plugin-level function that handles file I/O.
+ */
+export function readTranslations(langDirs: string[], cwd: string, onError?: ParseErrorHandler): Translations {
+  const translations: Translations = {};
+
+  for (const dir of langDirs) {
+    if (!existsSync(dir)) continue;
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+
+      if (entry.isDirectory() && entry.name !== 'vendor') {
+        const strings = (translations[entry.name] ??= {});
+        for (const file of getPhpFiles(path)) {
+          const content = readFileSafe(join(path, file)) || '';
+          const syntaxError = getPhpSyntaxError(content);
+          if (syntaxError) {
+            reportParseError(onError, 'translation', relative(cwd, join(path, file)), syntaxError);
+            continue;
+          }
+          const group = file.replace(/\.php$/, '');
+          for (const [key, value] of Object.entries(parseTranslationFile(content))) {
+            strings[`${group}.${key}`] = value;
+          }
+        }
+      } else if (entry.isFile() && entry.name.endsWith('.json')) {
+        const locale = entry.name.replace(/\.json$/, '');
+        try {
+          const strings = JSON.parse(readFileSafe(path) || '{}');
+          for (const [key, value] of Object.entries(strings)) {
+            if (typeof value === 'string') (translations[locale] ??= {})[key] = value;
+          }
+        } catch (e) {
+          reportParseError(onError, 'translation', relative(cwd, path), e);
+        }
+      }
+    }
+  }
+
+  return translations;
+}
+
+/**
+ * Extract the replacement parameters of a translation string from its :placeholder tokens.
+ * Like Laravel, :NAME and :Name are replaced by the name parameter, upper-cased or capitalized.
+ */
+export function extractTranslationParameters(line: string): string[] {
+  const params = new Set<string>();
+  for (const [, token] of line.matchAll(/:([A-Za-z_][A-Za-z0-9_]*)/g)) {
+    if (token.length > 1 && token === token.toUpperCase() && token !== token.toLowerCase()) {
+      params.add(token.toLowerCase());
+    } else {
+      params.add(token[0].toLowerCase() + token.slice(1));
+    }
+  }
+  return [...params];
+}
@@ -40,6 +40,22 @@ export function createNumericLiteral(value: number): ts.NumericLiteral {
   return ts.factory.createNumericLiteral(value);
 }
 
+/**
+ * Create a property name, quoting it when it isn't a valid identifier.
+ */
+export function createPropertyName(name: string): ts.PropertyName {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)
+    ? ts.factory.createIdentifier(name)
+    : ts.factory.createStringLiteral(name);
+}
+
+/**
+ * Create a method call expression like target.method(args).
+ */
+export function createMethodCall(target: ts.Expression, method: string, args: ts.Expression[] = []): ts.CallExpression {
+  return ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(target, method), undefined, args);
+}
+
 /**
  * Create an enum declaration.
  */
@@ -67,7 +83,7 @@ export function createObjectLiteral(
   multiLine = true
 ): ts.ObjectLiteralExpression {
   const objectProperties = properties.map((p) =>
-    ts.factory.createPropertyAssignment(ts.factory.createIdentifier(p.key), p.value)
+    ts.factory.createPropertyAssignment(createPropertyName(p.key), p.value)
   );
   return ts.factory.createObjectLiteralExpression(objectProperties, multiLine);
 }
@@ -105,17 +121,29 @@ export function createDeclareConstWithType(name: string, type: ts.TypeNode): ts.
 }
 
 /**
- * Create a type alias declaration.
+ * Create a type alias declaration, optionally generic over the given type parameters.
  */
-export function createTypeAlias(name: string, type: ts.TypeNode): ts.TypeAliasDeclaration {
+export function createTypeAlias(name: string, type: ts.TypeNode, typeParameters?: string[]): ts.TypeAliasDeclaration {
   return ts.factory.createTypeAliasDeclaration(
     [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
     ts.factory.createIdentifier(name),
-    undefined,
+    typeParameters?.map((param) => ts.factory.createTypeParameterDeclaration(undefined, param)),
     type
   );
 }
 
+/**
+ * Create a `declare namespace` holding type declarations, merged with a type of the same name.
+ */
+export function createNamespace(name: string, statements: ts.Statement[]): ts.ModuleDeclaration {
+  return ts.factory.createModuleDeclaration(
+    [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword), ts.factory.createModifier(ts.SyntaxKind.DeclareKeyword)],
+    ts.factory.createIdentifier(name),
+    ts.factory.createModuleBlock(statements),
+    ts.NodeFlags.Namespace
+  );
+}
+
 /**
  * Create a type literal with property signatures.
  */
@@ -125,7 +153,7 @@ export function createTypeLiteral(
   const members = properties.map((p) =>
     ts.factory.createPropertySignature(
       undefined,
-      ts.factory.createIdentifier(p.name),
+      createPropertyName(p.name),
       p.optional ? ts.factory.createToken(ts.SyntaxKind.QuestionToken) : undefined,
       p.type
     )
@@ -152,6 +180,21 @@ export function createImportType(names: string[], from: string): ts.ImportDeclar
   );
 }
 
+/**
+ * Create a runtime import declaration.
+ */
+export function createImport(names: string[], from: string): ts.ImportDeclaration {
+  const importSpecifiers = names.map((name) =>
+    ts.factory.createImportSpecifier(false, undefined, ts.factory.createIdentifier(name))
+  );
+
+  return ts.factory.createImportDeclaration(
+    undefined,
+    ts.factory.createImportClause(false, undefined, ts.factory.createNamedImports(importSpecifiers)),
+    ts.factory.createStringLiteral(from)
+  );
+}
+
 /**
  * Parse a type string into a TypeNode.
  */
@@ -172,18 +215,18 @@ export function parseTypeString(typeStr: string): ts.TypeNode {
       return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword);
   }
 
+  // Handle union types like "string | null", but not unions nested in object types like "{ id: string | null }"
+  const members = splitTopLevelUnion(typeStr);
+  if (members.length > 1) {
+    return ts.factory.createUnionTypeNode(members.map((t) => parseTypeString(t)));
+  }
+
   // Handle array types like "string[]" or "User[]"
   if (typeStr.endsWith('[]')) {
     const elementType = parseTypeString(typeStr.slice(0, -2));
     return ts.factory.createArrayTypeNode(elementType);
   }
 
-  // Handle union types like "string | null"
-  if (typeStr.includes(' | ')) {
-    const types = typeStr.split(' | ').map((t) => parseTypeString(t.trim()));
-    return ts.factory.createUnionTypeNode(types);
-  }
-
   // Handle Record<K, V>
   const recordMatch = typeStr.match(/^Record<([^,]+),\s*([^>]+)>$/);
   if (recordMatch) {
@@ -206,6 +249,30 @@ export function parseTypeString(typeStr: string): ts.TypeNode {
   return ts.factory.createTypeReferenceNode(ts.factory.createIdentifier(typeStr), undefined);
 }
 
+/**
+ * Split a type string into its top-level union members.
+ */
+function splitTopLevelUnion(typeStr: string): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const ch of typeStr) {
+    if (ch === '{' || ch === '<' || ch === '(') depth++;
+    else if (ch === '}' || ch === '>' || ch === ')') depth--;
+
+    if (ch === '|' && depth === 0) {
+      members.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  members.push(current.trim());
+
+  return members;
+}
+
 /**
  * Parse object type properties from a string like "key: type; key2: type2"
  */
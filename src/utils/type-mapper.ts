@@ -1,3 +1,10 @@
+/**
+ * Get the name of the union of an enum's values (OrderStatus -> OrderStatusValue), the type of fields cast to it.
+ */
+export function getEnumValueType(enumName: string): string {
+  return `${enumName}Value`;
+}
+
 /**
  * Map PHP types to TypeScript types.
  */
@@ -8,16 +15,56 @@ export function mapPhpTypeToTs(phpType: string): string {
   if (['real', 'float', 'double', 'decimal'].includes(lower)) return 'number';
   if (lower === 'string') return 'string';
   if (['bool', 'boolean'].includes(lower)) return 'boolean';
-  if (['array', 'json'].includes(lower)) return 'any[]';
+  if (['array', 'json', 'collection'].includes(lower)) return 'any[]';
+  if (lower === 'object') return 'Record<string, any>';
   if (['datetime', 'date', 'immutable_datetime', 'immutable_date'].includes(lower)) return 'string';
+  if (lower === 'timestamp') return 'number';
+  if (['hashed', 'encrypted'].includes(lower)) return 'string';
 
   return 'any';
 }
 
+/**
+ * Date classes, serialized as ISO 8601 strings.
+ */
+const DATE_CLASSES = [
+  'carbon',
+  'carbonimmutable',
+  'carboninterface',
+  'datetime',
+  'datetimeimmutable',
+  'datetimeinterface',
+];
+
+/**
+ * Split a type at separators outside of generics and shapes, e.g. "int, array<string, Foo>" at commas.
+ */
+function splitTopLevel(type: string, separator: ',' | '|'): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const ch of type) {
+    if (ch === '<' || ch === '{') depth++;
+    else if (ch === '>' || ch === '}') depth--;
+
+    if (ch === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current.trim());
+
+  return parts;
+}
+
 /**
  * Map docblock types to TypeScript types.
+ * Class names are mapped to their short name, unless a resolveClass callback maps them.
  */
-export function mapDocTypeToTs(docType: string): string {
+export function mapDocTypeToTs(docType: string, resolveClass?: (className: string) => string): string {
   let type = docType.trim();
   let nullable = false;
 
@@ -36,7 +83,7 @@ export function mapDocTypeToTs(docType: string): string {
     for (const mm of inside.matchAll(innerRe)) {
       const k = (mm as any).groups.key;
       const t = (mm as any).groups.type.trim();
-      parts.push(`${k}: ${mapDocTypeToTs(t)}`);
+      parts.push(`${k}: ${mapDocTypeToTs(t, resolveClass)}`);
     }
 
     const obj = `{ ${parts.join('; ')} }`;
@@ -44,10 +91,7 @@ export function mapDocTypeToTs(docType: string): string {
   }
 
   // Handle union types
-  const parts = type
-    .split('|')
-    .map((p) => p.trim())
-    .filter(Boolean);
+  const parts = splitTopLevel(type, '|').filter(Boolean);
   const mapped: string[] = [];
 
   for (const p of parts) {
@@ -81,20 +125,25 @@ export function mapDocTypeToTs(docType: string): string {
       mapped.push('Record<string, any>');
       continue;
     }
+    if (DATE_CLASSES.includes(low.replace(/^.*\\/, ''))) {
+      mapped.push('string');
+      continue;
+    }
 
     // Handle array notation like "Foo[]"
     const arrMatch = p.match(/^(?<inner>[A-Za-z0-9_\\]+)\[\]$/);
     if (arrMatch) {
-      const inner = arrMatch.groups!.inner.replace(/\\\\/g, '');
-      mapped.push(`${inner}[]`);
+      mapped.push(`${mapDocTypeToTs(arrMatch.groups!.inner, resolveClass)}[]`);
       continue;
     }
 
-    // Handle generic array like "array<Foo>"
-    const genMatch = p.match(/array\s*<\s*([^,>\s]+)\s*>/i);
+    // Handle generic arrays and collections like "array<Foo>", "list<Foo>" or "Collection<int, Foo>"
+    const genMatch = p.match(
+      /^\\?(?:array|list|iterable|non-empty-array|non-empty-list|[A-Za-z0-9_\\]*Collection)\s*<(.+)>$/i
+    );
     if (genMatch) {
-      const inner = genMatch[1].replace(/[^A-Za-z0-9_]/g, '');
-      mapped.push(`${inner}[]`);
+      const inner = mapDocTypeToTs(splitTopLevel(genMatch[1], ',').pop()!, resolveClass);
+      mapped.push(inner.includes(' | ') ? `(${inner})[]` : `${inner}[]`);
       continue;
     }
 
@@ -104,8 +153,13 @@ export function mapDocTypeToTs(docType: string): string {
       continue;
     }
 
-    // Default: sanitize and use as-is
-    const san = p.replace(/[^A-Za-z0-9_\\[\]]/g, '').replace(/\\/g, '');
+    if (resolveClass && /^\\?[A-Za-z_][A-Za-z0-9_\\]*$/.test(p)) {
+      mapped.push(resolveClass(p));
+      continue;
+    }
+
+    // Default: sanitize and use the short class name
+    const san = p.replace(/^.*\\/, '').replace(/[^A-Za-z0-9_[\]]/g, '');
     mapped.push(san === '' ? 'any' : san);
   }
 
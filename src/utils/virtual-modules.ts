@@ -0,0 +1,102 @@
+import { posix } from 'node:path';
+import type { ViteDevServer } from 'vite';
+import { MANIFEST_FILE } from './manifest.js';
+import { writeGeneratedFiles, type GeneratedFiles } from './package.js';
+
+/**
+ * Prefix for resolved virtual module IDs. The null byte keeps other plugins from processing them.
+ */
+const VIRTUAL_PREFIX = '\0ferry:';
+
+/**
+ * In-memory store of generated packages, served to Vite as virtual modules.
+ */
+export type VirtualModules = {
+  /** Replace the generated files of a package. */
+  set(packageName: string, files: GeneratedFiles): void;
+  /** Resolve a package import (`@ferry/enums`, `@ferry/enums/Billing`) or a relative import between its modules. */
+  resolveId(source: string, importer?: string): string | null;
+  /** Load the code of a resolved virtual module. */
+  load(id: string): string | null;
+  /** Reload the modules of a package that Vite has already loaded. */
+  invalidate(server: ViteDevServer, packageName: string): void;
+};
+
+/**
+ * Find the runtime file a package subpath refers to ("" -> index.js, "Billing" -> Billing/index.js).
+ */
+function resolvePackageFile(files: GeneratedFiles, subpath: string): string | null {
+  const candidates = subpath ? [subpath, `${subpath}.js`, `${subpath}/index.js`] : ['index.js'];
+  return candidates.find((candidate) => candidate.endsWith('.js') && candidate in files) ?? null;
+}
+
+/**
+ * Create an in-memory store of generated packages.
+ */
+export function createVirtualModules(): VirtualModules {
+  const packages: Record<string, GeneratedFiles> = {};
+
+  // Split a module path like "@ferry/enums/Billing" into its package and subpath
+  const findPackage = (path: string): { packageName: string; subpath: string } | null => {
+    for (const packageName of Object.keys(packages)) {
+      if (path === packageName) return { packageName, subpath: '' };
+      if (path.startsWith(`${packageName}/`)) return { packageName, subpath: path.slice(packageName.length + 1) };
+    }
+    return null;
+  };
+
+  return {
+    set(packageName, files) {
+      packages[packageName] = files;
+    },
+
+    resolveId(source, importer) {
+      let path = source;
+
+      // Barrels import their modules relatively (./Billing/BillingStatus.js)
+      if (importer?.startsWith(VIRTUAL_PREFIX) && source.startsWith('.')) {
+        path = posix.join(posix.dirname(importer.slice(VIRTUAL_PREFIX.length)), source);
+      }
+
+      const match = findPackage(path);
+      if (!match) return null;
+
+      const file = resolvePackageFile(packages[match.packageName], match.subpath);
+      return file ? `${VIRTUAL_PREFIX}${match.packageName}/${file}` : null;
+    },
+
+    load(id) {
+      if (!id.startsWith(VIRTUAL_PREFIX)) return null;
+
+      const match = findPackage(id.slice(VIRTUAL_PREFIX.length));
+      return match ? (packages[match.packageName][match.subpath] ?? null) : null;
+    },
+
+    invalidate(server, packageName) {
+      const prefix = `${VIRTUAL_PREFIX}${packageName}/`;
+      for (const [id, module] of server.moduleGraph.idToModuleMap) {
+        if (id.startsWith(prefix)) {
+          server.reloadModule(module);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Get only the type declarations (and their source maps) of a package, plus its manifest for breaking change detection.
+ */
+export function getGeneratedTypes(files: GeneratedFiles): GeneratedFiles {
+  return Object.fromEntries(
+    Object.entries(files).filter(
+      ([path]) => path.endsWith('.d.ts') || path.endsWith('.d.ts.map') || path === MANIFEST_FILE
+    )
+  );
+}
+
+/**
+ * Write only the type declarations and manifest of a package, for the TypeScript language server and tooling.
+ */
+export function writeGeneratedTypes(outputDir: string, files: GeneratedFiles): void {
+  writeGeneratedFiles(outputDir, getGeneratedTypes(files));
+}
@@ -0,0 +1,55 @@
+import { join, basename } from 'node:path';
+import { buildApiFiles, type ApiGeneratorOptions } from '../generators/api.js';
+import { logError, logFileChange, logRegeneration } from '../utils/banner.js';
+import type { WatchServer } from '../utils/file-watcher.js';
+import { writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+
+export type ApiWatcherOptions = ApiGeneratorOptions & {
+  server: WatchServer;
+  /** Receives regenerated files instead of writing them to outputDir (used for virtual modules). */
+  onGenerate?: (files: GeneratedFiles) => void;
+};
+
+/**
+ * Set up a watcher for the route, controller, resource and form request files the API client is built from.
+ */
+export function setupApiWatcher(options: ApiWatcherOptions): void {
+  const { server, onGenerate, ...generatorOptions } = options;
+  const { routesDirs, controllersDirs, resourcesDirs, requestsDirs, outputDir } = generatorOptions;
+
+  const classDirs = [...controllersDirs, ...resourcesDirs, ...requestsDirs];
+  const generatedJsPath = join(outputDir, 'index.js');
+
+  // Watch PHP route files, and the classes endpoints are resolved against
+  server.watcher.add(routesDirs.map((dir) => join(dir, '*.php')));
+  server.watcher.add(classDirs.map((dir) => join(dir, '**/*.php')));
+
+  // Also watch the generated JS file (for HMR), unless the package is served from memory
+  if (!onGenerate) {
+    server.watcher.add(generatedJsPath);
+  }
+
+  server.watcher.on('change', (filePath: string) => {
+    if ([...routesDirs, ...classDirs].some((dir) => filePath.startsWith(dir))) {
+      try {
+        logFileChange('api', basename(filePath));
+
+        // Regenerate API client files
+        const files = buildApiFiles(generatorOptions);
+
+        if (onGenerate) {
+          onGenerate(files);
+        } else {
+          writeGeneratedFiles(outputDir, files);
+
+          // Tell Vite the generated file changed (triggers normal HMR)
+          server.watcher.emit('change', generatedJsPath);
+        }
+
+        logRegeneration('api');
+      } catch (e) {
+        logError('api', 'Error regenerating API client types', e);
+      }
+    }
+  });
+}
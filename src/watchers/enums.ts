@@ -1,37 +1,50 @@
 import { join, basename } from 'node:path';
-import type { ViteDevServer } from 'vite';
-import { generateEnums, type EnumGeneratorOptions } from '../generators/enums.js';
+import { buildEnumFiles, type EnumGeneratorOptions } from '../generators/enums.js';
 import { logError, logFileChange, logRegeneration } from '../utils/banner.js';
+import type { WatchServer } from '../utils/file-watcher.js';
+import { writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
 
 export type EnumWatcherOptions = EnumGeneratorOptions & {
-  server: ViteDevServer;
+  server: WatchServer;
+  /** Receives regenerated files instead of writing them to outputDir (used for virtual modules). */
+  onGenerate?: (files: GeneratedFiles) => void;
 };
 
 /**
  * Set up a watcher for enum files.
  */
 export function setupEnumWatcher(options: EnumWatcherOptions): void {
-  const { enumsDir, outputDir, packageName, cwd, server } = options;
+  const { server, onGenerate, ...generatorOptions } = options;
+  const { enumsDirs, outputDir, langDirs = [] } = generatorOptions;
 
-  const enumPattern = join(enumsDir, '*.php');
+  const enumPatterns = enumsDirs.map((dir) => join(dir, '**/*.php'));
+  const langPatterns = langDirs.flatMap((dir) => [join(dir, '**/*.php'), join(dir, '*.json')]);
   const generatedJsPath = join(outputDir, 'index.js');
 
-  // Watch PHP enum files
-  server.watcher.add(enumPattern);
+  // Watch PHP enum files and the lang files their labels are translated from
+  server.watcher.add([...enumPatterns, ...langPatterns]);
 
-  // Also watch the generated JS file (for HMR)
-  server.watcher.add(generatedJsPath);
+  // Also watch the generated JS file (for HMR), unless the package is served from memory
+  if (!onGenerate) {
+    server.watcher.add(generatedJsPath);
+  }
 
   server.watcher.on('change', (filePath: string) => {
-    if (filePath.startsWith(enumsDir)) {
+    if ([...enumsDirs, ...langDirs].some((dir) => filePath.startsWith(dir))) {
       try {
         logFileChange('enums', basename(filePath));
 
         // Regenerate enum files
-        generateEnums({ enumsDir, outputDir, packageName, cwd });
+        const files = buildEnumFiles(generatorOptions);
 
-        // Tell Vite the generated file changed (triggers normal HMR)
-        server.watcher.emit('change', generatedJsPath);
+        if (onGenerate) {
+          onGenerate(files);
+        } else {
+          writeGeneratedFiles(outputDir, files);
+
+          // Tell Vite the generated file changed (triggers normal HMR)
+          server.watcher.emit('change', generatedJsPath);
+        }
 
         logRegeneration('enums');
       } catch (e) {
@@ -0,0 +1,54 @@
+import { join, basename } from 'node:path';
+import { buildInertiaFiles, type InertiaGeneratorOptions } from '../generators/inertia.js';
+import { logError, logFileChange, logRegeneration } from '../utils/banner.js';
+import type { WatchServer } from '../utils/file-watcher.js';
+import { writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+
+export type InertiaWatcherOptions = InertiaGeneratorOptions & {
+  server: WatchServer;
+  /** Receives regenerated files instead of writing them to outputDir (used for virtual modules). */
+  onGenerate?: (files: GeneratedFiles) => void;
+};
+
+/**
+ * Set up a watcher for the controller, middleware and resource files page props are read from.
+ */
+export function setupInertiaWatcher(options: InertiaWatcherOptions): void {
+  const { server, onGenerate, ...generatorOptions } = options;
+  const { controllersDirs, middlewareDirs, resourcesDirs, outputDir } = generatorOptions;
+
+  const sourceDirs = [...controllersDirs, ...middlewareDirs, ...resourcesDirs];
+  const generatedJsPath = join(outputDir, 'index.js');
+
+  // Watch PHP controllers and middleware, and the resources props are resolved against
+  server.watcher.add(sourceDirs.map((dir) => join(dir, '**/*.php')));
+
+  // Also watch the generated JS file (for HMR), unless the package is served from memory
+  if (!onGenerate) {
+    server.watcher.add(generatedJsPath);
+  }
+
+  server.watcher.on('change', (filePath: string) => {
+    if (sourceDirs.some((dir) => filePath.startsWith(dir))) {
+      try {
+        logFileChange('inertia', basename(filePath));
+
+        // Regenerate Inertia page props files
+        const files = buildInertiaFiles(generatorOptions);
+
+        if (onGenerate) {
+          onGenerate(files);
+        } else {
+          writeGeneratedFiles(outputDir, files);
+
+          // Tell Vite the generated file changed (triggers normal HMR)
+          server.watcher.emit('change', generatedJsPath);
+        }
+
+        logRegeneration('inertia');
+      } catch (e) {
+        logError('inertia', 'Error regenerating Inertia page props types', e);
+      }
+    }
+  });
+}
@@ -0,0 +1,54 @@
+import { join, basename } from 'node:path';
+import { buildLangFiles, type LangGeneratorOptions } from '../generators/lang.js';
+import { logError, logFileChange, logRegeneration } from '../utils/banner.js';
+import type { WatchServer } from '../utils/file-watcher.js';
+import { writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+
+export type LangWatcherOptions = LangGeneratorOptions & {
+  server: WatchServer;
+  /** Receives regenerated files instead of writing them to outputDir (used for virtual modules). */
+  onGenerate?: (files: GeneratedFiles) => void;
+};
+
+/**
+ * Set up a watcher for lang files.
+ */
+export function setupLangWatcher(options: LangWatcherOptions): void {
+  const { server, onGenerate, ...generatorOptions } = options;
+  const { langDirs, outputDir } = generatorOptions;
+
+  const langPatterns = langDirs.flatMap((dir) => [join(dir, '**/*.php'), join(dir, '*.json')]);
+  const generatedJsPath = join(outputDir, 'index.js');
+
+  // Watch PHP and JSON lang files
+  server.watcher.add(langPatterns);
+
+  // Also watch the generated JS file (for HMR), unless the package is served from memory
+  if (!onGenerate) {
+    server.watcher.add(generatedJsPath);
+  }
+
+  server.watcher.on('change', (filePath: string) => {
+    if (langDirs.some((dir) => filePath.startsWith(dir))) {
+      try {
+        logFileChange('lang', basename(filePath));
+
+        // Regenerate translation files
+        const files = buildLangFiles(generatorOptions);
+
+        if (onGenerate) {
+          onGenerate(files);
+        } else {
+          writeGeneratedFiles(outputDir, files);
+
+          // Tell Vite the generated file changed (triggers normal HMR)
+          server.watcher.emit('change', generatedJsPath);
+        }
+
+        logRegeneration('lang');
+      } catch (e) {
+        logError('lang', 'Error regenerating translation types', e);
+      }
+    }
+  });
+}
@@ -1,43 +1,63 @@
 import { join, basename } from 'node:path';
-import type { ViteDevServer } from 'vite';
-import { generateResources, type ResourceGeneratorOptions } from '../generators/resources.js';
+import { buildResourceFiles, type ResourceGeneratorOptions } from '../generators/resources.js';
 import { logError, logFileChange, logRegeneration } from '../utils/banner.js';
+import type { WatchServer } from '../utils/file-watcher.js';
+import { writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
 
 export type ResourceWatcherOptions = ResourceGeneratorOptions & {
-  server: ViteDevServer;
+  server: WatchServer;
+  /** Receives regenerated files instead of writing them to outputDir (used for virtual modules). */
+  onGenerate?: (files: GeneratedFiles) => void;
 };
 
 /**
- * Set up a watcher for resource and model files.
+ * Set up a watcher for resource, model, service provider and migration files.
  */
 export function setupResourceWatcher(options: ResourceWatcherOptions): void {
-  const { resourcesDir, enumsDir, modelsDir, outputDir, packageName, cwd, server } = options;
+  const { server, onGenerate, ...generatorOptions } = options;
+  const { resourcesDirs, modelsDirs, providersDirs = [], migrationsDirs = [], outputDir } = generatorOptions;
 
-  const resourcePattern = join(resourcesDir, '*.php');
-  const modelPattern = join(modelsDir, '*.php');
+  const resourcePatterns = resourcesDirs.map((dir) => join(dir, '**/*.php'));
+  const modelPatterns = modelsDirs.map((dir) => join(dir, '**/*.php'));
+  const providerPatterns = providersDirs.map((dir) => join(dir, '**/*.php'));
+  const migrationPatterns = migrationsDirs.map((dir) => join(dir, '**/*.php'));
   const generatedDtsPath = join(outputDir, 'index.d.ts');
 
-  // Watch PHP resource and model files
-  server.watcher.add(resourcePattern);
-  server.watcher.add(modelPattern);
+  // Watch PHP resource and model files, service providers that may disable wrapping and migrations
+  server.watcher.add(resourcePatterns);
+  server.watcher.add(modelPatterns);
+  server.watcher.add(providerPatterns);
+  server.watcher.add(migrationPatterns);
 
-  // Also watch the generated .d.ts file
-  server.watcher.add(generatedDtsPath);
+  // Also watch the generated .d.ts file, unless the package is served from memory
+  if (!onGenerate) {
+    server.watcher.add(generatedDtsPath);
+  }
 
   const handleChange = (filePath: string) => {
-    if (filePath.startsWith(resourcesDir) || filePath.startsWith(modelsDir)) {
+    const isResource = resourcesDirs.some((dir) => filePath.startsWith(dir));
+    const isModel = modelsDirs.some((dir) => filePath.startsWith(dir));
+    const isProvider = providersDirs.some((dir) => filePath.startsWith(dir));
+    const isMigration = migrationsDirs.some((dir) => filePath.startsWith(dir));
+
+    if (isResource || isModel || isProvider || isMigration) {
       try {
-        const isModel = filePath.startsWith(modelsDir);
-        const fileType = isModel ? 'model' : 'resource';
+        const fileType = isModel ? 'model' : isProvider ? 'provider' : isMigration ? 'migration' : 'resource';
 
         logFileChange(fileType, basename(filePath));
 
         // Regenerate resource types
-        generateResources({ resourcesDir, enumsDir, modelsDir, outputDir, packageName, cwd });
+        const files = buildResourceFiles(generatorOptions);
+
+        if (onGenerate) {
+          onGenerate(files);
+        } else {
+          writeGeneratedFiles(outputDir, files);
 
-        // Tell Vite the generated type file changed
-        // TypeScript will pick up changes automatically
-        server.watcher.emit('change', generatedDtsPath);
+          // Tell Vite the generated type file changed
+          // TypeScript will pick up changes automatically
+          server.watcher.emit('change', generatedDtsPath);
+        }
 
         logRegeneration('resources');
       } catch (e) {
@@ -0,0 +1,54 @@
+import { join, basename } from 'node:path';
+import { buildRouteFiles, type RouteGeneratorOptions } from '../generators/routes.js';
+import { logError, logFileChange, logRegeneration } from '../utils/banner.js';
+import type { WatchServer } from '../utils/file-watcher.js';
+import { writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+
+export type RouteWatcherOptions = RouteGeneratorOptions & {
+  server: WatchServer;
+  /** Receives regenerated files instead of writing them to outputDir (used for virtual modules). */
+  onGenerate?: (files: GeneratedFiles) => void;
+};
+
+/**
+ * Set up a watcher for route files.
+ */
+export function setupRouteWatcher(options: RouteWatcherOptions): void {
+  const { server, onGenerate, ...generatorOptions } = options;
+  const { routesDirs, outputDir } = generatorOptions;
+
+  const routePatterns = routesDirs.map((dir) => join(dir, '*.php'));
+  const generatedJsPath = join(outputDir, 'index.js');
+
+  // Watch PHP route files
+  server.watcher.add(routePatterns);
+
+  // Also watch the generated JS file (for HMR), unless the package is served from memory
+  if (!onGenerate) {
+    server.watcher.add(generatedJsPath);
+  }
+
+  server.watcher.on('change', (filePath: string) => {
+    if (routesDirs.some((dir) => filePath.startsWith(dir))) {
+      try {
+        logFileChange('routes', basename(filePath));
+
+        // Regenerate route files
+        const files = buildRouteFiles(generatorOptions);
+
+        if (onGenerate) {
+          onGenerate(files);
+        } else {
+          writeGeneratedFiles(outputDir, files);
+
+          // Tell Vite the generated file changed (triggers normal HMR)
+          server.watcher.emit('change', generatedJsPath);
+        }
+
+        logRegeneration('routes');
+      } catch (e) {
+        logError('routes', 'Error regenerating route types', e);
+      }
+    }
+  });
+}
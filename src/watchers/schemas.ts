@@ -0,0 +1,61 @@
+import { join, basename } from 'node:path';
+import { buildSchemaFiles, type SchemaGeneratorOptions } from '../generators/schemas.js';
+import { logError, logFileChange, logRegeneration } from '../utils/banner.js';
+import type { WatchServer } from '../utils/file-watcher.js';
+import { writeGeneratedFiles, type GeneratedFiles } from '../utils/package.js';
+
+export type SchemaWatcherOptions = SchemaGeneratorOptions & {
+  server: WatchServer;
+  /** Receives regenerated files instead of writing them to outputDir (used for virtual modules). */
+  onGenerate?: (files: GeneratedFiles) => void;
+};
+
+/**
+ * Set up a watcher for form request files.
+ */
+export function setupSchemaWatcher(options: SchemaWatcherOptions): void {
+  const { server, onGenerate, ...generatorOptions } = options;
+  const { requestsDirs, enumsDirs, outputDir } = generatorOptions;
+
+  const requestPatterns = requestsDirs.map((dir) => join(dir, '**/*.php'));
+  const enumPatterns = enumsDirs.map((dir) => join(dir, '**/*.php'));
+  const generatedJsPath = join(outputDir, 'index.js');
+
+  // Watch PHP form request files (enums are inlined into schemas, so watch those too)
+  server.watcher.add(requestPatterns);
+  server.watcher.add(enumPatterns);
+
+  // Also watch the generated JS file (for HMR), unless the package is served from memory
+  if (!onGenerate) {
+    server.watcher.add(generatedJsPath);
+  }
+
+  server.watcher.on('change', (filePath: string) => {
+    const isRequest = requestsDirs.some((dir) => filePath.startsWith(dir));
+    const isEnum = enumsDirs.some((dir) => filePath.startsWith(dir));
+
+    if (isRequest || isEnum) {
+      try {
+        const fileType = isRequest ? 'request' : 'enums';
+
+        logFileChange(fileType, basename(filePath));
+
+        // Regenerate schema files
+        const files = buildSchemaFiles(generatorOptions);
+
+        if (onGenerate) {
+          onGenerate(files);
+        } else {
+          writeGeneratedFiles(outputDir, files);
+
+          // Tell Vite the generated file changed (triggers normal HMR)
+          server.watcher.emit('change', generatedJsPath);
+        }
+
+        logRegeneration('schemas');
+      } catch (e) {
+        logError('schemas', 'Error regenerating schema types', e);
+      }
+    }
+  });
+}
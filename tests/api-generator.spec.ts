@@ -0,0 +1,392 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+  buildApiFiles,
+  generateApiRuntime,
+  generateApiTypeScript,
+  resolveApiEndpoints,
+  type ApiEndpoint,
+} from '../src/generators/api.js';
+import { parseControllerActions } from '../src/utils/controller-parser.js';
+import { writeGeneratedFiles } from '../src/utils/package.js';
+import { parseRouteFile } from '../src/utils/route-parser.js';
+import { dedent } from './utils.js';
+
+const fixturesDir = join(import.meta.dirname, 'fixtures');
+
+const commentController = dedent`
+  <?php
+
+  namespace App\\Http\\Controllers;
+
+  use App\\Http\\Requests\\SearchCommentsRequest;
+  use App\\Http\\Requests\\StoreCommentRequest;
+  use App\\Http\\Resources\\CommentResource;
+  use App\\Models\\Post;
+
+  class CommentController extends Controller
+  {
+      public function index(SearchCommentsRequest $request, Post $post)
+      {
+          return CommentResource::collection($post->comments()->cursorPaginate());
+      }
+
+      public function store(StoreCommentRequest $request, Post $post)
+      {
+          return (new CommentResource($post->comments()->create($request->validated())))
+              ->additional(['meta' => ['created' => true]]);
+      }
+  }
+`;
+
+const endpoints: ApiEndpoint[] = resolveApiEndpoints(
+  parseRouteFile(dedent`
+    <?php
+    use App\\Http\\Controllers\\CommentController;
+
+    Route::get('/posts/{post}/comments', [CommentController::class, 'index'])->name('comments.index');
+    Route::post('/posts/{post}/comments', [CommentController::class, 'store'])->name('comments.store');
+    Route::get('/comments/{comment}', [CommentController::class, 'show'])->name('comments.show');
+  `),
+  { 'App\\Http\\Controllers\\CommentController': parseControllerActions(commentController) },
+  { 'App\\Http\\Resources\\CommentResource': 'CommentResource' },
+  {
+    'App\\Http\\Requests\\SearchCommentsRequest': 'SearchCommentsRequest',
+    'App\\Http\\Requests\\StoreCommentRequest': 'StoreCommentRequest',
+  }
+);
+
+describe('parseControllerActions', () => {
+  it('reads the resources returned by each public action', () => {
+    const actions = parseControllerActions(dedent`
+      <?php
+
+      namespace App\\Http\\Controllers;
+
+      use App\\Http\\Resources\\UserCollection;
+      use App\\Http\\Resources\\UserResource;
+
+      class UserController extends Controller
+      {
+          public function index()
+          {
+              $users = User::query()->paginate(20);
+
+              return UserResource::collection($users);
+          }
+
+          public function all()
+          {
+              return UserResource::collection(User::all());
+          }
+
+          public function list()
+          {
+              return new UserCollection(User::simplePaginate());
+          }
+
+          public function show(User $user): UserResource
+          {
+              return $user->isAdmin() ? abort(403) : $user;
+          }
+
+          protected function find(): UserResource {}
+      }
+    `);
+
+    expect(actions).toEqual({
+      index: { response: { resource: 'App\\Http\\Resources\\UserResource', kind: 'paginated' }, parameterTypes: [] },
+      all: { response: { resource: 'App\\Http\\Resources\\UserResource', kind: 'collection' }, parameterTypes: [] },
+      list: {
+        response: { resource: 'App\\Http\\Resources\\UserCollection', kind: 'resource', paginated: true },
+        parameterTypes: [],
+      },
+      show: {
+        response: { resource: 'App\\Http\\Resources\\UserResource', kind: 'resource' },
+        parameterTypes: ['App\\Http\\Controllers\\User'],
+      },
+    });
+  });
+
+  it('resolves type-hinted parameters and follows chained response methods', () => {
+    const actions = parseControllerActions(commentController);
+
+    expect(actions.store).toEqual({
+      response: { resource: 'App\\Http\\Resources\\CommentResource', kind: 'resource' },
+      parameterTypes: ['App\\Http\\Requests\\StoreCommentRequest', 'App\\Models\\Post'],
+    });
+    expect(actions.index.response).toEqual({
+      resource: 'App\\Http\\Resources\\CommentResource',
+      kind: 'cursorPaginated',
+    });
+  });
+
+  it('ignores the return statements of closures in an action', () => {
+    const actions = parseControllerActions(dedent`
+      <?php
+      namespace App\\Http\\Controllers;
+
+      use App\\Http\\Resources\\OrderResource;
+      use App\\Http\\Resources\\UserResource;
+
+      class OrderController extends Controller
+      {
+          public function store()
+          {
+              $order = DB::transaction(fn () => new OrderResource(Order::create()));
+
+              return response()->json(['ok' => true]);
+          }
+
+          public function summary(User $user)
+          {
+              $orders = $user->orders->map(function ($order) {
+                  return new OrderResource($order);
+              });
+
+              return new UserResource($user);
+          }
+      }
+    `);
+
+    expect(actions.store.response).toBeUndefined();
+    expect(actions.summary.response).toEqual({ resource: 'App\\Http\\Resources\\UserResource', kind: 'resource' });
+  });
+
+  it('returns no actions for invalid PHP', () => {
+    expect(parseControllerActions('not valid php {')).toEqual({});
+  });
+});
+
+describe('resolveApiEndpoints', () => {
+  it('keeps named routes whose action returns a resource or validates a form request', () => {
+    expect(endpoints.map((e) => [e.name, e.method, e.response, e.request])).toEqual([
+      ['comments.index', 'GET', { resource: 'CommentResource', generic: 'CursorPaginated' }, 'SearchCommentsRequest'],
+      ['comments.store', 'POST', { resource: 'CommentResource', member: 'Response' }, 'StoreCommentRequest'],
+    ]);
+  });
+});
+
+describe('generateApiTypeScript', () => {
+  it('types responses with resource envelopes and bodies with form request inputs', () => {
+    const result = generateApiTypeScript(endpoints, '@ferry/resources', '@ferry/schemas');
+
+    expect(result).toContain('import type { CommentResource, CursorPaginated } from "@ferry/resources";');
+    expect(result).toContain(
+      'import type { SearchCommentsRequestInput, StoreCommentRequestInput } from "@ferry/schemas";'
+    );
+    expect(result).toContain(dedent`
+      export declare const api: {
+          comments: {
+              index(params: {
+                  post: ApiParameter;
+              } & SearchCommentsRequestInput & Record<string, unknown>, init?: RequestInit): Promise<CursorPaginated<CommentResource>>;
+              store(params: {
+                  post: ApiParameter;
+              }, body: StoreCommentRequestInput, init?: RequestInit): Promise<CommentResource.Response>;
+          };
+      };
+    `);
+  });
+
+  it('nests the endpoint of a group name as its index and sends untyped bodies without a form request', () => {
+    const result = generateApiTypeScript(
+      resolveApiEndpoints(
+        parseRouteFile(dedent`
+          <?php
+          use App\\Http\\Controllers\\PostController;
+
+          Route::get('/posts', [PostController::class, 'index'])->name('posts');
+          Route::get('/posts/{post}', [PostController::class, 'show'])->name('posts.show');
+          Route::put('/posts/{post}', [PostController::class, 'update'])->name('posts.update');
+        `),
+        {
+          'App\\Http\\Controllers\\PostController': parseControllerActions(dedent`
+            <?php
+            namespace App\\Http\\Controllers;
+
+            use App\\Http\\Resources\\PostResource;
+            use App\\Models\\Post;
+
+            class PostController extends Controller
+            {
+                public function index()
+                {
+                    return PostResource::collection(Post::all());
+                }
+
+                public function show(Post $post)
+                {
+                    return new PostResource($post);
+                }
+
+                public function update(Post $post)
+                {
+                    return new PostResource($post);
+                }
+            }
+          `),
+        },
+        { 'App\\Http\\Resources\\PostResource': 'PostResource' },
+        {}
+      ),
+      '@ferry/resources',
+      '@ferry/schemas'
+    );
+
+    expect(result).toContain(dedent`
+      export declare const api: {
+          posts: {
+              show(params: {
+                  post: ApiParameter;
+              } & Record<string, unknown>, init?: RequestInit): Promise<PostResource.Response>;
+              update(params: {
+                  post: ApiParameter;
+              }, body?: Record<string, unknown>, init?: RequestInit): Promise<PostResource.Response>;
+              index(params?: Record<string, unknown>, init?: RequestInit): Promise<PostResource.Collection>;
+          };
+      };
+    `);
+  });
+});
+
+describe('resolveApiEndpoints paginated resources', () => {
+  it('types only collections made from a paginator as paginated', () => {
+    const resolved = resolveApiEndpoints(
+      parseRouteFile(dedent`
+        <?php
+        use App\\Http\\Controllers\\UserController;
+
+        Route::get('/users', [UserController::class, 'index'])->name('users.index');
+        Route::get('/users/page', [UserController::class, 'page'])->name('users.page');
+      `),
+      {
+        'App\\Http\\Controllers\\UserController': parseControllerActions(dedent`
+          <?php
+          namespace App\\Http\\Controllers;
+
+          use App\\Http\\Resources\\UserCollection;
+          use App\\Http\\Resources\\UserResource;
+
+          class UserController extends Controller
+          {
+              public function index()
+              {
+                  return new UserCollection(User::paginate());
+              }
+
+              public function page()
+              {
+                  return UserResource::make(User::paginate());
+              }
+          }
+        `),
+      },
+      {
+        'App\\Http\\Resources\\UserCollection': 'UserCollection',
+        'App\\Http\\Resources\\UserResource': 'UserResource',
+      },
+      {},
+      ['App\\Http\\Resources\\UserCollection']
+    );
+
+    expect(resolved.map((e) => [e.name, e.response])).toEqual([
+      ['users.index', { resource: 'UserCollection', member: 'Paginated' }],
+      ['users.page', { resource: 'UserResource', member: 'Response' }],
+    ]);
+  });
+});
+
+describe('buildApiFiles', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('resolves route actions against the controllers', () => {
+    const files = buildApiFiles({
+      routesDirs: [join(fixturesDir, 'routes')],
+      controllersDirs: [join(fixturesDir, 'Controllers')],
+      resourcesDirs: [join(fixturesDir, 'Resources')],
+      requestsDirs: [join(fixturesDir, 'Requests')],
+      outputDir: tempDir,
+      packageName: '@ferry/api',
+      resourcesPackageName: '@ferry/resources',
+      schemasPackageName: '@ferry/schemas',
+      cwd: fixturesDir,
+    });
+
+    expect(Object.keys(files).sort()).toEqual(['index.d.ts', 'index.js', 'package.json']);
+    expect(files['index.d.ts']).toContain(
+      'import type { Paginated, PostResource, SimplePaginated, UserResource } from "@ferry/resources";'
+    );
+    expect(files['index.d.ts']).toContain('Promise<UserResource.Response>');
+    expect(files['index.d.ts']).toContain(
+      'index(params?: Record<string, unknown>, init?: RequestInit): Promise<Paginated<PostResource>>;'
+    );
+    expect(files['index.d.ts']).toContain('Promise<SimplePaginated<PostResource>>');
+    // Actions without a resource or form request (users.ban, dashboard) and routes without a controller are skipped
+    expect(files['index.d.ts']).not.toContain('ban(');
+    expect(files['index.d.ts']).not.toContain('dashboard');
+    expect(files['index.d.ts']).not.toContain('comments');
+  });
+
+  it('sends requests with parameters, query strings and JSON bodies', async () => {
+    writeGeneratedFiles(tempDir, { 'index.js': generateApiRuntime(endpoints) });
+    const { api, configureApi, ApiError } = await import(join(tempDir, 'index.js'));
+
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ data: { id: 1 } }), { status: 201 }));
+    configureApi({ baseUrl: 'https://example.com', headers: { Authorization: 'Bearer token' }, fetch });
+
+    await expect(api.comments.store({ post: 5 }, { body: 'Hi' })).resolves.toEqual({ data: { id: 1 } });
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://example.com/posts/5/comments');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"body":"Hi"}');
+    expect(new Headers(init.headers).get('Content-Type')).toBe('application/json');
+    expect(new Headers(init.headers).get('Authorization')).toBe('Bearer token');
+
+    fetch.mockResolvedValueOnce(new Response(JSON.stringify({ message: 'Not found.' }), { status: 404 }));
+    const error = await api.comments.index({ post: 5, search: 'ferry' }).catch((e: Error) => e);
+    expect(fetch.mock.calls[1][0]).toBe('https://example.com/posts/5/comments?search=ferry');
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 404, data: { message: 'Not found.' } });
+  });
+
+  it('sends bodies with files as multipart form data', async () => {
+    const upload: ApiEndpoint = {
+      name: 'avatars.update',
+      uri: '/users/{user}/avatar',
+      method: 'PUT',
+      parameters: [{ name: 'user', optional: false }],
+      response: null,
+      request: 'UpdateAvatarRequest',
+    };
+    writeGeneratedFiles(tempDir, { 'index.js': generateApiRuntime([upload]) });
+    const { api, configureApi } = await import(join(tempDir, 'index.js'));
+
+    const fetch = vi.fn(async () => new Response(null, { status: 204 }));
+    configureApi({ fetch });
+
+    const avatar = new File(['image'], 'avatar.png', { type: 'image/png' });
+    await api.avatars.update({ user: 5 }, { avatar, crop: { x: 10 }, public: true });
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const form = init.body as FormData;
+
+    expect(url).toBe('/users/5/avatar');
+    expect(init.method).toBe('POST');
+    expect(new Headers(init.headers).has('Content-Type')).toBe(false);
+    expect(form).toBeInstanceOf(FormData);
+    expect((form.get('avatar') as File).name).toBe('avatar.png');
+    expect(form.get('crop[x]')).toBe('10');
+    expect(form.get('public')).toBe('1');
+    expect(form.get('_method')).toBe('PUT');
+  });
+});
@@ -0,0 +1,85 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { checkGeneratedFiles, formatUnifiedDiff } from '../src/utils/check.js';
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('returns an empty string for identical content', () => {
+    expect(formatUnifiedDiff('index.js', 'a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('formats changed lines with context', () => {
+    const actual = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n') + '\n';
+    const expected = ['1', '2', '3', '4', 'five', '6', '7', '8'].join('\n') + '\n';
+
+    expect(formatUnifiedDiff('Status.d.ts', actual, expected)).toBe(
+      [
+        '--- a/Status.d.ts',
+        '+++ b/Status.d.ts',
+        '@@ -2,7 +2,7 @@',
+        ' 2',
+        ' 3',
+        ' 4',
+        '-5',
+        '+five',
+        ' 6',
+        ' 7',
+        ' 8',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => String(i + 1));
+    const changed = lines.map((line) => (line === '2' || line === '18' ? `${line}!` : line));
+
+    const diff = formatUnifiedDiff('index.js', lines.join('\n'), changed.join('\n'));
+    expect(diff).toContain('@@ -1,5 +1,5 @@');
+    expect(diff).toContain('@@ -15,6 +15,6 @@');
+  });
+
+  it('formats added and removed files', () => {
+    expect(formatUnifiedDiff('New.js', null, 'a\n')).toBe('--- /dev/null\n+++ b/New.js\n@@ -0,0 +1,1 @@\n+a\n');
+    expect(formatUnifiedDiff('Old.js', 'a\n', null)).toBe('--- a/Old.js\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-a\n');
+  });
+});
+
+describe('checkGeneratedFiles', () => {
+  it('reports changed, missing and stale files', () => {
+    mkdirSync(join(tempDir, 'Billing'));
+    writeFileSync(join(tempDir, 'index.js'), 'same\n');
+    writeFileSync(join(tempDir, 'Status.js'), 'old\n');
+    writeFileSync(join(tempDir, 'Billing/Removed.js'), 'removed\n');
+    writeFileSync(join(tempDir, 'notes.md'), 'not generated\n');
+
+    const drift = checkGeneratedFiles(tempDir, {
+      'index.js': 'same\n',
+      'Status.js': 'new\n',
+      'Added.js': 'added\n',
+    });
+
+    expect(drift).toEqual([
+      { path: join(tempDir, 'Added.js'), expected: 'added\n', actual: null },
+      { path: join(tempDir, 'Billing/Removed.js'), expected: null, actual: 'removed\n' },
+      { path: join(tempDir, 'Status.js'), expected: 'new\n', actual: 'old\n' },
+    ]);
+  });
+
+  it('reports nothing when the output directory is up to date', () => {
+    writeFileSync(join(tempDir, 'index.js'), 'same\n');
+
+    expect(checkGeneratedFiles(tempDir, { 'index.js': 'same\n' })).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import { cpSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { run } from '../src/cli.js';
+import { loadConfigFile } from '../src/config.js';
+
+const projectDir = join(import.meta.dirname, 'fixtures', 'namespaced');
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('loadConfigFile', () => {
+  it('loads ferry.config.ts from the project root', async () => {
+    writeFileSync(
+      join(tempDir, 'ferry.config.ts'),
+      `const config: { namespace: string } = { namespace: '@api' };\nexport default config;\n`
+    );
+
+    expect(await loadConfigFile(tempDir)).toEqual({ cwd: tempDir, namespace: '@api' });
+  });
+
+  it('returns no options without a config file', async () => {
+    expect(await loadConfigFile(tempDir)).toEqual({});
+  });
+
+  it('throws for a missing explicit config file', async () => {
+    await expect(loadConfigFile(tempDir, 'missing.config.ts')).rejects.toThrow('Config file not found');
+  });
+});
+
+describe('run', () => {
+  it('generates packages using the config file', async () => {
+    writeFileSync(
+      join(tempDir, 'ferry.config.ts'),
+      `export default { cwd: ${JSON.stringify(projectDir)}, outputDir: ${JSON.stringify(join(tempDir, 'out'))} };\n`
+    );
+
+    expect(await run([], tempDir)).toBe(0);
+    expect(existsSync(join(tempDir, 'out/enums/Billing/BillingStatus.js'))).toBe(true);
+    expect(existsSync(join(tempDir, 'out/resources/InvoiceResource.d.ts'))).toBe(true);
+  });
+
+  it('exits non-zero when a PHP file fails to parse', async () => {
+    cpSync(join(projectDir, 'app'), join(tempDir, 'app'), { recursive: true });
+    mkdirSync(join(tempDir, 'app/Enums'), { recursive: true });
+    writeFileSync(join(tempDir, 'app/Enums/Broken.php'), '<?php\nenum Broken: string {\n    case A = \n}\n');
+    writeFileSync(join(tempDir, 'ferry.config.ts'), `export default { outputDir: 'out' };\n`);
+
+    expect(await run([], tempDir)).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('app/Enums/Broken.php'));
+  });
+
+  describe('--check', () => {
+    beforeEach(() => {
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      writeFileSync(
+        join(tempDir, 'ferry.config.ts'),
+        `export default { cwd: ${JSON.stringify(projectDir)}, outputDir: ${JSON.stringify(join(tempDir, 'types'))} };\n`
+      );
+    });
+
+    it('passes when the generated types are up to date', async () => {
+      expect(await run([], tempDir)).toBe(0);
+      expect(await run(['--check'], tempDir)).toBe(0);
+      expect(process.stdout.write).not.toHaveBeenCalled();
+    });
+
+    it('prints a diff and exits non-zero without writing when types are out of date', async () => {
+      expect(await run([], tempDir)).toBe(0);
+
+      const file = join(tempDir, 'types/enums/Billing/BillingStatus.js');
+      writeFileSync(file, 'outdated\n');
+      writeFileSync(join(tempDir, 'types/enums/Stale.js'), 'stale\n');
+
+      expect(await run(['--check'], tempDir)).toBe(1);
+      expect(readFileSync(file, 'utf8')).toBe('outdated\n');
+      expect(existsSync(join(tempDir, 'types/enums/Stale.js'))).toBe(true);
+
+      const output = vi.mocked(process.stdout.write).mock.calls.join('');
+      expect(output).toContain('--- a/types/enums/Billing/BillingStatus.js');
+      expect(output).toContain('-outdated');
+      expect(output).toContain('+++ /dev/null');
+    });
+
+    it('reports missing types without generating them', async () => {
+      expect(await run(['--check'], tempDir)).toBe(1);
+      expect(existsSync(join(tempDir, 'types'))).toBe(false);
+    });
+  });
+
+  describe('--breaking', () => {
+    beforeEach(() => {
+      cpSync(projectDir, tempDir, { recursive: true });
+      writeFileSync(join(tempDir, 'ferry.config.ts'), `export default { outputDir: 'types' };\n`);
+    });
+
+    it('passes without changes since the last generation', async () => {
+      expect(await run([], tempDir)).toBe(0);
+      expect(existsSync(join(tempDir, 'types/enums/manifest.json'))).toBe(true);
+
+      expect(await run(['--breaking'], tempDir)).toBe(0);
+    });
+
+    it('reports breaking changes as JSON and exits non-zero', async () => {
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      expect(await run([], tempDir)).toBe(0);
+
+      const enumFile = join(tempDir, 'app/Enums/Status.php');
+      writeFileSync(
+        enumFile,
+        readFileSync(enumFile, 'utf8').replace("case Inactive = 'inactive';", "case Paused = 'paused';")
+      );
+
+      expect(await run(['--breaking', '--json'], tempDir)).toBe(1);
+
+      const report = JSON.parse(vi.mocked(process.stdout.write).mock.calls.join(''));
+      expect(report.breaking).toBe(true);
+      expect(report.changes).toEqual([
+        expect.objectContaining({
+          kind: 'enum',
+          name: 'Status',
+          member: 'Inactive',
+          change: 'case-removed',
+          breaking: true,
+        }),
+        expect.objectContaining({
+          kind: 'enum',
+          name: 'Status',
+          member: 'Paused',
+          change: 'case-added',
+          breaking: false,
+        }),
+      ]);
+    });
+
+    it('compares against a snapshot directory', async () => {
+      writeFileSync(join(tempDir, 'ferry.config.ts'), `export default { outputDir: 'snapshot' };\n`);
+      expect(await run([], tempDir)).toBe(0);
+      rmSync(join(tempDir, 'app/Http/Resources/CustomerResource.php'));
+      writeFileSync(join(tempDir, 'ferry.config.ts'), `export default { outputDir: 'types' };\n`);
+
+      expect(await run(['--breaking', '--snapshot', 'snapshot'], tempDir)).toBe(1);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Resource CustomerResource was removed'));
+    });
+  });
+});
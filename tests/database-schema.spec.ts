@@ -0,0 +1,147 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, vi } from 'vitest';
+import { parseMigration, readDatabaseSchema } from '../src/utils/database-schema.js';
+import { getModelTable, parseResourceFieldsAst } from '../src/utils/php-parser.js';
+import { dedent } from './utils.js';
+
+const fixturesDir = join(import.meta.dirname, 'fixtures');
+const migrationsDir = join(fixturesDir, 'migrations');
+
+describe('parseMigration', () => {
+  it('maps column methods and modifiers to types', () => {
+    const schema = parseMigration(dedent`
+      <?php
+      return new class extends Migration
+      {
+          public function up(): void
+          {
+              Schema::create('posts', function (Blueprint $table) {
+                  $table->uuid();
+                  $table->foreignIdFor(User::class);
+                  $table->unsignedTinyInteger('rating')->nullable(false);
+                  $table->float('score')->nullable();
+                  $table->longText('body');
+                  $table->nullableMorphs('commentable');
+                  $table->index(['rating', 'score']);
+              });
+          }
+      };
+    `);
+
+    expect(schema).toEqual({
+      posts: {
+        uuid: { type: 'string', nullable: false },
+        user_id: { type: 'number', nullable: false },
+        rating: { type: 'number', nullable: false },
+        score: { type: 'number', nullable: true },
+        body: { type: 'string', nullable: false },
+        commentable_id: { type: 'number', nullable: true },
+        commentable_type: { type: 'string', nullable: true },
+      },
+    });
+  });
+
+  it('renames and drops tables without modifying the given schema', () => {
+    const before = { users: { id: { type: 'number', nullable: false } }, sessions: {} };
+    const after = parseMigration(
+      dedent`
+        <?php
+        return new class extends Migration
+        {
+            public function up(): void
+            {
+                Schema::rename('users', 'members');
+                Schema::drop('sessions');
+                Schema::table('members', fn (Blueprint $table) => $table->dropColumn('id'));
+            }
+        };
+      `,
+      before
+    );
+
+    expect(after).toEqual({ members: {} });
+    expect(before.users.id).toBeDefined();
+  });
+});
+
+describe('readDatabaseSchema', () => {
+  it('applies migrations in order, ignoring down()', () => {
+    const schema = readDatabaseSchema([migrationsDir], fixturesDir);
+
+    expect(schema.orders).toEqual({
+      id: { type: 'number', nullable: false },
+      user_id: { type: 'number', nullable: false },
+      total: { type: 'string', nullable: false },
+      items: { type: 'any', nullable: false },
+      status: { type: '"pending" | "shipped"', nullable: false },
+      street: { type: 'string', nullable: false },
+      shipped_at: { type: 'string', nullable: true },
+      created_at: { type: 'string', nullable: true },
+      updated_at: { type: 'string', nullable: true },
+      deleted_at: { type: 'string', nullable: true },
+      quantity: { type: 'number', nullable: true },
+    });
+    expect(Object.keys(schema.users)).toContain('remember_token');
+  });
+
+  it('reports migrations that fail to parse and skips them', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ferry-'));
+    writeFileSync(join(dir, '2025_01_01_000000_broken.php'), "<?php\nSchema::create('broken', function (\n");
+
+    const onError = vi.fn();
+    const schema = readDatabaseSchema([migrationsDir, dir], dir, onError);
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(onError).toHaveBeenCalledWith('2025_01_01_000000_broken.php', expect.any(Error));
+    expect(schema.orders).toBeDefined();
+  });
+});
+
+describe('getModelTable', () => {
+  it('derives the table from the class name or $table', () => {
+    expect(getModelTable('<?php class OrderItem extends Model {}')).toBe('order_items');
+    expect(getModelTable('<?php class Category extends Model {}')).toBe('categories');
+    expect(getModelTable('<?php class Person extends Model {}')).toBe('people');
+    expect(getModelTable('<?php class ChildProfile extends Model {}')).toBe('child_profiles');
+    expect(getModelTable('<?php class Child extends Model {}')).toBe('children');
+    expect(getModelTable('<?php class Equipment extends Model {}')).toBe('equipment');
+    expect(getModelTable("<?php class Person extends Model { protected $table = 'people'; }")).toBe('people');
+  });
+});
+
+describe('resource fields from the schema', () => {
+  it('types uncast model attributes from their columns', () => {
+    const fields = parseResourceFieldsAst(
+      dedent`
+        <?php
+        class OrderResource extends JsonResource
+        {
+            public function toArray($request): array
+            {
+                return [
+                    'id' => $this->id,
+                    'quantity' => $this->resource->quantity,
+                    'shipped_at' => $this->shipped_at,
+                    'street' => $this->street,
+                    'unknown' => $this->unknown,
+                ];
+            }
+        }
+      `,
+      {
+        modelsDir: join(fixturesDir, 'Models'),
+        enumsDir: join(fixturesDir, 'Enums'),
+        schema: readDatabaseSchema([migrationsDir], fixturesDir),
+      }
+    )!;
+
+    expect(fields.id.type).toBe('number');
+    expect(fields.quantity.type).toBe('number | null');
+    // The datetime cast keeps the column's nullability
+    expect(fields.shipped_at.type).toBe('string | null');
+    expect(fields.street.type).toBe('string');
+    expect(fields.unknown.type).toBe('string');
+  });
+});
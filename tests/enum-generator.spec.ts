@@ -1,11 +1,15 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { describe, it, expect } from 'vitest';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
 import {
+  buildEnumFiles,
   collectEnums,
   generateSingleEnumTypeScript,
   generateSingleEnumRuntime,
   generateEnumSourceMap,
 } from '../src/generators/enums.js';
+import { writeGeneratedFiles } from '../src/utils/package.js';
 import type { EnumDefinition } from '../src/utils/php-parser.js';
 import { dedent } from './utils.js';
 
@@ -42,6 +46,19 @@ describe('generateSingleEnumTypeScript', () => {
           ADMIN = "admin",
           USER = "user"
       }
+      export declare namespace Role {
+          export function cases(): Role[];
+          export function values(): RoleValue[];
+          export function labelFor(value: RoleValue, locale?: string): string;
+          export function options(locale?: string): {
+              value: RoleValue;
+              label: string;
+          }[];
+          export function from(value: string): Role;
+          export function tryFrom(value: string): Role | undefined;
+      }
+      export type RoleValue = "admin" | "user";
+      export type RoleKey = "ADMIN" | "USER";
     `);
   });
 
@@ -63,6 +80,19 @@ describe('generateSingleEnumTypeScript', () => {
           ADMIN = "admin",
           USER = "user"
       }
+      export declare namespace Role {
+          export function cases(): Role[];
+          export function values(): RoleValue[];
+          export function labelFor(value: RoleValue, locale?: string): string;
+          export function options(locale?: string): {
+              value: RoleValue;
+              label: string;
+          }[];
+          export function from(value: string): Role;
+          export function tryFrom(value: string): Role | undefined;
+      }
+      export type RoleValue = "admin" | "user";
+      export type RoleKey = "ADMIN" | "USER";
       //# sourceMappingURL=Role.d.ts.map
     `);
   });
@@ -90,10 +120,50 @@ describe('generateSingleEnumTypeScript', () => {
               value: "approved";
               label: "Approved";
           };
+          cases(): (typeof OrderStatus)[OrderStatusKey][];
+          values(): OrderStatusValue[];
+          labelFor(value: OrderStatusValue, locale?: string): string;
+          options(locale?: string): {
+              value: OrderStatusValue;
+              label: string;
+          }[];
+          from(value: string): (typeof OrderStatus)[OrderStatusKey];
+          tryFrom(value: string): (typeof OrderStatus)[OrderStatusKey] | undefined;
       };
+      export type OrderStatusValue = "pending" | "approved";
+      export type OrderStatusKey = "PENDING" | "APPROVED";
       //# sourceMappingURL=OrderStatus.d.ts.map
     `);
   });
+
+  it('declares no lookups by value for pure enums', () => {
+    const enumDef: EnumDefinition = {
+      name: 'Color',
+      backing: null,
+      cases: [
+        { key: 'RED', value: 'RED' },
+        { key: 'GREEN', value: 'GREEN' },
+      ],
+    };
+
+    expect(generateSingleEnumTypeScript(enumDef)).toBe(dedent`
+      export enum Color {
+          RED = "RED",
+          GREEN = "GREEN"
+      }
+      export declare namespace Color {
+          export function cases(): Color[];
+          export function values(): ColorValue[];
+          export function labelFor(value: ColorValue, locale?: string): string;
+          export function options(locale?: string): {
+              value: ColorValue;
+              label: string;
+          }[];
+      }
+      export type ColorValue = "RED" | "GREEN";
+      export type ColorKey = "RED" | "GREEN";
+    `);
+  });
 });
 
 describe('generateSingleEnumRuntime', () => {
@@ -110,7 +180,8 @@ describe('generateSingleEnumRuntime', () => {
     const result = generateSingleEnumRuntime(enumDef);
 
     expect(result).toBe(dedent`
-      export const OrderStatus = {
+      import { defineEnumHelpers } from "./helpers.js";
+      export const OrderStatus = defineEnumHelpers("OrderStatus", {
           PENDING: {
               value: "pending",
               label: "Pending Order"
@@ -119,7 +190,7 @@ describe('generateSingleEnumRuntime', () => {
               value: "approved",
               label: "Approved"
           }
-      };
+      });
     `);
   });
 
@@ -136,10 +207,32 @@ describe('generateSingleEnumRuntime', () => {
     const result = generateSingleEnumRuntime(enumDef);
 
     expect(result).toBe(dedent`
-      export const Role = {
+      import { defineEnumHelpers } from "./helpers.js";
+      export const Role = defineEnumHelpers("Role", {
           ADMIN: "admin",
           USER: "user"
-      };
+      });
+    `);
+  });
+
+  it('generates runtime object for pure enum without lookups', () => {
+    const enumDef: EnumDefinition = {
+      name: 'Color',
+      backing: null,
+      cases: [
+        { key: 'RED', value: 'RED' },
+        { key: 'GREEN', value: 'GREEN' },
+      ],
+    };
+
+    const result = generateSingleEnumRuntime(enumDef);
+
+    expect(result).toBe(dedent`
+      import { defineEnumHelpers } from "./helpers.js";
+      export const Color = defineEnumHelpers("Color", {
+          RED: "RED",
+          GREEN: "GREEN"
+      }, {}, false);
     `);
   });
 
@@ -156,11 +249,279 @@ describe('generateSingleEnumRuntime', () => {
     const result = generateSingleEnumRuntime(enumDef);
 
     expect(result).toBe(dedent`
-      export const Priority = {
+      import { defineEnumHelpers } from "./helpers.js";
+      export const Priority = defineEnumHelpers("Priority", {
           LOW: 1,
           HIGH: 3
+      });
+    `);
+  });
+});
+
+describe('enum value unions', () => {
+  it('keeps the numeric values of int-backed enums with labels', () => {
+    const enumDef: EnumDefinition = {
+      name: 'Priority',
+      backing: 'int',
+      cases: [
+        { key: 'LOW', value: 1, label: 'Low' },
+        { key: 'HIGH', value: 3, label: 'High' },
+      ],
+    };
+
+    expect(generateSingleEnumTypeScript(enumDef)).toContain(dedent`
+      export type PriorityValue = 1 | 3;
+      export type PriorityKey = "LOW" | "HIGH";
+    `);
+    expect(generateSingleEnumRuntime(enumDef)).toContain('value: 1,');
+  });
+
+  it('exports the unions from the barrels under the enum name', () => {
+    const files = buildEnumFiles({
+      enumsDirs: [join(fixturesDir, 'namespaced/app/Enums')],
+      outputDir: '/tmp/enums',
+      packageName: '@ferry/enums',
+      cwd: join(fixturesDir, 'namespaced'),
+    });
+
+    expect(files['index.d.ts']).toContain(
+      "export { BillingStatus, BillingStatusValue, BillingStatusKey } from './Billing/BillingStatus.js';"
+    );
+    expect(files['Billing/index.d.ts']).toBe(
+      "export { BillingStatus as Status, BillingStatusValue as StatusValue, BillingStatusKey as StatusKey } from './BillingStatus.js';\n"
+    );
+    expect(files['Billing/index.js']).toBe("export { BillingStatus as Status } from './BillingStatus.js';\n");
+  });
+});
+
+describe('enum styles', () => {
+  const enumDef: EnumDefinition = {
+    name: 'Role',
+    backing: 'string',
+    cases: [
+      { key: 'ADMIN', value: 'admin' },
+      { key: 'USER', value: 'user' },
+    ],
+  };
+
+  it('generates a const object with a union type of its values', () => {
+    expect(generateSingleEnumTypeScript(enumDef, undefined, 'const')).toBe(dedent`
+      export declare const Role: {
+          ADMIN: "admin";
+          USER: "user";
+          cases(): Role[];
+          values(): RoleValue[];
+          labelFor(value: RoleValue, locale?: string): string;
+          options(locale?: string): {
+              value: RoleValue;
+              label: string;
+          }[];
+          from(value: string): Role;
+          tryFrom(value: string): Role | undefined;
       };
+      export type Role = RoleValue;
+      export type RoleValue = "admin" | "user";
+      export type RoleKey = "ADMIN" | "USER";
     `);
+    expect(generateSingleEnumRuntime(enumDef, true, './helpers.js', 'const')).toBe(generateSingleEnumRuntime(enumDef));
+  });
+
+  it('generates a type-only union without runtime', () => {
+    expect(generateSingleEnumTypeScript(enumDef, undefined, 'union')).toBe(dedent`
+      export type Role = "admin" | "user";
+      export type RoleValue = "admin" | "user";
+      export type RoleKey = "ADMIN" | "USER";
+    `);
+    expect(generateSingleEnumRuntime(enumDef, true, './helpers.js', 'union')).toBe('export {};\n');
+  });
+
+  it('prefers the style of the enum to the configured one', () => {
+    const result = generateSingleEnumTypeScript({ ...enumDef, style: 'union' }, undefined, 'const');
+
+    expect(result).toContain('export type Role = "admin" | "user";');
+  });
+
+  it('leaves type-only enums out of the runtime barrel', () => {
+    const files = buildEnumFiles({
+      enumsDirs: [join(fixturesDir, 'Enums')],
+      outputDir: '/tmp/enums',
+      packageName: '@ferry/enums',
+      cwd: fixturesDir,
+      enumStyle: 'union',
+    });
+
+    expect(files['Role.js']).toBe('export {};\n');
+    expect(files['index.d.ts']).toContain("export { Role, RoleValue, RoleKey } from './Role.js';");
+    expect(files['index.js']).toBe("export { setLocale } from './helpers.js';\n");
+  });
+});
+
+describe('enum helpers', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('imports the helpers relative to each enum module', () => {
+    const files = buildEnumFiles({
+      enumsDirs: [join(fixturesDir, 'namespaced/app/Enums')],
+      outputDir: tempDir,
+      packageName: '@ferry/enums',
+      cwd: join(fixturesDir, 'namespaced'),
+    });
+
+    expect(files['Status.js']).toContain('import { defineEnumHelpers } from "./helpers.js";');
+    expect(files['Billing/BillingStatus.js']).toContain('import { defineEnumHelpers } from "../helpers.js";');
+    expect(files['helpers.js']).toContain('export function defineEnumHelpers(name, target, translations = {}, backed = true)');
+  });
+
+  it('adds cases, values, labels, options and lookups at runtime', async () => {
+    writeGeneratedFiles(
+      tempDir,
+      buildEnumFiles({
+        enumsDirs: [join(fixturesDir, 'Enums')],
+        outputDir: tempDir,
+        packageName: '@ferry/enums',
+        cwd: fixturesDir,
+      })
+    );
+    const { OrderStatus } = await import(join(tempDir, 'OrderStatus.js'));
+    const { Priority } = await import(join(tempDir, 'Priority.js'));
+    const { Color } = await import(join(tempDir, 'Color.js'));
+
+    expect(Object.keys(Priority)).toEqual(['LOW', 'MEDIUM', 'HIGH', 'URGENT']);
+    expect(Priority.cases()).toEqual([1, 2, 3, 4]);
+    expect(Priority.values()).toEqual([1, 2, 3, 4]);
+    expect(Priority.labelFor(3)).toBe('3');
+    expect(Priority.from(2)).toBe(2);
+    expect(() => Priority.from(9)).toThrow('9 is not a valid value of enum Priority');
+
+    expect(OrderStatus.cases()[0]).toEqual({ value: 'pending', label: 'Pending Order' });
+    expect(OrderStatus.values()).toEqual(['pending', 'approved', 'rejected', 'shipped']);
+    expect(OrderStatus.labelFor('approved')).toBe('Approved');
+    expect(OrderStatus.options()[1]).toEqual({ value: 'approved', label: 'Approved' });
+    expect(OrderStatus.from('shipped')).toBe(OrderStatus.SHIPPED);
+    expect(OrderStatus.tryFrom('unknown')).toBeUndefined();
+
+    expect(Color.values()).toEqual(['RED', 'GREEN', 'BLUE']);
+    expect(Color.from).toBeUndefined();
+    expect(Color.tryFrom).toBeUndefined();
+  });
+});
+
+describe('translated labels', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+    mkdirSync(join(tempDir, 'Enums'));
+    writeFileSync(
+      join(tempDir, 'Enums/TicketStatus.php'),
+      dedent`
+        <?php
+        enum TicketStatus: string
+        {
+            case Open = 'open';
+            case Closed = 'closed';
+            case Archived = 'archived';
+
+            public function label(): string
+            {
+                return match ($this) {
+                    self::Open => __('enums.ticket_status.open'),
+                    self::Closed => trans('enums.ticket_status.closed'),
+                    self::Archived => __('Archived'),
+                };
+            }
+        }
+      `
+    );
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const buildFiles = (locale?: string) =>
+    buildEnumFiles({
+      enumsDirs: [join(tempDir, 'Enums')],
+      outputDir: join(tempDir, 'out'),
+      packageName: '@ferry/enums',
+      cwd: tempDir,
+      langDirs: [join(fixturesDir, 'lang')],
+      locale,
+    });
+
+  it("types the labels in the default locale, falling back to the key like Laravel's __()", () => {
+    const dts = buildFiles()['TicketStatus.d.ts'];
+
+    expect(dts).toContain('label: "Open";');
+    expect(dts).toContain('label: "Closed";');
+    expect(dts).toContain('label: "Archived";');
+    expect(buildFiles('fr')['TicketStatus.d.ts']).toContain('label: "Fermé";');
+  });
+
+  it('switches the runtime labels with setLocale()', async () => {
+    const outputDir = join(tempDir, 'out');
+    writeGeneratedFiles(outputDir, buildFiles());
+    const { TicketStatus, setLocale } = await import(join(outputDir, 'index.js'));
+
+    expect(TicketStatus.Open.label).toBe('Open');
+    expect(TicketStatus.labelFor('closed', 'fr')).toBe('Fermé');
+
+    setLocale('fr');
+    expect(TicketStatus.Open.label).toBe('Ouvert');
+    expect(TicketStatus.options()[2]).toEqual({ value: 'archived', label: 'Archivé' });
+    expect(TicketStatus.labelFor('closed', 'de')).toBe('Closed');
+
+    setLocale(undefined);
+    expect(TicketStatus.labelFor('archived')).toBe('Archived');
+  });
+});
+
+describe('enum metadata', () => {
+  const statusEnum: EnumDefinition = {
+    name: 'Status',
+    backing: 'string',
+    cases: [
+      { key: 'DRAFT', value: 'draft', properties: { color: 'gray', terminal: false } },
+      { key: 'ARCHIVED', value: 'archived', label: 'Archived', properties: { color: null, terminal: true } },
+    ],
+    constants: [
+      { name: 'DEFAULT', case: 'DRAFT' },
+      { name: 'MAX_RETRIES', value: -3 },
+    ],
+  };
+
+  it('types metadata as case properties and constants as members', () => {
+    const result = generateSingleEnumTypeScript(statusEnum);
+
+    expect(result).toContain(
+      'value: "draft";\n        label: "draft";\n        color: "gray";\n        terminal: false;'
+    );
+    expect(result).toContain('color: null;');
+    expect(result).toContain('DEFAULT: typeof Status.DRAFT;');
+    expect(result).toContain('MAX_RETRIES: -3;');
+  });
+
+  it('declares constants of plain enums in their namespace', () => {
+    const result = generateSingleEnumTypeScript({ ...statusEnum, cases: [{ key: 'DRAFT', value: 'draft' }] });
+
+    expect(result).toContain('export const DEFAULT: Status.DRAFT;');
+    expect(result).toContain('export const MAX_RETRIES: -3;');
+  });
+
+  it('adds metadata and constants at runtime', () => {
+    const result = generateSingleEnumRuntime(statusEnum);
+
+    expect(result).toContain('import { defineEnumConstants, defineEnumHelpers } from "./helpers.js";');
+    expect(result).toContain('terminal: true');
+    expect(result).toContain('defineEnumConstants(Status, {\n    DEFAULT: Status.DRAFT,\n    MAX_RETRIES: -3\n});');
   });
 });
 
@@ -0,0 +1,11 @@
+<?php
+
+namespace App\Http\Controllers;
+
+class DashboardController extends Controller
+{
+    public function __invoke()
+    {
+        return view('dashboard');
+    }
+}
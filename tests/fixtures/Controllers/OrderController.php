@@ -0,0 +1,35 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Resources\OrderResource;
+use App\Http\Resources\UserResource;
+use App\Models\Order;
+use Inertia\Inertia;
+
+class OrderController extends Controller
+{
+    public function index()
+    {
+        return Inertia::render('Orders/Index', [
+            'orders' => OrderResource::collection(Order::latest()->paginate()),
+            'filters' => ['search' => request('search'), 'sort' => 'latest'],
+            'stats' => Inertia::defer(fn () => ['total' => 10, 'shipped' => 4]),
+        ]);
+    }
+
+    public function show(Order $order)
+    {
+        return inertia('Orders/Show', [
+            'order' => new OrderResource($order),
+            'customer' => fn () => UserResource::make($order->user),
+            'can_cancel' => $order->isCancellable(),
+            'audits' => Inertia::lazy(fn () => $order->audits),
+        ]);
+    }
+
+    public function create()
+    {
+        return Inertia::render('Orders/Create');
+    }
+}
@@ -0,0 +1,40 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\UpdatePostRequest;
+use App\Http\Resources\PostResource;
+use App\Models\Post;
+use Illuminate\Http\Resources\Json\AnonymousResourceCollection;
+
+class PostController extends Controller
+{
+    public function index(): AnonymousResourceCollection
+    {
+        return PostResource::collection(Post::latest()->paginate());
+    }
+
+    public function show(Post $post)
+    {
+        return PostResource::make($post->load('author'));
+    }
+
+    public function update(UpdatePostRequest $request, Post $post)
+    {
+        $post->update($request->validated());
+
+        return (new PostResource($post))->response()->setStatusCode(200);
+    }
+
+    public function archive(int $year, ?int $month = null)
+    {
+        $posts = Post::whereYear('created_at', $year)->simplePaginate();
+
+        return PostResource::collection($posts);
+    }
+
+    protected function authorizeOwner(Post $post): PostResource
+    {
+        return new PostResource($post);
+    }
+}
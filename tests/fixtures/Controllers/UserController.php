@@ -0,0 +1,21 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Resources\UserResource;
+use App\Models\User;
+
+class UserController extends Controller
+{
+    public function show(User $user): UserResource
+    {
+        return new UserResource($user);
+    }
+
+    public function ban(User $user)
+    {
+        $user->ban();
+
+        return response()->noContent();
+    }
+}
@@ -0,0 +1,23 @@
+<?php
+
+namespace App\Http\Middleware;
+
+use App\Http\Resources\UserResource;
+use Illuminate\Http\Request;
+use Inertia\Middleware;
+
+class HandleInertiaRequests extends Middleware
+{
+    protected $rootView = 'app';
+
+    public function share(Request $request): array
+    {
+        return array_merge(parent::share($request), [
+            'auth' => [
+                'user' => fn () => $request->user() ? new UserResource($request->user()) : null,
+            ],
+            'flash' => ['message' => fn () => $request->session()->get('message')],
+            'appName' => config('app.name'),
+        ]);
+    }
+}
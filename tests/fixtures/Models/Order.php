@@ -3,8 +3,16 @@
 namespace App\Models;
 
 use App\Enums\OrderStatus;
+use Illuminate\Database\Eloquent\Casts\Attribute;
 use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
 
+/**
+ * @property int $id
+ * @property-read int $items_count
+ * @property \Illuminate\Support\Collection<int, string> $tags
+ * @property OrderStatus $status
+ */
 class Order extends Model
 {
     protected $casts = [
@@ -14,4 +22,35 @@ class Order extends Model
         'shipped_at' => 'datetime',
         'is_gift' => 'boolean',
     ];
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    protected function reference(): Attribute
+    {
+        return Attribute::make(get: fn (): string => 'ORD-' . $this->id);
+    }
+
+    /**
+     * @return Attribute<OrderStatus|null, never>
+     */
+    protected function previousStatus(): Attribute
+    {
+        return new Attribute(fn () => null);
+    }
+
+    public function getShippingLabelAttribute(): ?string
+    {
+        return $this->shipped_at ? 'Shipped' : null;
+    }
+
+    /**
+     * @return \Carbon\Carbon
+     */
+    public function getDeliveredAtAttribute()
+    {
+        return $this->shipped_at->addDays(3);
+    }
 }
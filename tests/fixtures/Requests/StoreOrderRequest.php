@@ -0,0 +1,27 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Enums\OrderStatus;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class StoreOrderRequest extends FormRequest
+{
+    public function rules(): array
+    {
+        return [
+            'email' => 'required|email|max:255',
+            'notes' => ['nullable', 'string', 'max:1000'],
+            'status' => ['required', Rule::enum(OrderStatus::class)],
+            'channel' => ['required', Rule::in(['web', 'phone'])],
+            'quantity' => 'required|integer|min:1',
+            'is_gift' => 'sometimes|boolean',
+            'items' => 'required|array',
+            'items.*.sku' => 'required|string',
+            'items.*.quantity' => 'required|integer|between:1,10',
+            'tags' => 'array',
+            'tags.*' => 'string',
+        ];
+    }
+}
@@ -0,0 +1,45 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+class AccountResource extends JsonResource
+{
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->resource->id,
+            'secret' => $this->when($request->user()->isAdmin(), 'secret-value'),
+            'role' => $this->when($this->is_admin, 'admin', 'member'),
+            'score' => $this->when($this->is_active, fn () => 42),
+            'nickname' => $this->unless($this->is_guest, function () {
+                return $this->nickname;
+            }),
+            'deleted_at' => $this->whenNotNull($this->deleted_at),
+            'archived' => $this->whenNull($this->archived_at),
+            'is_verified' => $this->whenHas('is_verified'),
+            'last_login_at' => $this->whenHas('last_login_at'),
+            'posts_count' => $this->whenCounted('posts'),
+            'posts_avg_rating' => $this->whenAggregated('posts', 'rating', 'avg'),
+            'posts_max_title' => $this->whenAggregated('posts', 'title', 'max'),
+            'has_posts' => $this->whenExistsLoaded('posts'),
+            'owner' => $this->whenLoaded('owner'),
+            'name' => $this->name,
+            $this->merge([
+                'plan' => $this->plan,
+            ]),
+            $this->mergeWhen($request->user()->isAdmin(), [
+                'email' => $this->email,
+                'notes' => 'internal',
+            ]),
+            $this->mergeWhen($this->is_active, fn () => [
+                'status' => 'active',
+                'since' => $this->activated_at,
+            ], [
+                'status' => null,
+            ]),
+        ];
+    }
+}
@@ -0,0 +1,16 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+
+class AdminUserResource extends UserResource
+{
+    public function toArray(Request $request): array
+    {
+        return array_merge(parent::toArray($request), [
+            'role' => $this->resource->role,
+            'is_admin' => true,
+        ]);
+    }
+}
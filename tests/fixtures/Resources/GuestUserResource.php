@@ -0,0 +1,7 @@
+<?php
+
+namespace App\Http\Resources;
+
+class GuestUserResource extends UserResource
+{
+}
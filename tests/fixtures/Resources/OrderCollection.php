@@ -0,0 +1,21 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\ResourceCollection;
+
+class OrderCollection extends ResourceCollection
+{
+    public static $wrap = 'orders';
+
+    public $collects = OrderResource::class;
+
+    public function toArray(Request $request): array
+    {
+        return [
+            'orders' => $this->collection,
+            'has_more' => $this->resource->hasMorePages(),
+        ];
+    }
+}
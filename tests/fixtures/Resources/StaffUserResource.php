@@ -0,0 +1,17 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+
+class StaffUserResource extends AdminUserResource
+{
+    public function toArray(Request $request): array
+    {
+        return [
+            ...parent::toArray($request),
+            'department' => $this->resource->department,
+            'email' => $this->whenHas('email'),
+        ];
+    }
+}
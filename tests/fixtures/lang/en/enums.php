@@ -0,0 +1,8 @@
+<?php
+
+return [
+    'ticket_status' => [
+        'open' => 'Open',
+        'closed' => 'Closed',
+    ],
+];
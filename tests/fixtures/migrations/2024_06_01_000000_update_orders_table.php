@@ -0,0 +1,26 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::table('orders', function (Blueprint $table) {
+            $table->dropColumn(['notes']);
+            $table->renameColumn('address_street', 'street');
+            $table->integer('quantity')->nullable();
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('orders', function (Blueprint $table) {
+            $table->string('notes')->nullable();
+            $table->renameColumn('street', 'address_street');
+            $table->dropColumn('quantity');
+        });
+    }
+};
@@ -0,0 +1,21 @@
+<?php
+
+namespace App\Casts;
+
+use Illuminate\Contracts\Database\Eloquent\CastsAttributes;
+
+/**
+ * @ferry-type { street: string; city: string; verified: boolean }
+ */
+class Address implements CastsAttributes
+{
+    public function get($model, string $key, mixed $value, array $attributes): mixed
+    {
+        return json_decode($value, true);
+    }
+
+    public function set($model, string $key, mixed $value, array $attributes): mixed
+    {
+        return json_encode($value);
+    }
+}
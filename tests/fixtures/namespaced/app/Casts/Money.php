@@ -0,0 +1,21 @@
+<?php
+
+namespace App\Casts;
+
+use Illuminate\Contracts\Database\Eloquent\CastsAttributes;
+
+class Money implements CastsAttributes
+{
+    /**
+     * @return array{amount: int, currency: string}
+     */
+    public function get($model, string $key, mixed $value, array $attributes): mixed
+    {
+        return ['amount' => (int) $value, 'currency' => $attributes['currency']];
+    }
+
+    public function set($model, string $key, mixed $value, array $attributes): mixed
+    {
+        return $value['amount'];
+    }
+}
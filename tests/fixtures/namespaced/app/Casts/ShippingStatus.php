@@ -0,0 +1,19 @@
+<?php
+
+namespace App\Casts;
+
+use App\Enums\Status;
+use Illuminate\Contracts\Database\Eloquent\CastsAttributes;
+
+class ShippingStatus implements CastsAttributes
+{
+    public function get($model, string $key, mixed $value, array $attributes): ?Status
+    {
+        return Status::tryFrom($value);
+    }
+
+    public function set($model, string $key, mixed $value, array $attributes): mixed
+    {
+        return $value?->value;
+    }
+}
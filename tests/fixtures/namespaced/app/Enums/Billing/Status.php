@@ -0,0 +1,9 @@
+<?php
+
+namespace App\Enums\Billing;
+
+enum Status: string
+{
+    case Paid = 'paid';
+    case Unpaid = 'unpaid';
+}
@@ -0,0 +1,9 @@
+<?php
+
+namespace App\Enums;
+
+enum Status: string
+{
+    case Active = 'active';
+    case Inactive = 'inactive';
+}
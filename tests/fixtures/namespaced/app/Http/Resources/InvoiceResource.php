@@ -0,0 +1,20 @@
+<?php
+
+namespace App\Http\Resources;
+
+use App\Http\Resources\CustomerResource as Customer;
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+class InvoiceResource extends JsonResource
+{
+    public function toArray(Request $request): array
+    {
+        return [
+            'status' => $this->resource->status,
+            'account_status' => $this->resource->account_status,
+            'customer' => new Customer($this->whenLoaded('customer')),
+            'lines' => \App\Http\Resources\InvoiceLineResource::collection($this->resource->lines),
+        ];
+    }
+}
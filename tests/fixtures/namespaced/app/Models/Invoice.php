@@ -0,0 +1,15 @@
+<?php
+
+namespace App\Models;
+
+use App\Enums\Billing\Status;
+use App\Enums\Status as AccountStatus;
+use Illuminate\Database\Eloquent\Model;
+
+class Invoice extends Model
+{
+    protected $casts = [
+        'status' => Status::class,
+        'account_status' => AccountStatus::class,
+    ];
+}
@@ -0,0 +1,32 @@
+<?php
+
+namespace App\Models;
+
+use App\Casts\Address;
+use App\Casts\Money;
+use App\Casts\ShippingStatus;
+use App\Enums\Status;
+use Illuminate\Database\Eloquent\Casts\AsCollection;
+use Illuminate\Database\Eloquent\Casts\AsEnumArrayObject;
+use Illuminate\Database\Eloquent\Casts\AsEnumCollection;
+use Illuminate\Database\Eloquent\Casts\AsStringable;
+use Illuminate\Database\Eloquent\Model;
+
+class Payment extends Model
+{
+    protected function casts(): array
+    {
+        return [
+            'amount' => Money::class,
+            'billing_address' => Address::class,
+            'shipping_status' => ShippingStatus::class,
+            'statuses' => AsEnumCollection::of(Status::class),
+            'previous_statuses' => AsEnumArrayObject::class . ':' . Status::class,
+            'tags' => AsCollection::using(TagCollection::class),
+            'note' => AsStringable::class,
+            'secrets' => 'encrypted:array',
+            'fee' => 'decimal:2',
+            'paid_at' => 'datetime:Y-m-d H:i',
+        ];
+    }
+}
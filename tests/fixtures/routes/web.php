@@ -0,0 +1,26 @@
+<?php
+
+use App\Http\Controllers\DashboardController;
+use App\Http\Controllers\PostController;
+use App\Http\Controllers\UserController;
+use Illuminate\Support\Facades\Route;
+
+Route::get('/', function () {
+    return view('welcome');
+})->name('home');
+
+Route::get('/dashboard', DashboardController::class)->name('dashboard');
+
+Route::get('/users/{user}', [UserController::class, 'show'])->name('users.show');
+
+Route::get('/archive/{year}/{month?}', [PostController::class, 'archive'])->name('posts.archive');
+
+Route::middleware('auth')->prefix('admin')->name('admin.')->group(function () {
+    Route::resource('posts', PostController::class)->only(['index', 'show', 'update']);
+
+    Route::controller(UserController::class)->group(function () {
+        Route::post('/users/{user}/ban', 'ban')->name('users.ban');
+    });
+});
+
+Route::get('/unnamed', [PostController::class, 'index']);
@@ -0,0 +1,236 @@
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { buildInertiaFiles, mergeInertiaPages } from '../src/generators/inertia.js';
+import { parseInertiaPages, parseInertiaSharedProps } from '../src/utils/inertia-parser.js';
+import { createSymbolIndex } from '../src/utils/symbol-index.js';
+import { dedent } from './utils.js';
+
+const fixturesDir = join(import.meta.dirname, 'fixtures');
+
+const symbols = createSymbolIndex(fixturesDir, { resources: [join(fixturesDir, 'Resources')] });
+
+describe('parseInertiaPages', () => {
+  it('types props like resource fields, with resources as their response', () => {
+    const pages = parseInertiaPages(
+      dedent`
+        <?php
+
+        namespace App\\Http\\Controllers;
+
+        use App\\Http\\Resources\\PostResource;
+        use Inertia\\Inertia;
+
+        class PostController extends Controller
+        {
+            public function index()
+            {
+                $posts = Post::query()->cursorPaginate();
+
+                return Inertia::render('Posts/Index', [
+                    'posts' => PostResource::collection($posts),
+                    'featured' => PostResource::collection(Post::featured()->get()),
+                    'title' => 'Blog',
+                    'is_subscribed' => auth()->user()->subscribed(),
+                    'empty' => [],
+                ]);
+            }
+
+            public function edit(Post $post)
+            {
+                return inertia('Posts/Edit', compact('post'));
+            }
+
+            public function draft()
+            {
+                return Inertia::render('Posts/Edit', $this->props());
+            }
+        }
+      `,
+      { symbols, filePath: 'Controllers/PostController.php' }
+    );
+
+    expect(pages.map((page) => page.component)).toEqual(['Posts/Index', 'Posts/Edit', 'Posts/Edit']);
+    expect(pages[0].props).toEqual({
+      posts: { type: 'CursorPaginated<PostResource>', optional: false, loc: expect.any(Object) },
+      featured: { type: 'PostResource.Collection', optional: false, loc: expect.any(Object) },
+      title: { type: 'string', optional: false, loc: expect.any(Object) },
+      is_subscribed: { type: 'boolean', optional: false, loc: expect.any(Object) },
+      empty: { type: 'any[]', optional: false, loc: expect.any(Object) },
+    });
+    expect(pages[0].loc).toEqual({ file: 'Controllers/PostController.php', line: 14, column: 15 });
+    expect(pages[1].props).toEqual({ post: { type: 'any', optional: false } });
+    expect(pages[2].props).toBeNull();
+  });
+
+  it('unwraps closures and makes lazy, optional and deferred props optional', () => {
+    const [page] = parseInertiaPages(
+      dedent`
+        <?php
+
+        use App\\Http\\Resources\\UserResource;
+        use Inertia\\Inertia;
+
+        class UserController
+        {
+            public function show(User $user)
+            {
+                return Inertia::render('Users/Show', [
+                    'user' => fn () => new UserResource($user),
+                    'stats' => Inertia::defer(fn () => ['posts' => 3]),
+                    'audits' => Inertia::lazy(function () use ($user) {
+                        return UserResource::collection($user->audits);
+                    }),
+                    'tags' => Inertia::optional(fn () => ['php']),
+                    'locale' => Inertia::always('en'),
+                    'manager' => $user->manager ? UserResource::make($user->manager) : null,
+                ]);
+            }
+        }
+      `,
+      { symbols }
+    );
+
+    expect(page.props).toEqual({
+      user: { type: 'UserResource.Response', optional: false },
+      stats: { type: '{ posts: number }', optional: true },
+      audits: { type: 'UserResource.Collection', optional: true },
+      tags: { type: 'any[]', optional: true },
+      locale: { type: 'string', optional: false },
+      manager: { type: 'UserResource.Response | null', optional: false },
+    });
+  });
+
+  it('types only collections made from a paginator as paginated', () => {
+    const pages = parseInertiaPages(
+      dedent`
+        <?php
+
+        namespace App\\Http\\Controllers;
+
+        use App\\Http\\Resources\\UserCollection;
+        use App\\Http\\Resources\\UserResource;
+
+        class UserController extends Controller
+        {
+            public function index()
+            {
+                return inertia('Users/Index', [
+                    'users' => new UserCollection(User::paginate()),
+                    'page' => UserResource::make(User::paginate()),
+                ]);
+            }
+        }
+      `,
+      { symbols }
+    );
+
+    expect(pages[0].props).toMatchObject({
+      users: { type: 'UserCollection.Paginated' },
+      page: { type: 'UserResource.Response' },
+    });
+  });
+
+  it('returns no pages for invalid PHP', () => {
+    expect(parseInertiaPages('not valid php {')).toEqual([]);
+  });
+});
+
+describe('parseInertiaSharedProps', () => {
+  it('reads the arrays merged with the parent props in share()', () => {
+    const props = parseInertiaSharedProps(dedent`
+      <?php
+
+      class HandleInertiaRequests extends Middleware
+      {
+          public function share(Request $request): array
+          {
+              return [
+                  ...parent::share($request),
+                  'appName' => 'Ferry',
+              ];
+          }
+      }
+    `);
+
+    expect(props).toEqual({ appName: { type: 'string', optional: false } });
+  });
+
+  it('returns null for classes without share()', () => {
+    expect(parseInertiaSharedProps('<?php class Authenticate extends Middleware {}')).toBeNull();
+  });
+});
+
+describe('mergeInertiaPages', () => {
+  it('makes props passed by only some renders of a page optional', () => {
+    const pages = mergeInertiaPages([
+      { component: 'Users/Form', props: { user: { type: 'UserResource.Response', optional: false } } },
+      {
+        component: 'Users/Form',
+        props: { user: { type: 'null', optional: false }, roles: { type: 'any[]', optional: false } },
+      },
+      { component: 'Dashboard', props: null },
+    ]);
+
+    expect(pages).toEqual({
+      Dashboard: null,
+      'Users/Form': {
+        user: { type: 'UserResource.Response | null', optional: false },
+        roles: { type: 'any[]', optional: true },
+      },
+    });
+  });
+});
+
+describe('buildInertiaFiles', () => {
+  it('generates page and shared props from controllers and middleware', () => {
+    const files = buildInertiaFiles({
+      controllersDirs: [join(fixturesDir, 'Controllers')],
+      middlewareDirs: [join(fixturesDir, 'Middleware')],
+      resourcesDirs: [join(fixturesDir, 'Resources')],
+      outputDir: join(fixturesDir, 'inertia'),
+      packageName: '@ferry/inertia',
+      resourcesPackageName: '@ferry/resources',
+      cwd: fixturesDir,
+    });
+
+    expect(Object.keys(files).sort()).toEqual(['index.d.ts', 'index.js', 'package.json']);
+    expect(files['index.d.ts']).toContain(dedent`
+      import type { OrderResource, Paginated, UserResource } from "@ferry/resources";
+
+      export type SharedProps = {
+          auth: {
+              user: UserResource.Response | null;
+          };
+          flash: {
+              message: any;
+          };
+          appName: any;
+      };
+
+      export type PageProps = {
+          "Orders/Create": {};
+          "Orders/Index": {
+              orders: Paginated<OrderResource>;
+              filters: {
+                  search: any;
+                  sort: string;
+              };
+              stats?: {
+                  total: number;
+                  shipped: number;
+              };
+          };
+          "Orders/Show": {
+              order: OrderResource.Response;
+              customer: UserResource.Response;
+              can_cancel: any;
+              audits?: any;
+          };
+      };
+
+      export type PageName = keyof PageProps;
+
+      export type Props<T extends PageName> = PageProps[T] & SharedProps;
+    `);
+  });
+});
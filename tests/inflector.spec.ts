@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { pluralize, singularize, toSnakeCase } from '../src/utils/inflector.js';
+
+describe('singularize', () => {
+  it('singularizes common names', () => {
+    expect(singularize('posts')).toBe('post');
+    expect(singularize('categories')).toBe('category');
+    expect(singularize('boxes')).toBe('box');
+    expect(singularize('blog_posts')).toBe('blog_post');
+  });
+
+  it('follows irregular and uncountable words like Laravel', () => {
+    expect(singularize('news')).toBe('news');
+    expect(singularize('series')).toBe('series');
+    expect(singularize('statuses')).toBe('status');
+    expect(singularize('addresses')).toBe('address');
+    expect(singularize('people')).toBe('person');
+    expect(singularize('parties')).toBe('party');
+    expect(singularize('movies')).toBe('movie');
+    expect(singularize('user_children')).toBe('user_child');
+  });
+});
+
+describe('pluralize', () => {
+  it('pluralizes common names', () => {
+    expect(pluralize('post')).toBe('posts');
+    expect(pluralize('category')).toBe('categories');
+    expect(pluralize('box')).toBe('boxes');
+    expect(pluralize('status')).toBe('statuses');
+    expect(pluralize('day')).toBe('days');
+    expect(pluralize('order_item')).toBe('order_items');
+  });
+
+  it('follows irregular and uncountable words like Laravel', () => {
+    expect(pluralize('person')).toBe('people');
+    expect(pluralize('child')).toBe('children');
+    expect(pluralize('Child')).toBe('Children');
+    expect(pluralize('equipment')).toBe('equipment');
+    expect(pluralize('analysis')).toBe('analyses');
+    expect(pluralize('index')).toBe('indices');
+    expect(pluralize('user_person')).toBe('user_people');
+  });
+});
+
+describe('toSnakeCase', () => {
+  it('converts class and method names', () => {
+    expect(toSnakeCase('OrderItem')).toBe('order_item');
+    expect(toSnakeCase('fullName')).toBe('full_name');
+  });
+});
@@ -0,0 +1,103 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import {
+  buildLangFiles,
+  generateLangRuntime,
+  generateLangTypeScript,
+  generateLocaleRuntime,
+} from '../src/generators/lang.js';
+import { writeGeneratedFiles } from '../src/utils/package.js';
+import { dedent } from './utils.js';
+
+const fixturesDir = join(import.meta.dirname, 'fixtures');
+
+const translations = {
+  en: { 'auth.failed': 'These credentials do not match.', 'auth.throttle': 'Try again in :seconds seconds.' },
+  fr: { 'auth.throttle': 'Réessayez dans :seconds secondes, :Name.', Welcome: 'Bienvenue' },
+};
+
+describe('generateLangTypeScript', () => {
+  it('types the keys of every locale with their placeholders', () => {
+    const result = generateLangTypeScript(translations);
+
+    expect(result).toContain(dedent`
+      export type TranslationParameters = {
+          Welcome: {};
+          "auth.failed": {};
+          "auth.throttle": {
+              seconds: TranslationParameter;
+              name: TranslationParameter;
+          };
+      };
+
+      export type Locale = "en" | "fr";
+    `);
+  });
+
+  it('lists the default locale first, even without lang files', () => {
+    expect(generateLangTypeScript(translations, 'de')).toContain('export type Locale = "de" | "en" | "fr";');
+  });
+});
+
+describe('generateLangRuntime', () => {
+  it('imports the default locale and loads the others lazily', () => {
+    const result = generateLangRuntime(translations, 'fr');
+
+    expect(result).toContain('import defaultTranslations from "./locales/fr.js";');
+    expect(result).toContain('export const locales = ["fr", "en"];');
+    expect(result).toContain('en: () => import("./locales/en.js")');
+    expect(result).not.toContain('fr: () =>');
+  });
+});
+
+describe('buildLangFiles', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('writes a chunk per locale', () => {
+    const files = buildLangFiles({
+      langDirs: [join(fixturesDir, 'lang')],
+      outputDir: tempDir,
+      packageName: '@ferry/lang',
+      cwd: fixturesDir,
+    });
+
+    expect(Object.keys(files).sort()).toEqual([
+      'index.d.ts',
+      'index.js',
+      'locales/en.js',
+      'locales/fr.js',
+      'package.json',
+    ]);
+    expect(files['locales/fr.js']).toContain('Archived: "Archivé"');
+  });
+
+  it('translates keys with parameters and switches locales', async () => {
+    writeGeneratedFiles(tempDir, {
+      'index.js': generateLangRuntime(translations),
+      'locales/en.js': generateLocaleRuntime(translations.en),
+      'locales/fr.js': generateLocaleRuntime(translations.fr),
+    });
+    const { t, setLocale, getLocale } = await import(join(tempDir, 'index.js'));
+
+    expect(t('auth.throttle', { seconds: 30 })).toBe('Try again in 30 seconds.');
+    expect(t('Welcome')).toBe('Welcome');
+    // Other locales are only available once loaded
+    expect(t('Welcome', {}, 'fr')).toBe('Welcome');
+
+    await setLocale('fr');
+    expect(getLocale()).toBe('fr');
+    expect(t('auth.throttle', { seconds: 5, name: 'marie' })).toBe('Réessayez dans 5 secondes, Marie.');
+    expect(t('auth.failed')).toBe('These credentials do not match.');
+    await expect(setLocale('de')).rejects.toThrow('Locale [de] not defined.');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { buildEnumFiles } from '../src/generators/enums.js';
+import { buildResourceFiles } from '../src/generators/resources.js';
+import { compareManifests, type Manifest } from '../src/utils/manifest.js';
+
+const projectDir = join(import.meta.dirname, 'fixtures', 'namespaced');
+
+const changesOf = (before: Manifest, after: Manifest) =>
+  compareManifests(before, after).changes.map((c) => [c.change, c.name, c.member, c.breaking]);
+
+describe('generated manifests', () => {
+  it('records enum cases', () => {
+    const files = buildEnumFiles({
+      enumsDirs: [join(projectDir, 'app/Enums')],
+      outputDir: '/tmp/enums',
+      packageName: '@ferry/enums',
+      cwd: projectDir,
+    });
+
+    expect(JSON.parse(files['manifest.json']).enums.Status).toEqual({
+      backing: 'string',
+      cases: { Active: 'active', Inactive: 'inactive' },
+    });
+  });
+
+  it('records resource fields', () => {
+    const files = buildResourceFiles({
+      resourcesDirs: [join(projectDir, 'app/Http/Resources')],
+      enumsDirs: [join(projectDir, 'app/Enums')],
+      modelsDirs: [join(projectDir, 'app/Models')],
+      outputDir: '/tmp/resources',
+      packageName: '@ferry/resources',
+      cwd: projectDir,
+    });
+
+    expect(JSON.parse(files['manifest.json']).resources.CustomerResource).toEqual({
+      name: { type: 'string', optional: false },
+    });
+  });
+});
+
+describe('compareManifests', () => {
+  const status = { backing: 'string', cases: { Active: 'active', Inactive: 'inactive' } };
+
+  it('reports no changes for identical manifests', () => {
+    const manifest: Manifest = { enums: { Status: status }, resources: { UserResource: {} } };
+    expect(compareManifests(manifest, manifest)).toEqual({ breaking: false, changes: [] });
+  });
+
+  it('classifies enum changes', () => {
+    const before: Manifest = { enums: { Status: status, Role: { backing: 'string', cases: {} } } };
+    const after: Manifest = {
+      enums: {
+        Status: { backing: 'string', cases: { Active: 'enabled', Archived: 'archived' } },
+        Color: { backing: 'string', cases: {} },
+      },
+    };
+
+    expect(changesOf(before, after)).toEqual([
+      ['case-value-changed', 'Status', 'Active', true],
+      ['case-removed', 'Status', 'Inactive', true],
+      ['case-added', 'Status', 'Archived', false],
+      ['enum-removed', 'Role', undefined, true],
+      ['enum-added', 'Color', undefined, false],
+    ]);
+  });
+
+  it('classifies resource field changes from the reader side, with any type change breaking', () => {
+    const before: Manifest = {
+      resources: {
+        UserResource: {
+          id: { type: 'number', optional: false },
+          email: { type: 'string', optional: false },
+          name: { type: 'string | null', optional: false },
+          role: { type: 'string', optional: false },
+          bio: { type: 'string', optional: true },
+        },
+      },
+    };
+    const after: Manifest = {
+      resources: {
+        UserResource: {
+          id: { type: 'number', optional: true },
+          name: { type: 'string', optional: false },
+          role: { type: 'string | number', optional: false },
+          bio: { type: 'string', optional: false },
+          avatar: { type: 'string', optional: true },
+        },
+      },
+    };
+
+    expect(changesOf(before, after)).toEqual([
+      ['field-optional', 'UserResource', 'id', true],
+      ['field-removed', 'UserResource', 'email', true],
+      ['field-type-narrowed', 'UserResource', 'name', true],
+      ['field-type-widened', 'UserResource', 'role', true],
+      ['field-required', 'UserResource', 'bio', false],
+      ['field-added', 'UserResource', 'avatar', false],
+    ]);
+  });
+
+  it('classifies request field changes from the sender side', () => {
+    const before: Manifest = {
+      requests: {
+        StoreUserRequest: {
+          name: { type: 'string', optional: true },
+          age: { type: 'number | null', optional: false },
+          nickname: { type: 'string', optional: true },
+        },
+      },
+    };
+    const after: Manifest = {
+      requests: {
+        StoreUserRequest: {
+          name: { type: 'string', optional: false },
+          age: { type: 'number', optional: false },
+          email: { type: 'string', optional: false },
+          phone: { type: 'string', optional: true },
+        },
+      },
+    };
+
+    expect(changesOf(before, after)).toEqual([
+      ['field-required', 'StoreUserRequest', 'name', true],
+      ['field-type-narrowed', 'StoreUserRequest', 'age', true],
+      ['field-removed', 'StoreUserRequest', 'nickname', true],
+      ['field-added', 'StoreUserRequest', 'email', true],
+      ['field-added', 'StoreUserRequest', 'phone', false],
+    ]);
+  });
+
+  it('treats unrelated types as breaking and ignores union order', () => {
+    const before: Manifest = {
+      resources: {
+        PostResource: { id: { type: 'number', optional: false }, tags: { type: 'a | b', optional: false } },
+      },
+    };
+    const after: Manifest = {
+      resources: {
+        PostResource: { id: { type: 'string', optional: false }, tags: { type: 'b | a', optional: false } },
+      },
+    };
+
+    expect(compareManifests(before, after)).toMatchObject({
+      breaking: true,
+      changes: [
+        {
+          change: 'field-type-changed',
+          member: 'id',
+          message: 'Field PostResource.id type changed from number to string',
+        },
+      ],
+    });
+  });
+
+  it('only compares sections present in both manifests', () => {
+    expect(compareManifests({ enums: { Status: status } }, { resources: {} })).toEqual({
+      breaking: false,
+      changes: [],
+    });
+  });
+
+  it('reports removed resources and skips untyped ones', () => {
+    const before: Manifest = { resources: { UserResource: null, PostResource: {} } };
+    const after: Manifest = { resources: { UserResource: { id: { type: 'number', optional: false } } } };
+
+    expect(changesOf(before, after)).toEqual([['type-removed', 'PostResource', undefined, true]]);
+  });
+});
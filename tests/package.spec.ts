@@ -0,0 +1,183 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { getPhpFiles, getSourceRelativePath, readFileSafe, resolveSourceDirs } from '../src/utils/file.js';
+import {
+  addBarrels,
+  addPackageJson,
+  formatExportSpecifier,
+  getModulePath,
+  writeGeneratedFiles,
+  type GeneratedFiles,
+} from '../src/utils/package.js';
+import { generateEnums } from '../src/generators/enums.js';
+import { dedent } from './utils.js';
+
+const projectDir = join(import.meta.dirname, 'fixtures', 'namespaced');
+
+let outputDir: string;
+
+beforeEach(() => {
+  outputDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+});
+
+afterEach(() => {
+  rmSync(outputDir, { recursive: true, force: true });
+});
+
+describe('getPhpFiles', () => {
+  it('finds PHP files in subdirectories', () => {
+    expect(getPhpFiles(join(projectDir, 'app/Enums'))).toEqual(['Billing/Status.php', 'Status.php']);
+  });
+});
+
+describe('resolveSourceDirs', () => {
+  it('expands wildcard segments to existing directories', () => {
+    expect(resolveSourceDirs(['app/*'], projectDir)).toEqual([
+      join(projectDir, 'app/Casts'),
+      join(projectDir, 'app/Enums'),
+      join(projectDir, 'app/Http'),
+      join(projectDir, 'app/Models'),
+    ]);
+  });
+
+  it('expands ** to any depth', () => {
+    expect(resolveSourceDirs(['**/Resources'], projectDir)).toEqual([join(projectDir, 'app/Http/Resources')]);
+  });
+
+  it('keeps literal directories even when missing', () => {
+    expect(resolveSourceDirs(['app/Enums', 'app/Missing'], projectDir)).toEqual([
+      join(projectDir, 'app/Enums'),
+      join(projectDir, 'app/Missing'),
+    ]);
+  });
+});
+
+describe('getSourceRelativePath', () => {
+  it('resolves against the directory containing the file', () => {
+    const dirs = [join(projectDir, 'app/Models'), join(projectDir, 'app/Enums')];
+
+    expect(getSourceRelativePath(join(projectDir, 'app/Enums/Billing/Status.php'), dirs)).toBe('Billing/Status.php');
+  });
+});
+
+describe('getModulePath', () => {
+  it('mirrors the source folder', () => {
+    expect(getModulePath('Admin/UserResource.php', 'AdminUserResource')).toBe('Admin/AdminUserResource');
+  });
+
+  it('keeps top-level files at the package root', () => {
+    expect(getModulePath('UserResource.php', 'UserResource')).toBe('UserResource');
+  });
+});
+
+describe('formatExportSpecifier', () => {
+  it('aliases only when names differ', () => {
+    expect(formatExportSpecifier('Status', 'Status')).toBe('Status');
+    expect(formatExportSpecifier('BillingStatus', 'Status')).toBe('BillingStatus as Status');
+  });
+});
+
+describe('addBarrels', () => {
+  it('adds a root barrel and one barrel per subdirectory', () => {
+    const files: GeneratedFiles = {};
+    const line = (local: string, exported: string, specifier: string) =>
+      `export { ${formatExportSpecifier(local, exported)} } from '${specifier}';`;
+
+    const subpaths = addBarrels(
+      files,
+      [
+        { name: 'Status', shortName: 'Status', path: 'Status' },
+        { name: 'BillingStatus', shortName: 'Status', path: 'Billing/BillingStatus' },
+      ],
+      line,
+      line
+    );
+
+    expect(subpaths).toEqual(['Billing']);
+    expect(files['index.js']).toBe(dedent`
+      export { Status } from './Status.js';
+      export { BillingStatus } from './Billing/BillingStatus.js';
+    `);
+    expect(files['Billing/index.d.ts']).toBe(dedent`
+      export { BillingStatus as Status } from './BillingStatus.js';
+    `);
+  });
+
+  it('leaves type-only modules out of the runtime barrels', () => {
+    const files: GeneratedFiles = {};
+    const line = (local: string, exported: string, specifier: string) =>
+      `export { ${formatExportSpecifier(local, exported)} } from '${specifier}';`;
+
+    addBarrels(
+      files,
+      [
+        { name: 'Status', shortName: 'Status', path: 'Status' },
+        { name: 'Role', shortName: 'Role', path: 'Role', typeOnly: true },
+      ],
+      line,
+      line
+    );
+
+    expect(files['index.d.ts']).toContain("export { Role } from './Role.js';");
+    expect(files['index.js']).toBe("export { Status } from './Status.js';\n");
+  });
+});
+
+describe('addPackageJson', () => {
+  it('omits exports without subpaths', () => {
+    const files: GeneratedFiles = {};
+    addPackageJson(files, '@ferry/enums');
+
+    expect(JSON.parse(files['package.json'])).toEqual({
+      name: '@ferry/enums',
+      version: '0.0.0',
+      main: 'index.js',
+      types: 'index.d.ts',
+    });
+  });
+
+  it('adds subpath exports for directory barrels', () => {
+    const files: GeneratedFiles = {};
+    addPackageJson(files, '@ferry/enums', ['Billing']);
+
+    expect(JSON.parse(files['package.json']).exports).toEqual({
+      '.': { types: './index.d.ts', default: './index.js' },
+      './Billing': { types: './Billing/index.d.ts', default: './Billing/index.js' },
+      './*': './*',
+    });
+  });
+});
+
+describe('writeGeneratedFiles', () => {
+  it('replaces previously generated files', () => {
+    writeGeneratedFiles(outputDir, { 'Old/Status.js': 'export {};\n', 'index.js': '' });
+    writeGeneratedFiles(outputDir, { 'index.js': 'export * from "./Status.js";\n' });
+
+    expect(existsSync(join(outputDir, 'Old'))).toBe(false);
+    expect(readFileSafe(join(outputDir, 'index.js'))).toBe('export * from "./Status.js";\n');
+  });
+});
+
+describe('generateEnums with nested directories', () => {
+  it('mirrors subdirectories in the generated package', () => {
+    generateEnums({
+      enumsDirs: [join(projectDir, 'app/Enums')],
+      outputDir,
+      packageName: '@ferry/enums',
+      cwd: projectDir,
+    });
+
+    expect(existsSync(join(outputDir, 'Billing/BillingStatus.js'))).toBe(true);
+    expect(existsSync(join(outputDir, 'Billing/BillingStatus.d.ts.map'))).toBe(true);
+    expect(readFileSafe(join(outputDir, 'index.js'))).toBe(dedent`
+      export { BillingStatus } from './Billing/BillingStatus.js';
+      export { Status } from './Status.js';
+      export { setLocale } from './helpers.js';
+    `);
+    expect(readFileSafe(join(outputDir, 'Billing/index.js'))).toBe(dedent`
+      export { BillingStatus as Status } from './BillingStatus.js';
+    `);
+  });
+});
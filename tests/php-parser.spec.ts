@@ -1,12 +1,17 @@
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   parseEnumContent,
   parseModelCasts,
+  parseModelProperties,
+  parseModelRelations,
   extractDocblockArrayShape,
   parseResourceFieldsAst,
+  parseResourceResponse,
+  callsWithoutWrapping,
 } from '../src/utils/php-parser.js';
+import { createSymbolIndex } from '../src/utils/symbol-index.js';
 import { dedent } from './utils.js';
 
 const fixturesDir = join(import.meta.dirname, 'fixtures');
@@ -69,6 +74,98 @@ describe('parseEnumContent', () => {
     expect(red!.value).toBe('RED');
   });
 
+  it('reads the style from a @ferry-style docblock tag', () => {
+    const result = parseEnumContent(dedent`
+      <?php
+      /**
+       * @ferry-style union
+       */
+      enum Role: string
+      {
+          case ADMIN = 'admin';
+      }
+    `);
+
+    expect(result!.style).toBe('union');
+    expect(parseEnumContent(readFixture('Enums/Role.php'))!.style).toBeUndefined();
+  });
+
+  it('evaluates the configured metadata methods and constants', () => {
+    const result = parseEnumContent(
+      dedent`
+        <?php
+        enum Status: string
+        {
+            const DEFAULT = self::Draft;
+            const MAX_RETRIES = 3;
+
+            case Draft = 'draft';
+            case Published = 'published';
+            case Archived = 'archived';
+
+            public function color(): string
+            {
+                return match ($this) {
+                    static::Draft, Status::Archived => 'gray',
+                    default => 'green',
+                };
+            }
+
+            public function isTerminal(): bool
+            {
+                return $this === self::Archived;
+            }
+
+            public function priority(): int
+            {
+                return -1;
+            }
+        }
+      `,
+      undefined,
+      ['color', 'isTerminal', 'priority']
+    );
+
+    // isTerminal() compares $this, which can't be evaluated, so it's left out
+    expect(result!.cases.map((c) => c.properties)).toEqual([
+      { color: 'gray', priority: -1 },
+      { color: 'green', priority: -1 },
+      { color: 'gray', priority: -1 },
+    ]);
+    expect(result!.constants).toEqual([
+      { name: 'DEFAULT', case: 'Draft' },
+      { name: 'MAX_RETRIES', value: 3 },
+    ]);
+  });
+
+  it('reads translation keys of labels', () => {
+    const result = parseEnumContent(dedent`
+      <?php
+      enum TicketStatus: string
+      {
+          case Open = 'open';
+          case Closed = 'closed';
+          case Archived = 'archived';
+
+          public function label(): string
+          {
+              return match ($this) {
+                  self::Open => __('enums.ticket_status.open'),
+                  self::Closed => Lang::get('enums.ticket_status.closed'),
+                  self::Archived => trans('Archived'),
+              };
+          }
+      }
+    `);
+
+    expect(result!.cases.map((c) => c.labelKey)).toEqual([
+      'enums.ticket_status.open',
+      'enums.ticket_status.closed',
+      'Archived',
+    ]);
+    expect(result!.cases[0].label).toBeUndefined();
+  });
+
   it('returns null for invalid PHP content', () => {
     const result = parseEnumContent('not valid php');
     expect(result).toBeNull();
@@ -128,6 +225,223 @@ describe('parseModelCasts', () => {
   });
 });
 
+describe('parseModelProperties', () => {
+  it('parses @property tags and accessors', () => {
+    const result = parseModelProperties(readFixture('Models/Order.php'));
+
+    expect(result).toEqual({
+      id: 'int',
+      items_count: 'int',
+      tags: '\\Illuminate\\Support\\Collection<int, string>',
+      status: 'OrderStatus',
+      reference: 'string',
+      previous_status: 'OrderStatus|null',
+      shipping_label: 'string|null',
+      delivered_at: '\\Carbon\\Carbon',
+    });
+  });
+
+  it('prefers accessors over @property tags', () => {
+    const result = parseModelProperties(dedent`
+      <?php
+      /**
+       * @property string $full_name
+       */
+      class User extends Model
+      {
+          public function getFullNameAttribute(): int|string
+          {
+              return $this->first_name;
+          }
+      }
+    `);
+
+    expect(result).toEqual({ full_name: 'int|string' });
+  });
+
+  it('returns empty object for invalid PHP', () => {
+    expect(parseModelProperties('not valid php')).toEqual({});
+  });
+});
+
+describe('resource fields from model properties', () => {
+  it('types model attributes from @property tags and accessors', () => {
+    const fields = parseResourceFieldsAst(
+      dedent`
+        <?php
+        class OrderResource extends JsonResource
+        {
+            public function toArray($request): array
+            {
+                return [
+                    'status' => $this->status,
+                    'items_count' => $this->items_count,
+                    'tags' => $this->tags,
+                    'reference' => $this->reference,
+                    'previous_status' => $this->previous_status,
+                    'shipping_label' => $this->shipping_label,
+                    'delivered_at' => $this->delivered_at,
+                ];
+            }
+        }
+      `,
+      { modelsDir: join(fixturesDir, 'Models'), enumsDir: join(fixturesDir, 'Enums') }
+    )!;
+
+    // Casts take precedence over @property tags
+    expect(fields.status.type).toBe('OrderStatusValue');
+    expect(fields.items_count.type).toBe('number');
+    expect(fields.tags.type).toBe('string[]');
+    expect(fields.reference.type).toBe('string');
+    expect(fields.previous_status.type).toBe('OrderStatusValue | null');
+    expect(fields.shipping_label.type).toBe('string | null');
+    expect(fields.delivered_at.type).toBe('string');
+  });
+});
+
+describe('parseModelRelations', () => {
+  it('parses relationship calls and return type hints', () => {
+    const result = parseModelRelations(readFixture('Models/User.php'));
+
+    expect(result).toEqual({
+      posts: { model: 'Post', many: true },
+      latestOrder: { model: 'Order', many: false },
+      comments: { model: 'Comment', many: true },
+      avatarable: { model: null, many: false },
+    });
+  });
+
+  it('resolves related models to fully-qualified names', () => {
+    const result = parseModelRelations(readFixture('Models/Order.php'), { resolveClassNames: true });
+    expect(result).toEqual({ user: { model: 'App\\Models\\User', many: false } });
+  });
+});
+
+describe('resource date fields', () => {
+  it('flags date casts and timestamps of the model', () => {
+    const fields = parseResourceFieldsAst(
+      dedent`
+        <?php
+        class OrderResource extends JsonResource
+        {
+            public function toArray($request): array
+            {
+                return [
+                    'shipped_at' => $this->shipped_at,
+                    'created_at' => $this->created_at,
+                    'deleted_at' => $this->deleted_at,
+                    'total' => $this->total,
+                ];
+            }
+        }
+      `,
+      { modelsDir: join(fixturesDir, 'Models'), enumsDir: join(fixturesDir, 'Enums') }
+    )!;
+
+    expect(fields.shipped_at.date).toBe(true);
+    expect(fields.created_at.date).toBe(true);
+    // Order doesn't use SoftDeletes
+    expect(fields.deleted_at.date).toBeUndefined();
+    expect(fields.total.date).toBeUndefined();
+  });
+
+  it('flags date attributes typed by the @return docblock', () => {
+    const fields = parseResourceFieldsAst(
+      dedent`
+        <?php
+        class OrderResource extends JsonResource
+        {
+            public function toArray($request): array
+            {
+                return ['created_at' => $this->created_at, 'total' => $this->total];
+            }
+        }
+      `,
+      { modelsDir: join(fixturesDir, 'Models'), docShape: { created_at: 'string', total: 'string' } }
+    )!;
+
+    expect(fields.created_at).toEqual({ type: 'string', optional: false, date: true });
+    expect(fields.total).toEqual({ type: 'string', optional: false });
+  });
+
+  it('resolves the model once for all the fields of a resource', () => {
+    const symbols = createSymbolIndex(fixturesDir, { models: [join(fixturesDir, 'Models')] });
+    const list = vi.spyOn(symbols, 'list');
+
+    const fields = parseResourceFieldsAst(
+      dedent`
+        <?php
+        class OrderResource extends JsonResource
+        {
+            public function toArray($request): array
+            {
+                return [
+                    'shipped_at' => $this->shipped_at,
+                    'created_at' => $this->created_at,
+                    'total' => $this->total,
+                    'status' => $this->status,
+                ];
+            }
+        }
+      `,
+      { symbols }
+    )!;
+
+    expect(fields.shipped_at.date).toBe(true);
+    expect(list.mock.calls.filter(([group]) => group === 'models')).toHaveLength(1);
+  });
+});
+
+describe('resource relations from the model', () => {
+  const resourcesDir = join(fixturesDir, 'Resources');
+  const modelsDir = join(fixturesDir, 'Models');
+  const content = dedent`
+    <?php
+    class UserResource extends JsonResource
+    {
+        public function toArray($request): array
+        {
+            return [
+                'posts' => $this->whenLoaded('posts'),
+                'latest_order' => $this->whenLoaded('latestOrder'),
+                'comments' => $this->whenLoaded('comments'),
+                'avatarable' => $this->whenLoaded('avatarable'),
+            ];
+        }
+    }
+  `;
+
+  it('types whenLoaded() relations by the related model and cardinality', () => {
+    const fields = parseResourceFieldsAst(content, { resourcesDir, modelsDir })!;
+
+    expect(fields.posts).toMatchObject({ type: 'PostResource[]', optional: true });
+    expect(fields.latest_order.type).toBe('OrderResource | null');
+    // Related models without a resource keep the cardinality
+    expect(fields.comments.type).toBe('Record<string, any>[]');
+    expect(fields.avatarable.type).toBe('Record<string, any> | null');
+  });
+
+  it('maps models to resources with modelResources', () => {
+    const fields = parseResourceFieldsAst(content, {
+      resourcesDir,
+      modelsDir,
+      modelResources: { Order: 'AccountResource' },
+    })!;
+
+    expect(fields.latest_order.type).toBe('AccountResource | null');
+  });
+
+  it('collects the resources relations resolve to', () => {
+    const referencedResources: Record<string, string> = {};
+    parseResourceFieldsAst(content, { resourcesDir, modelsDir, referencedResources });
+
+    expect(referencedResources).toEqual({
+      PostResource: join(resourcesDir, 'PostResource.php'),
+      OrderResource: join(resourcesDir, 'OrderResource.php'),
+    });
+  });
+});
+
 describe('extractDocblockArrayShape', () => {
   it('extracts docblock array shape (inline format)', () => {
     const content = `@return array { id: string, name: string, email: string }`;
@@ -276,6 +590,177 @@ describe('parseResourceFieldsAst', () => {
   });
 });
 
+describe('parseResourceFieldsAst inheritance', () => {
+  const resourcesDir = join(fixturesDir, 'Resources');
+  const parse = (name: string) =>
+    parseResourceFieldsAst(readFixture(`Resources/${name}.php`), {
+      resourcesDir,
+      cwd: fixturesDir,
+      filePath: `Resources/${name}.php`,
+    })!;
+
+  it('merges parent::toArray() fields with array_merge()', () => {
+    const fields = parse('AdminUserResource');
+
+    expect(Object.keys(fields)).toEqual(['id', 'name', 'email', 'is_admin', 'created_at', 'updated_at', 'role']);
+    expect(fields.email).toMatchObject({ type: 'string', optional: false });
+    expect(fields.role).toMatchObject({ type: 'string', optional: false });
+  });
+
+  it('spreads parent::toArray() fields through multiple levels', () => {
+    const fields = parse('StaffUserResource');
+
+    expect(Object.keys(fields)).toEqual([
+      'id',
+      'name',
+      'email',
+      'is_admin',
+      'created_at',
+      'updated_at',
+      'role',
+      'department',
+    ]);
+    // Overridden in the child
+    expect(fields.email).toMatchObject({ type: 'string', optional: true });
+  });
+
+  it('inherits the parent toArray() when the child has none', () => {
+    expect(Object.keys(parse('GuestUserResource'))).toEqual(Object.keys(parse('UserResource')));
+  });
+
+  it('keeps the source locations of inherited fields', () => {
+    const fields = parse('StaffUserResource');
+
+    expect(fields.id.loc).toMatchObject({ file: 'Resources/UserResource.php', line: 13 });
+    expect(fields.role.loc).toMatchObject({ file: 'Resources/AdminUserResource.php', line: 12 });
+    expect(fields.department.loc).toMatchObject({ file: 'Resources/StaffUserResource.php', line: 13 });
+  });
+
+  it('falls back when the parent is not a resource', () => {
+    const content = dedent`
+      <?php
+      class PlainResource extends JsonResource
+      {
+          public function toArray($request): array
+          {
+              return array_merge(parent::toArray($request), ['extra' => 1]);
+          }
+      }
+    `;
+
+    expect(parseResourceFieldsAst(content, { resourcesDir })).toBeNull();
+  });
+});
+
+describe('parseResourceFieldsAst conditional attributes', () => {
+  const fields = parseResourceFieldsAst(readFixture('Resources/AccountResource.php'))!;
+  const typeOf = (key: string) => ({ type: fields[key].type, optional: fields[key].optional });
+
+  it('types when() and unless() from their value or closure', () => {
+    expect(typeOf('secret')).toEqual({ type: 'string', optional: true });
+    expect(typeOf('score')).toEqual({ type: 'number', optional: true });
+    expect(typeOf('nickname')).toEqual({ type: 'string', optional: true });
+  });
+
+  it('keeps keys with a default required', () => {
+    expect(typeOf('role')).toEqual({ type: 'string', optional: false });
+  });
+
+  it('types whenNull() and whenNotNull() from their value', () => {
+    expect(typeOf('deleted_at')).toEqual({ type: 'string', optional: true });
+    expect(typeOf('archived')).toEqual({ type: 'null', optional: true });
+  });
+
+  it('types whenHas() from the attribute', () => {
+    expect(typeOf('is_verified')).toEqual({ type: 'boolean', optional: true });
+    expect(typeOf('last_login_at')).toEqual({ type: 'string', optional: true });
+  });
+
+  it('types counts, aggregates and existence checks', () => {
+    expect(typeOf('posts_count')).toEqual({ type: 'number', optional: true });
+    expect(typeOf('posts_avg_rating')).toEqual({ type: 'number', optional: true });
+    expect(typeOf('posts_max_title')).toEqual({ type: 'any', optional: true });
+    expect(typeOf('has_posts')).toEqual({ type: 'boolean', optional: true });
+  });
+
+  it('spreads merge() keys into the resource', () => {
+    expect(typeOf('plan')).toEqual({ type: 'string', optional: false });
+  });
+
+  it('spreads mergeWhen() keys into the resource as optional keys', () => {
+    expect(typeOf('email')).toEqual({ type: 'string', optional: true });
+    expect(typeOf('notes')).toEqual({ type: 'string', optional: true });
+  });
+
+  it('combines mergeWhen() values with their default', () => {
+    expect(typeOf('status')).toEqual({ type: 'string | null', optional: false });
+    expect(typeOf('since')).toEqual({ type: 'string', optional: true });
+  });
+
+  it('keeps the order of merged keys', () => {
+    expect(Object.keys(fields).slice(-6)).toEqual(['name', 'plan', 'email', 'notes', 'status', 'since']);
+  });
+});
+
+describe('parseResourceResponse', () => {
+  const resourcesDir = join(fixturesDir, 'Resources');
+  const parse = (name: string) => parseResourceResponse(readFixture(`Resources/${name}.php`), { resourcesDir })!;
+
+  it('leaves the wrapper of a plain resource to the global default', () => {
+    expect(parse('UserResource')).toEqual({ collection: false, collects: null, wrap: undefined, with: {} });
+  });
+
+  it('collects the resource named after a collection and reads with()', () => {
+    const response = parse('UserCollection');
+
+    expect(response.collection).toBe(true);
+    expect(response.collects).toBe('UserResource');
+    expect(response.with.meta).toMatchObject({ type: '{ version: string }', optional: false });
+  });
+
+  it('reads $collects and $wrap', () => {
+    expect(parse('OrderCollection')).toMatchObject({ collection: true, collects: 'OrderResource', wrap: 'orders' });
+  });
+
+  it('reads $this->additional() and disabled wrapping', () => {
+    const content = dedent`
+      <?php
+      class ProfileResource extends JsonResource
+      {
+          public static $wrap = null;
+
+          public function __construct($resource)
+          {
+              parent::__construct($resource);
+              $this->additional(['version' => 2]);
+          }
+      }
+    `;
+
+    expect(parseResourceResponse(content)).toMatchObject({
+      wrap: null,
+      with: { version: { type: 'number', optional: false } },
+    });
+  });
+
+  it('types $this->collection in a collection toArray()', () => {
+    const fields = parseResourceFieldsAst(readFixture('Resources/OrderCollection.php'), {
+      resourcesDir,
+      collects: 'OrderResource',
+    })!;
+
+    expect(fields.orders.type).toBe('OrderResource[]');
+    expect(fields.has_more.type).toBe('boolean');
+  });
+});
+
+describe('callsWithoutWrapping', () => {
+  it('detects JsonResource::withoutWrapping()', () => {
+    expect(callsWithoutWrapping(readFixture('Providers/AppServiceProvider.php'))).toBe(true);
+    expect(callsWithoutWrapping(readFixture('Resources/UserResource.php'))).toBe(false);
+  });
+});
+
 describe('source location tracking', () => {
   describe('parseEnumContent with filePath', () => {
     it('captures enum declaration location', () => {
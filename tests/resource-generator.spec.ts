@@ -1,13 +1,20 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { describe, it, expect } from 'vitest';
 import {
+  buildResourceFiles,
+  generateResourceHydrateRuntime,
   generateResourceRuntime,
   generateSingleResourceTypeScript,
   generateResourceSourceMap,
+  type ResourceEnvelope,
+  type ResourceHydration,
 } from '../src/generators/resources.js';
 import { readFileSafe } from '../src/utils/file.js';
 import { parseResourceFieldsAst, type ResourceFieldInfo } from '../src/utils/php-parser.js';
-import { dedent } from './utils.js';
+import { buildEnumFiles } from '../src/generators/enums.js';
+import { dedent, typeCheckPackages } from './utils.js';
 
 const fixturesDir = join(import.meta.dirname, 'fixtures');
 
@@ -80,7 +87,7 @@ describe('generateSingleResourceTypeScript', () => {
 
   it('imports referenced enums', () => {
     const fields: Record<string, ResourceFieldInfo> = {
-      status: { type: 'OrderStatus', optional: false },
+      status: { type: 'OrderStatusValue', optional: false },
     };
 
     const result = generateSingleResourceTypeScript(
@@ -93,15 +100,38 @@ describe('generateSingleResourceTypeScript', () => {
 
     expect(result).toBe(dedent`
       /** @see app/Http/Resources/OrderResource.php */
-      import type { OrderStatus } from "@app/enums";
+      import type { OrderStatusValue } from "@ferry/enums";
 
       export type OrderResource = {
-          status: OrderStatus;
+          status: OrderStatusValue;
       };
       //# sourceMappingURL=OrderResource.d.ts.map
     `);
   });
 
+  it('imports enums from a custom enums package', () => {
+    const fields: Record<string, ResourceFieldInfo> = {
+      status: { type: 'OrderStatusValue', optional: false },
+    };
+
+    const result = generateSingleResourceTypeScript(
+      'OrderResource',
+      fields,
+      false,
+      new Set(['OrderStatus']),
+      undefined,
+      '@api/enums'
+    );
+
+    expect(result).toBe(dedent`
+      import type { OrderStatusValue } from "@api/enums";
+
+      export type OrderResource = {
+          status: OrderStatusValue;
+      };
+    `);
+  });
+
   it('handles optional fields', () => {
     const fields: Record<string, ResourceFieldInfo> = {
       id: { type: 'string', optional: false },
@@ -119,11 +149,324 @@ describe('generateSingleResourceTypeScript', () => {
   });
 });
 
+describe('response envelopes', () => {
+  const fields: Record<string, ResourceFieldInfo> = { id: { type: 'string', optional: false } };
+  const envelope: ResourceEnvelope = { wrap: 'data', defaultWrap: 'data', with: {}, pagination: './pagination.js' };
+
+  it('wraps resources and anonymous collections in data', () => {
+    const result = generateSingleResourceTypeScript(
+      'UserResource',
+      fields,
+      false,
+      new Set(),
+      undefined,
+      undefined,
+      envelope
+    );
+
+    expect(result).toBe(dedent`
+      export type UserResource = {
+          id: string;
+      };
+
+      export declare namespace UserResource {
+          export type Response = {
+              data: UserResource;
+          };
+          export type Collection = {
+              data: UserResource[];
+          };
+      }
+    `);
+  });
+
+  it('leaves resources unwrapped when wrapping is disabled, unless with() adds keys', () => {
+    const unwrapped = { ...envelope, wrap: null, defaultWrap: null };
+    const withMeta = { ...unwrapped, with: { meta: { type: '{ version: string }', optional: false } } };
+
+    const generate = (options: ResourceEnvelope) =>
+      generateSingleResourceTypeScript('UserResource', fields, false, new Set(), undefined, undefined, options);
+
+    expect(generate(unwrapped)).toContain('export type Response = UserResource;');
+    expect(generate(unwrapped)).toContain('export type Collection = UserResource[];');
+    expect(generate(withMeta)).toContain(dedent`
+      export type Response = {
+              data: UserResource;
+              meta: {
+    `);
+  });
+
+  it('types collections without toArray() as an array with paginated envelopes', () => {
+    const collection = { ...envelope, collects: 'UserResource' };
+    const result = generateSingleResourceTypeScript(
+      'UserCollection',
+      {},
+      true,
+      new Set(),
+      undefined,
+      undefined,
+      collection
+    );
+
+    expect(result).toBe(dedent`
+      export type UserCollection = UserResource[];
+
+      export declare namespace UserCollection {
+          export type Response = {
+              data: UserCollection;
+          };
+          export type Paginated = {
+              data: UserCollection;
+              links: import("./pagination.js").PaginationLinks;
+              meta: import("./pagination.js").PaginationMeta;
+          };
+      }
+    `);
+  });
+
+  it('does not wrap data that already has the wrapper key', () => {
+    const orders = { orders: { type: 'OrderResource[]', optional: false } };
+    const collection = { ...envelope, wrap: 'orders', collects: 'OrderResource' };
+    const result = generateSingleResourceTypeScript(
+      'OrderCollection',
+      orders,
+      false,
+      new Set(),
+      undefined,
+      undefined,
+      collection
+    );
+
+    expect(result).toContain('export type Response = OrderCollection;');
+    expect(result).toContain('export type Paginated = OrderCollection & {');
+  });
+
+  it('generates pagination types and reads withoutWrapping() from service providers', () => {
+    const options = {
+      resourcesDirs: [join(fixturesDir, 'Resources')],
+      enumsDirs: [join(fixturesDir, 'Enums')],
+      modelsDirs: [join(fixturesDir, 'Models')],
+      outputDir: '/tmp/resources',
+      packageName: '@ferry/resources',
+      cwd: fixturesDir,
+    };
+
+    const files = buildResourceFiles(options);
+    expect(files['pagination.d.ts']).toContain(dedent`
+      export type PaginationMeta = {
+          current_page: number;
+          from: number | null;
+          last_page: number;
+          links: PaginationMetaLink[];
+          path: string;
+          per_page: number;
+          to: number | null;
+          total: number;
+      };
+    `);
+    expect(files['index.d.ts']).toContain('export type { CursorPaginated, CursorPaginationMeta, Paginated,');
+    expect(files['UserResource.d.ts']).toContain('data: UserResource;');
+
+    const unwrapped = buildResourceFiles({ ...options, providersDirs: [join(fixturesDir, 'Providers')] });
+    expect(unwrapped['UserResource.d.ts']).toContain('export type Response = UserResource;');
+  });
+
+  it('types loaded relations from model relationships', () => {
+    const options = {
+      resourcesDirs: [join(fixturesDir, 'Resources')],
+      enumsDirs: [join(fixturesDir, 'Enums')],
+      modelsDirs: [join(fixturesDir, 'Models')],
+      outputDir: '/tmp/resources',
+      packageName: '@ferry/resources',
+      cwd: fixturesDir,
+    };
+
+    const files = buildResourceFiles(options);
+    expect(files['OrderCollection.d.ts']).toContain('import type { OrderResource } from "./OrderResource.js";');
+    expect(files['OrderResource.d.ts']).toContain('user?: UserResource | null;');
+    expect(files['OrderResource.d.ts']).toContain('import type { UserResource } from "./UserResource.js";');
+    expect(files['PostResource.d.ts']).toContain('import type { UserResource } from "./UserResource.js";');
+
+    const mapped = buildResourceFiles({ ...options, modelResources: { 'App\\Models\\User': 'AccountResource' } });
+    expect(mapped['OrderResource.d.ts']).toContain('user?: AccountResource | null;');
+    expect(mapped['OrderResource.d.ts']).toContain('import type { AccountResource } from "./AccountResource.js";');
+  });
+});
+
+describe('resource imports', () => {
+  it('generates declarations that compile without skipLibCheck', () => {
+    for (const projectDir of [fixturesDir, join(fixturesDir, 'namespaced')]) {
+      const appDir = projectDir === fixturesDir ? projectDir : join(projectDir, 'app');
+      const enumsDirs = [join(appDir, 'Enums')];
+      const files = buildResourceFiles({
+        resourcesDirs: [join(appDir, projectDir === fixturesDir ? 'Resources' : 'Http/Resources')],
+        enumsDirs,
+        modelsDirs: [join(appDir, 'Models')],
+        outputDir: '/tmp/resources',
+        packageName: '@ferry/resources',
+        cwd: projectDir,
+      });
+      const enums = buildEnumFiles({ enumsDirs, outputDir: '/tmp/enums', packageName: '@ferry/enums', cwd: projectDir });
+
+      expect(typeCheckPackages({ '@ferry/resources': files, '@ferry/enums': enums })).toEqual([]);
+    }
+  });
+
+  it('imports resources from the module they were resolved to', () => {
+    const projectDir = join(fixturesDir, 'namespaced');
+    const files = buildResourceFiles({
+      resourcesDirs: [join(projectDir, 'app/Http/Resources')],
+      enumsDirs: [join(projectDir, 'app/Enums')],
+      modelsDirs: [join(projectDir, 'app/Models')],
+      outputDir: '/tmp/resources',
+      packageName: '@ferry/resources',
+      cwd: projectDir,
+    });
+
+    expect(files['InvoiceResource.d.ts']).toContain('import type { CustomerResource } from "./CustomerResource.js";');
+  });
+
+  it('imports a resource sharing its short name with another from its own file', () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+    const resourcesDir = join(projectDir, 'app/Http/Resources');
+    const resource = (namespace: string, name: string, body: string) =>
+      `<?php\nnamespace ${namespace};\nclass ${name} extends JsonResource { public function toArray($request): array { return [${body}]; } }`;
+
+    mkdirSync(join(resourcesDir, 'Admin'), { recursive: true });
+    writeFileSync(join(resourcesDir, 'UserResource.php'), resource('App\\Http\\Resources', 'UserResource', "'id' => 1"));
+    writeFileSync(
+      join(resourcesDir, 'Admin/UserResource.php'),
+      resource('App\\Http\\Resources\\Admin', 'UserResource', "'role' => 'admin'")
+    );
+    writeFileSync(
+      join(resourcesDir, 'Admin/AuditResource.php'),
+      resource('App\\Http\\Resources\\Admin', 'AuditResource', "'user' => new UserResource($this->user)")
+    );
+
+    const files = buildResourceFiles({
+      resourcesDirs: [resourcesDir],
+      enumsDirs: [],
+      modelsDirs: [],
+      outputDir: join(projectDir, 'resources'),
+      packageName: '@ferry/resources',
+      cwd: projectDir,
+    });
+    rmSync(projectDir, { recursive: true, force: true });
+
+    expect(files['Admin/AuditResource.d.ts']).toContain('user: AdminUserResource;');
+    expect(files['Admin/AuditResource.d.ts']).toContain(
+      'import type { AdminUserResource } from "./AdminUserResource.js";'
+    );
+  });
+});
+
+describe('hydration', () => {
+  const hydration: ResourceHydration = {
+    runtime: './hydrate.js',
+    resources: { PostResource: './PostResource.js', UserResource: './UserResource.js' },
+  };
+  const fields: Record<string, ResourceFieldInfo> = {
+    id: { type: 'number', optional: false },
+    created_at: { type: 'string | null', optional: false, date: true },
+    author: { type: 'UserResource | null', optional: true },
+    posts: { type: 'PostResource[]', optional: true },
+  };
+
+  it('generates hydrate functions converting dates and nested resources', () => {
+    expect(generateResourceHydrateRuntime('PostResource', fields, hydration)).toBe(dedent`
+      import { createDate, hydrateFields } from "./hydrate.js";
+      import { hydrateUserResource } from "./UserResource.js";
+      export function hydratePostResource(data, toDate = createDate) {
+          return hydrateFields(data, {
+              created_at: toDate,
+              author: value => hydrateUserResource(value, toDate),
+              posts: value => hydratePostResource(value, toDate)
+          });
+      }
+    `);
+  });
+
+  it('generates hydrated types and brands the resource type', () => {
+    const result = generateSingleResourceTypeScript(
+      'PostResource',
+      fields,
+      false,
+      new Set(),
+      undefined,
+      undefined,
+      undefined,
+      hydration
+    );
+
+    expect(result).toContain('readonly [resourceType]?: "PostResource";');
+    expect(result).toContain(dedent`
+      export declare namespace PostResource {
+          export type Hydrated<D = Date> = {
+              id: number;
+              created_at: D | null;
+              author?: HydratedResources<D>["UserResource"] | null;
+              posts?: HydratedResources<D>["PostResource"][];
+          };
+      }
+    `);
+    expect(result).toContain(
+      'export declare function hydratePostResource<D = Date>(data: PostResource, toDate?: DateFactory<D>): PostResource.Hydrated<D>;'
+    );
+    expect(result).toContain('import type { DateFactory, HydratedResources } from "./hydrate.js";');
+  });
+
+  it('only generates hydrate functions when enabled', () => {
+    const options = {
+      resourcesDirs: [join(fixturesDir, 'Resources')],
+      enumsDirs: [join(fixturesDir, 'Enums')],
+      modelsDirs: [join(fixturesDir, 'Models')],
+      outputDir: '/tmp/resources',
+      packageName: '@ferry/resources',
+      cwd: fixturesDir,
+    };
+
+    const files = buildResourceFiles({ ...options, hydrate: true });
+    expect(files['UserResource.js']).toContain('created_at: toDate,');
+    expect(files['UserCollection.js']).toContain('return hydrateUserResource(data, toDate);');
+    expect(files['hydrate.d.ts']).toContain('UserResource: UserResource.Hydrated<D>;');
+    expect(files['hydrate.js']).toContain('export function hydrateFields(data, hydrators)');
+    expect(files['index.d.ts']).toContain("export { hydrateUserResource } from './UserResource.js';");
+    expect(files['index.d.ts']).toContain("export type { DateFactory, Hydrated, HydratedResources } from './hydrate.js';");
+
+    const typeOnly = buildResourceFiles(options);
+    expect(typeOnly['UserResource.js']).toBe('export {};\n');
+    expect(typeOnly['hydrate.js']).toBeUndefined();
+  });
+  it('declares the hydrate runtime without any', () => {
+    const options = {
+      resourcesDirs: [join(fixturesDir, 'Resources')],
+      enumsDirs: [join(fixturesDir, 'Enums')],
+      modelsDirs: [join(fixturesDir, 'Models')],
+      outputDir: '/tmp/resources',
+      packageName: '@ferry/resources',
+      cwd: fixturesDir,
+      hydrate: true,
+    };
+    const enumOptions = { ...options, outputDir: '/tmp/enums', packageName: '@ferry/enums' };
+
+    const files = buildResourceFiles(options);
+    expect(files['hydrate.d.ts']).toContain(dedent`
+      export declare function hydrateFields<T, D = Date>(
+        data: T,
+        hydrators: Record<string, (value: unknown) => unknown>
+      ): Hydrated<T, D>;
+    `);
+    expect(files['hydrate.d.ts']).not.toMatch(/\bany\b/);
+
+    expect(typeCheckPackages({ '@ferry/resources': files, '@ferry/enums': buildEnumFiles(enumOptions) })).toEqual([]);
+  });
+});
+
 describe('generateResourceSourceMap', () => {
   it('generates valid source map JSON', () => {
     const fields: Record<string, ResourceFieldInfo> = {
-      id: { type: 'string', optional: false, loc: { file: 'app/Http/Resources/User.php', line: 15 } },
-      name: { type: 'string', optional: false, loc: { file: 'app/Http/Resources/User.php', line: 16 } },
+      id: { type: 'string', optional: false, loc: { file: 'app/Http/Resources/UserResource.php', line: 15 } },
+      name: { type: 'string', optional: false, loc: { file: 'app/Http/Resources/UserResource.php', line: 16 } },
     };
 
     const result = generateResourceSourceMap(
@@ -164,6 +507,29 @@ describe('generateResourceSourceMap', () => {
     expect(parsed.mappings.length).toBeGreaterThan(0);
   });
 
+  it('adds the files of inherited fields as sources', () => {
+    const fields: Record<string, ResourceFieldInfo> = {
+      id: { type: 'string', optional: false, loc: { file: 'app/Http/Resources/UserResource.php', line: 13 } },
+      role: { type: 'string', optional: false, loc: { file: 'app/Http/Resources/AdminUserResource.php', line: 12 } },
+    };
+
+    const result = generateResourceSourceMap(
+      'AdminUserResource',
+      fields,
+      'AdminUserResource.d.ts',
+      'app/Http/Resources/AdminUserResource.php',
+      '/project/node_modules/@ferry/resources',
+      false
+    );
+    const parsed = JSON.parse(result);
+
+    expect(parsed.sources).toHaveLength(2);
+    expect(parsed.sources[0]).toContain('app/Http/Resources/AdminUserResource.php');
+    expect(parsed.sources[1]).toContain('app/Http/Resources/UserResource.php');
+    // id maps to line 13 of the second source (UserResource.php), role to line 12 of the first
+    expect(parsed.mappings).toBe(';;ICYA;IDDA');
+  });
+
   it('handles fields without loc information', () => {
     const fields: Record<string, ResourceFieldInfo> = {
       id: { type: 'string', optional: false },
@@ -0,0 +1,199 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { collectRoutes, generateRoutesRuntime, generateRoutesTypeScript } from '../src/generators/routes.js';
+import { extractRouteParameters, getResourceParameterName, parseRouteFile } from '../src/utils/route-parser.js';
+import { dedent } from './utils.js';
+
+const fixturesDir = join(import.meta.dirname, 'fixtures');
+
+function readFixture(path: string): string {
+  return readFileSync(join(fixturesDir, path), 'utf8');
+}
+
+describe('getResourceParameterName', () => {
+  it('singularizes resource names into snake case parameters', () => {
+    expect(getResourceParameterName('posts')).toBe('post');
+    expect(getResourceParameterName('blog-posts')).toBe('blog_post');
+    expect(getResourceParameterName('user-children')).toBe('user_child');
+  });
+});
+
+describe('extractRouteParameters', () => {
+  it('extracts required, optional and bound parameters', () => {
+    expect(extractRouteParameters('/posts/{post:slug}/{page?}')).toEqual([
+      { name: 'post', optional: false },
+      { name: 'page', optional: true },
+    ]);
+  });
+});
+
+describe('parseRouteFile', () => {
+  it('parses named routes with actions', () => {
+    const routes = parseRouteFile(readFixture('routes/web.php'));
+    const byName = Object.fromEntries(routes.filter((r) => r.name).map((r) => [r.name, r]));
+
+    expect(byName.home.uri).toBe('/');
+    expect(byName.home.action).toBeUndefined();
+    expect(byName.dashboard.action).toEqual({
+      controller: 'App\\Http\\Controllers\\DashboardController',
+      method: '__invoke',
+    });
+    expect(byName['users.show']).toMatchObject({
+      uri: '/users/{user}',
+      methods: ['GET', 'HEAD'],
+      parameters: [{ name: 'user', optional: false }],
+      action: { controller: 'App\\Http\\Controllers\\UserController', method: 'show' },
+    });
+  });
+
+  it('applies group prefixes, name prefixes and controllers', () => {
+    const routes = parseRouteFile(readFixture('routes/web.php'));
+    const byName = Object.fromEntries(routes.filter((r) => r.name).map((r) => [r.name, r]));
+
+    expect(byName['admin.users.ban']).toMatchObject({
+      uri: '/admin/users/{user}/ban',
+      methods: ['POST'],
+      action: { controller: 'App\\Http\\Controllers\\UserController', method: 'ban' },
+    });
+  });
+
+  it('expands resource routes with only()', () => {
+    const routes = parseRouteFile(readFixture('routes/web.php'));
+    const names = routes.filter((r) => r.name?.startsWith('admin.posts')).map((r) => [r.name, r.uri]);
+
+    expect(names).toEqual([
+      ['admin.posts.index', '/admin/posts'],
+      ['admin.posts.show', '/admin/posts/{post}'],
+      ['admin.posts.update', '/admin/posts/{post}'],
+    ]);
+  });
+
+  it('prefixes the names given with names() like the group', () => {
+    const routes = parseRouteFile(dedent`
+      <?php
+      Route::name('admin.')->group(function () {
+          Route::resource('posts', PostController::class)->only(['index', 'show'])->names(['index' => 'articles']);
+      });
+    `);
+
+    expect(routes.map((r) => r.name)).toEqual(['admin.articles', 'admin.posts.show']);
+  });
+
+  it('expands nested api resources with a file prefix', () => {
+    const routes = parseRouteFile(readFixture('routes/api.php'), { prefix: 'api' });
+
+    expect(routes.map((r) => [r.name, r.uri])).toEqual([
+      ['posts.comments.index', '/api/posts/{post}/comments'],
+      ['posts.comments.store', '/api/posts/{post}/comments'],
+      ['posts.comments.show', '/api/posts/{post}/comments/{comment}'],
+      ['posts.comments.update', '/api/posts/{post}/comments/{comment}'],
+      ['posts.comments.destroy', '/api/posts/{post}/comments/{comment}'],
+    ]);
+  });
+
+  it('applies middleware, prefix and name calls chained before the verb', () => {
+    const routes = parseRouteFile(dedent`
+      <?php
+      Route::middleware('auth')->get('/profile', [ProfileController::class, 'edit'])->name('profile.edit');
+      Route::name('admin.')->prefix('admin')->get('/stats', StatsController::class)->name('stats');
+      Route::prefix('x')->post('/import', [ImportController::class, 'store']);
+      Route::middleware(['auth', 'verified'])->resource('news', NewsController::class)->only(['show']);
+    `);
+
+    expect(routes.map((r) => [r.name, r.uri, r.methods])).toEqual([
+      ['profile.edit', '/profile', ['GET', 'HEAD']],
+      ['admin.stats', '/admin/stats', ['GET', 'HEAD']],
+      [undefined, '/x/import', ['POST']],
+      ['news.show', '/news/{news}', ['GET', 'HEAD']],
+    ]);
+    expect(routes[0].action).toEqual({ controller: 'ProfileController', method: 'edit' });
+  });
+
+  it('resolves controllers against the use imports', () => {
+    const routes = parseRouteFile(dedent`
+      <?php
+      use App\\Http\\Controllers\\{PostController, UserController};
+      use App\\Http\\Controllers\\Admin\\PostController as AdminPostController;
+
+      Route::get('/posts', [PostController::class, 'index']);
+      Route::get('/admin/posts', [AdminPostController::class, 'index']);
+      Route::controller(UserController::class)->group(function () {
+          Route::get('/users', 'index');
+      });
+      Route::resource('photos', \\App\\Http\\Controllers\\PhotoController::class)->only(['index']);
+      Route::get('/stats', StatsController::class);
+    `);
+
+    expect(routes.map((r) => r.action?.controller)).toEqual([
+      'App\\Http\\Controllers\\PostController',
+      'App\\Http\\Controllers\\Admin\\PostController',
+      'App\\Http\\Controllers\\UserController',
+      'App\\Http\\Controllers\\PhotoController',
+      'StatsController',
+    ]);
+  });
+
+  it('returns empty array for invalid PHP', () => {
+    expect(parseRouteFile('not valid php {')).toEqual([]);
+  });
+});
+
+describe('collectRoutes', () => {
+  it('collects routes from web.php and api.php', () => {
+    const routes = collectRoutes(join(fixturesDir, 'routes'), fixturesDir);
+
+    expect(routes.some((r) => r.name === 'users.show')).toBe(true);
+    expect(routes.some((r) => r.uri.startsWith('/api/'))).toBe(true);
+    expect(routes[0].loc!.file).toBe('routes/web.php');
+  });
+
+  it('returns empty array for non-existent directory', () => {
+    expect(collectRoutes('/non/existent/directory', '/')).toEqual([]);
+  });
+});
+
+describe('generateRoutesTypeScript', () => {
+  it('generates a parameter map for named routes', () => {
+    const routes = parseRouteFile(dedent`
+      <?php
+      Route::get('/', fn () => view('home'))->name('home');
+      Route::get('/users/{user}/{tab?}', [UserController::class, 'show'])->name('users.show');
+    `);
+
+    const result = generateRoutesTypeScript(routes);
+
+    expect(result).toContain(dedent`
+      export type RouteParameters = {
+          home: {};
+          "users.show": {
+              user: RouteParameter;
+              tab?: RouteParameter;
+          };
+      };
+    `);
+    expect(result).toContain('export type RouteName = keyof RouteParameters;');
+  });
+});
+
+describe('generateRoutesRuntime', () => {
+  it('generates a route table and a working route() helper', async () => {
+    const routes = parseRouteFile(dedent`
+      <?php
+      Route::get('/users/{user}/{tab?}', [UserController::class, 'show'])->name('users.show');
+    `);
+
+    const result = generateRoutesRuntime(routes);
+
+    expect(result).toContain(dedent`
+      export const routes = {
+          "users.show": { uri: "/users/{user}/{tab?}", methods: ["GET", "HEAD"] }
+      };
+    `);
+
+    const { route } = await import(`data:text/javascript,${encodeURIComponent(result)}`);
+    expect(route('users.show', { user: 1 })).toBe('/users/1');
+    expect(route('users.show', { user: 1, tab: 'posts', page: 2 })).toBe('/users/1/posts?page=2');
+    expect(() => route('users.show', {})).toThrow('Missing required parameter [user]');
+  });
+});
@@ -0,0 +1,277 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildSchemaFiles,
+  collectFormRequests,
+  generateSingleSchemaRuntime,
+  generateSingleSchemaTypeScript,
+} from '../src/generators/schemas.js';
+import { collectEnums } from '../src/generators/enums.js';
+import { parseFormRequestRules, parseRulePipeString } from '../src/utils/form-request-parser.js';
+import { dedent } from './utils.js';
+
+const fixturesDir = join(import.meta.dirname, 'fixtures');
+
+function readFixture(path: string): string {
+  return readFileSync(join(fixturesDir, path), 'utf8');
+}
+
+describe('parseRulePipeString', () => {
+  it('splits pipe-delimited rules with arguments', () => {
+    expect(parseRulePipeString('required|email|max:255')).toEqual([
+      { name: 'required', args: [] },
+      { name: 'email', args: [] },
+      { name: 'max', args: ['255'] },
+    ]);
+  });
+
+  it('splits comma-separated arguments', () => {
+    expect(parseRulePipeString('in:a,b,c')).toEqual([{ name: 'in', args: ['a', 'b', 'c'] }]);
+  });
+});
+
+describe('parseFormRequestRules', () => {
+  it('parses string and array rule forms', () => {
+    const result = parseFormRequestRules(readFixture('Requests/StoreOrderRequest.php'));
+
+    expect(result).not.toBeNull();
+    expect(result!.name).toBe('StoreOrderRequest');
+    expect(result!.fields.notes.rules.map((r) => r.name)).toEqual(['nullable', 'string', 'max']);
+    expect(result!.fields.status.rules[1]).toEqual({ name: 'enum', args: ['App\\Enums\\OrderStatus'] });
+    expect(result!.fields.channel.rules[1]).toEqual({ name: 'in', args: ['web', 'phone'] });
+    expect(result!.fields['items.*.sku'].rules.map((r) => r.name)).toEqual(['required', 'string']);
+  });
+
+  it('parses rule objects created with new', () => {
+    const result = parseFormRequestRules(dedent`
+      <?php
+      class UpdateRequest {
+          public function rules(): array
+          {
+              return ['role' => [new Enum(Role::class)], 'size' => [new In(['s', 'm'])]];
+          }
+      }
+    `);
+
+    expect(result!.fields.role.rules).toEqual([{ name: 'enum', args: ['Role'] }]);
+    expect(result!.fields.size.rules).toEqual([{ name: 'in', args: ['s', 'm'] }]);
+  });
+
+  it('merges the top-level returns of rules() and skips those of closures', () => {
+    const result = parseFormRequestRules(dedent`
+      <?php
+      class UpdatePostRequest {
+          public function rules(): array
+          {
+              if ($this->isMethod('patch')) {
+                  return ['title' => 'sometimes|string'];
+              }
+
+              return [
+                  'title' => 'required|string',
+                  'slug' => [
+                      'required',
+                      function ($attribute, $value, $fail) {
+                          return ['ignored' => 'required'];
+                      },
+                  ],
+                  'body' => Rule::when(fn () => true, function () {
+                      return ['required'];
+                  }),
+              ];
+          }
+      }
+    `);
+
+    expect(Object.keys(result!.fields)).toEqual(['title', 'slug', 'body']);
+    expect(result!.fields.title.rules).toEqual([
+      { name: 'sometimes', args: [] },
+      { name: 'string', args: [] },
+    ]);
+  });
+
+  it('returns null for class without rules method', () => {
+    expect(parseFormRequestRules('<?php class Foo {}')).toBeNull();
+  });
+});
+
+describe('collectFormRequests', () => {
+  it('collects all form requests from directory', () => {
+    const requests = collectFormRequests(join(fixturesDir, 'Requests'), fixturesDir);
+
+    expect(Object.keys(requests)).toEqual(['StoreOrderRequest']);
+    expect(requests.StoreOrderRequest.loc!.file).toBe('Requests/StoreOrderRequest.php');
+  });
+
+  it('returns empty object for non-existent directory', () => {
+    expect(collectFormRequests('/non/existent/directory', '/')).toEqual({});
+  });
+
+  it('reports regex rules that are not valid in JavaScript', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ferry-'));
+    writeFileSync(
+      join(dir, 'CodeRequest.php'),
+      "<?php class CodeRequest { public function rules(): array { return ['code' => 'regex:/^\\d++$/']; } }"
+    );
+    const onError = vi.fn();
+
+    collectFormRequests(dir, dir, onError);
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(onError).toHaveBeenCalledWith('CodeRequest.php', expect.any(Error));
+    expect(onError.mock.calls[0][1].message).toContain('/^\\d++$/ is not a valid JavaScript regex');
+  });
+});
+
+describe('generateSingleSchemaRuntime', () => {
+  it('generates a Zod object schema', () => {
+    const def = parseFormRequestRules(readFixture('Requests/StoreOrderRequest.php'))!;
+    const enums = collectEnums(join(fixturesDir, 'Enums'), fixturesDir);
+
+    const result = generateSingleSchemaRuntime(def, enums);
+
+    expect(result).toBe(dedent`
+      import { z } from "zod";
+
+      export const StoreOrderRequest = z.object({
+          email: z.string().email().max(255),
+          notes: z.string().max(1000).nullable().optional(),
+          status: z.enum(["pending", "approved", "rejected", "shipped"]),
+          channel: z.enum(["web", "phone"]),
+          quantity: z.number().int().min(1),
+          is_gift: z.boolean().optional(),
+          items: z.array(z.object({
+              sku: z.string(),
+              quantity: z.number().int().min(1).max(10)
+          })),
+          tags: z.array(z.string()).optional()
+      });
+    `);
+  });
+});
+
+describe('generateSingleSchemaTypeScript', () => {
+  it('generates input type and schema declaration', () => {
+    const def = parseFormRequestRules(readFixture('Requests/StoreOrderRequest.php'))!;
+    const enums = collectEnums(join(fixturesDir, 'Enums'), fixturesDir);
+
+    const result = generateSingleSchemaTypeScript(def, enums, 'app/Http/Requests/StoreOrderRequest.php');
+
+    expect(result).toBe(dedent`
+      /** @see app/Http/Requests/StoreOrderRequest.php */
+      import type { z } from "zod";
+
+      export type StoreOrderRequestInput = {
+          email: string;
+          notes?: string | null;
+          status: "pending" | "approved" | "rejected" | "shipped";
+          channel: "web" | "phone";
+          quantity: number;
+          is_gift?: boolean;
+          items: {
+              sku: string;
+              quantity: number;
+          }[];
+          tags?: string[];
+      };
+
+      export declare const StoreOrderRequest: z.ZodType<StoreOrderRequestInput>;
+    `);
+  });
+
+  it('maps int-backed enums to a literal union', () => {
+    const def = parseFormRequestRules(dedent`
+      <?php
+      class TaskRequest {
+          public function rules(): array
+          {
+              return ['priority' => ['required', Rule::enum(Priority::class)]];
+          }
+      }
+    `)!;
+    const enums = collectEnums(join(fixturesDir, 'Enums'), fixturesDir);
+
+    expect(generateSingleSchemaRuntime(def, enums)).toContain(
+      'priority: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)])'
+    );
+  });
+
+  it('maps in rules of numeric fields to number literals', () => {
+    const def = parseFormRequestRules(dedent`
+      <?php
+      class RatingRequest {
+          public function rules(): array
+          {
+              return ['stars' => 'required|integer|in:1,2,3', 'grade' => 'required|in:1,2'];
+          }
+      }
+    `)!;
+
+    const runtime = generateSingleSchemaRuntime(def, {});
+    expect(runtime).toContain('stars: z.union([z.literal(1), z.literal(2), z.literal(3)])');
+    expect(runtime).toContain('grade: z.enum(["1", "2"])');
+    expect(generateSingleSchemaTypeScript(def, {})).toContain('stars: 1 | 2 | 3;');
+  });
+
+  it('generates an array schema for root-level wildcard rules', () => {
+    const def = parseFormRequestRules(dedent`
+      <?php
+      class BulkTagRequest {
+          public function rules(): array
+          {
+              return ['*' => 'required|array', '*.name' => 'required|string|max:50', '*.color' => 'nullable|string'];
+          }
+      }
+    `)!;
+
+    expect(generateSingleSchemaRuntime(def, {}, false)).toContain(
+      'export const BulkTagRequest = z.array(z.object({ name: z.string().max(50), color: z.string().nullable().optional() }));'
+    );
+    expect(generateSingleSchemaTypeScript(def, {})).toContain(dedent`
+      export type BulkTagRequestInput = {
+          name: string;
+          color?: string | null;
+      }[];
+    `);
+  });
+
+  it('keeps regex rules valid in JavaScript and skips PCRE-only patterns', () => {
+    const def = parseFormRequestRules(dedent`
+      <?php
+      class SlugRequest {
+          public function rules(): array
+          {
+              return [
+                  'slug' => ['required', 'regex:/^[a-z0-9-]+$/i'],
+                  'code' => ['required', 'regex:/^\\d++$/'],
+                  'name' => ['required', 'regex:/(?i)^admin$/'],
+                  'path' => ['required', 'regex:/\\A[a-z]+\\z/'],
+              ];
+          }
+      }
+    `)!;
+
+    const result = generateSingleSchemaRuntime(def, {});
+
+    expect(result).toContain('slug: z.string().regex(/^[a-z0-9-]+$/i)');
+    expect(result).toContain('code: z.string(),');
+    expect(result).toContain('name: z.string(),');
+    expect(result).toContain('path: z.string()\n');
+  });
+});
+
+describe('buildSchemaFiles', () => {
+  it('declares zod as a peer dependency of the package', () => {
+    const files = buildSchemaFiles({
+      requestsDirs: [join(fixturesDir, 'Requests')],
+      enumsDirs: [join(fixturesDir, 'Enums')],
+      outputDir: join(fixturesDir, 'schemas'),
+      packageName: '@ferry/schemas',
+      cwd: fixturesDir,
+    });
+
+    expect(JSON.parse(files['package.json']).peerDependencies).toEqual({ zod: '^3.0.0 || ^4.0.0' });
+  });
+});
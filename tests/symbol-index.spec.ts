@@ -0,0 +1,207 @@
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { assignTypeNames, createSymbolIndex, readPsr4Mappings } from '../src/utils/symbol-index.js';
+import {
+  parseModelCasts,
+  parseNamespaceContext,
+  parseResourceFieldsAst,
+  resolveClassName,
+  type EnumDefinition,
+} from '../src/utils/php-parser.js';
+import { readFileSafe } from '../src/utils/file.js';
+import { dedent } from './utils.js';
+
+const projectDir = join(import.meta.dirname, 'fixtures', 'namespaced');
+
+function createProjectIndex() {
+  return createSymbolIndex(projectDir, {
+    enums: [join(projectDir, 'app/Enums'), join(projectDir, 'app/Enums/Billing')],
+    resources: [join(projectDir, 'app/Http/Resources')],
+    models: [join(projectDir, 'app/Models')],
+  });
+}
+
+describe('parseNamespaceContext', () => {
+  it('reads namespace, imports, aliases and group imports', () => {
+    const context = parseNamespaceContext(dedent`
+      <?php
+      namespace App\\Http\\Resources;
+      use App\\Models\\{User, Post as Article};
+      use App\\Enums\\Status as BillingStatus;
+      use function App\\helper;
+    `);
+
+    expect(context).toEqual({
+      namespace: 'App\\Http\\Resources',
+      uses: {
+        User: 'App\\Models\\User',
+        Article: 'App\\Models\\Post',
+        BillingStatus: 'App\\Enums\\Status',
+      },
+    });
+  });
+});
+
+describe('resolveClassName', () => {
+  const context = { namespace: 'App\\Http\\Resources', uses: { Status: 'App\\Enums\\Billing\\Status' } };
+
+  it('resolves imported names', () => {
+    expect(resolveClassName('Status', context)).toBe('App\\Enums\\Billing\\Status');
+  });
+
+  it('resolves qualified names through an imported prefix', () => {
+    expect(resolveClassName('Status\\Nested', context)).toBe('App\\Enums\\Billing\\Status\\Nested');
+  });
+
+  it('resolves unqualified names against the current namespace', () => {
+    expect(resolveClassName('UserResource', context)).toBe('App\\Http\\Resources\\UserResource');
+  });
+
+  it('keeps fully-qualified names', () => {
+    expect(resolveClassName('\\App\\Models\\User', context)).toBe('App\\Models\\User');
+  });
+});
+
+describe('assignTypeNames', () => {
+  it('keeps unique short names', () => {
+    expect(assignTypeNames(['App\\Enums\\Role', 'App\\Enums\\Color'])).toEqual({
+      'App\\Enums\\Role': 'Role',
+      'App\\Enums\\Color': 'Color',
+    });
+  });
+
+  it('prefixes colliding names with distinguishing namespace segments', () => {
+    expect(assignTypeNames(['App\\Enums\\Status', 'App\\Enums\\Billing\\Status'])).toEqual({
+      'App\\Enums\\Status': 'Status',
+      'App\\Enums\\Billing\\Status': 'BillingStatus',
+    });
+  });
+
+  it('ignores trailing namespace segments shared by colliding names', () => {
+    expect(assignTypeNames(['App\\Enums\\Status', 'App\\Billing\\Enums\\Status'])).toEqual({
+      'App\\Enums\\Status': 'Status',
+      'App\\Billing\\Enums\\Status': 'BillingStatus',
+    });
+  });
+
+  it('adds namespace segments until prefixed names are unique', () => {
+    const names = assignTypeNames(['App\\Enums\\Status', 'App\\Enums\\Billing\\Status', 'App\\Enums\\BillingStatus']);
+
+    expect(names).toEqual({
+      'App\\Enums\\Status': 'Status',
+      'App\\Enums\\Billing\\Status': 'EnumsBillingStatus',
+      'App\\Enums\\BillingStatus': 'BillingStatus',
+    });
+    expect(new Set(Object.values(names)).size).toBe(3);
+  });
+});
+
+describe('readPsr4Mappings', () => {
+  it('reads mappings from composer.json', () => {
+    expect(readPsr4Mappings(projectDir)).toEqual([{ prefix: 'App\\', dirs: ['app/'] }]);
+  });
+
+  it('falls back to the Laravel default without composer.json', () => {
+    expect(readPsr4Mappings('/non/existent/directory')).toEqual([{ prefix: 'App\\', dirs: ['app/'] }]);
+  });
+});
+
+describe('createSymbolIndex', () => {
+  it('indexes classes by fully-qualified name with collision-free type names', () => {
+    const symbols = createProjectIndex();
+
+    expect(symbols.get('App\\Enums\\Status')!.typeName).toBe('Status');
+    expect(symbols.get('App\\Enums\\Billing\\Status')!.typeName).toBe('BillingStatus');
+    expect(symbols.get('App\\Http\\Resources\\CustomerResource')!.group).toBe('resources');
+    expect(symbols.list('enums', 'Status')).toHaveLength(2);
+  });
+
+  it('resolves classes outside the scanned groups through PSR-4', () => {
+    const symbols = createSymbolIndex(projectDir, {});
+
+    expect(symbols.resolveFile('App\\Models\\Invoice')).toBe(join(projectDir, 'app/Models/Invoice.php'));
+    expect(symbols.resolveFile('App\\Models\\Missing')).toBeNull();
+  });
+});
+
+describe('parseModelCasts with resolveClassNames', () => {
+  it('resolves class casts through imports and aliases', () => {
+    const content = readFileSafe(join(projectDir, 'app/Models/Invoice.php'))!;
+
+    expect(parseModelCasts(content, { resolveClassNames: true })).toEqual({
+      status: 'App\\Enums\\Billing\\Status',
+      account_status: 'App\\Enums\\Status',
+    });
+  });
+});
+
+describe('parseModelCasts with parameterised casts', () => {
+  it('reads ::of(), ::using() and concatenated casts as Class:argument strings', () => {
+    const content = readFileSafe(join(projectDir, 'app/Models/Payment.php'))!;
+    const casts = parseModelCasts(content, { resolveClassNames: true });
+
+    expect(casts.statuses).toBe('Illuminate\\Database\\Eloquent\\Casts\\AsEnumCollection:App\\Enums\\Status');
+    expect(casts.previous_statuses).toBe('Illuminate\\Database\\Eloquent\\Casts\\AsEnumArrayObject:App\\Enums\\Status');
+    expect(casts.tags).toBe('Illuminate\\Database\\Eloquent\\Casts\\AsCollection:App\\Models\\TagCollection');
+    expect(casts.fee).toBe('decimal:2');
+  });
+});
+
+describe('parseResourceFieldsAst with a symbol index', () => {
+  it('resolves enum casts and resources to their exact classes', () => {
+    const content = readFileSafe(join(projectDir, 'app/Http/Resources/InvoiceResource.php'))!;
+    const collectedEnums: Record<string, EnumDefinition> = {};
+
+    const result = parseResourceFieldsAst(content, { symbols: createProjectIndex(), collectedEnums });
+
+    expect(result!.status.type).toBe('BillingStatusValue');
+    expect(result!.account_status.type).toBe('StatusValue');
+    expect(result!.customer.type).toBe('CustomerResource');
+    expect(result!.lines.type).toBe('any[]'); // InvoiceLineResource doesn't exist
+    expect(Object.keys(collectedEnums).sort()).toEqual(['BillingStatus', 'Status']);
+    expect(collectedEnums.BillingStatus.cases.map((c) => c.value)).toEqual(['paid', 'unpaid']);
+  });
+
+  it('types built-in, parameterised and custom casts', () => {
+    const content = dedent`
+      <?php
+      namespace App\\Http\\Resources;
+
+      use App\\Models\\Payment;
+
+      class PaymentResource extends JsonResource
+      {
+          public function toArray($request): array
+          {
+              return [
+                  'amount' => $this->amount,
+                  'billing_address' => $this->billing_address,
+                  'shipping_status' => $this->shipping_status,
+                  'statuses' => $this->statuses,
+                  'previous_statuses' => $this->previous_statuses,
+                  'tags' => $this->tags,
+                  'note' => $this->note,
+                  'secrets' => $this->secrets,
+                  'fee' => $this->fee,
+                  'paid_at' => $this->paid_at,
+              ];
+          }
+      }
+    `;
+    const collectedEnums: Record<string, EnumDefinition> = {};
+
+    const result = parseResourceFieldsAst(content, { symbols: createProjectIndex(), collectedEnums })!;
+
+    expect(result.amount.type).toBe('{ amount: number; currency: string }');
+    expect(result.billing_address.type).toBe('{ street: string; city: string; verified: boolean }');
+    expect(result.shipping_status.type).toBe('StatusValue | null');
+    expect(result.statuses.type).toBe('StatusValue[]');
+    expect(result.previous_statuses.type).toBe('StatusValue[]');
+    expect(result.tags.type).toBe('any[]');
+    expect(result.note.type).toBe('string');
+    expect(result.secrets.type).toBe('any[]');
+    expect(result.fee.type).toBe('number');
+    expect(result.paid_at.type).toBe('string');
+    expect(Object.keys(collectedEnums)).toEqual(['Status']);
+  });
+});
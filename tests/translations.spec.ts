@@ -0,0 +1,68 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, vi } from 'vitest';
+import { extractTranslationParameters, parseTranslationFile, readTranslations } from '../src/utils/translations.js';
+import { dedent } from './utils.js';
+
+const fixturesDir = join(import.meta.dirname, 'fixtures');
+const langDir = join(fixturesDir, 'lang');
+
+describe('parseTranslationFile', () => {
+  it('flattens nested arrays into dot-separated keys', () => {
+    const strings = parseTranslationFile(dedent`
+      <?php
+      return [
+          'welcome' => 'Welcome, :name',
+          'status' => [
+              'active' => 'Active',
+              'levels' => ['high' => 'High'],
+          ],
+          'count' => count([]),
+      ];
+    `);
+
+    expect(strings).toEqual({
+      welcome: 'Welcome, :name',
+      'status.active': 'Active',
+      'status.levels.high': 'High',
+    });
+  });
+
+  it('returns no strings for files not returning an array', () => {
+    expect(parseTranslationFile('<?php return null;')).toEqual({});
+  });
+});
+
+describe('readTranslations', () => {
+  it('reads PHP files by group and JSON files by locale, skipping vendor translations', () => {
+    expect(readTranslations([langDir], fixturesDir)).toEqual({
+      en: { 'enums.ticket_status.open': 'Open', 'enums.ticket_status.closed': 'Closed' },
+      fr: { 'enums.ticket_status.open': 'Ouvert', 'enums.ticket_status.closed': 'Fermé', Archived: 'Archivé' },
+    });
+  });
+
+  it('reports lang files that fail to parse and skips them', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ferry-'));
+    writeFileSync(join(dir, 'de.json'), '{ "Open": ');
+
+    const onError = vi.fn();
+    const translations = readTranslations([langDir, dir], dir, onError);
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(onError).toHaveBeenCalledWith('de.json', expect.any(Error));
+    expect(translations.de).toBeUndefined();
+    expect(translations.en).toBeDefined();
+  });
+});
+
+describe('extractTranslationParameters', () => {
+  it('extracts placeholders, matching :NAME and :Name to name', () => {
+    expect(extractTranslationParameters(':Name, you have :count new :TYPE messages from :name')).toEqual([
+      'name',
+      'count',
+      'type',
+    ]);
+    expect(extractTranslationParameters('Nothing to replace: here')).toEqual([]);
+  });
+});
@@ -212,6 +212,13 @@ describe('parseTypeString', () => {
   it('parses union types', () => {
     expect(printNode(parseTypeString('string | null'))).toBe('string | null');
     expect(printNode(parseTypeString('string | number | boolean'))).toBe('string | number | boolean');
+    expect(printNode(parseTypeString('User[] | null'))).toBe('User[] | null');
+  });
+
+  it('keeps unions nested in object types inside their property', () => {
+    const result = printNode(parseTypeString('{ user: UserResource | null; count: number }'));
+    expect(result).toContain('user: UserResource | null;');
+    expect(result).toContain('count: number;');
   });
 
   it('parses Record types', () => {
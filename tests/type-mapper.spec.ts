@@ -37,6 +37,13 @@ describe('mapPhpTypeToTs', () => {
     expect(mapPhpTypeToTs('immutable_date')).toBe('string');
   });
 
+  it('maps other built-in casts', () => {
+    expect(mapPhpTypeToTs('collection')).toBe('any[]');
+    expect(mapPhpTypeToTs('object')).toBe('Record<string, any>');
+    expect(mapPhpTypeToTs('timestamp')).toBe('number');
+    expect(mapPhpTypeToTs('hashed')).toBe('string');
+  });
+
   it('returns any for unknown types', () => {
     expect(mapPhpTypeToTs('unknown')).toBe('any');
     expect(mapPhpTypeToTs('custom')).toBe('any');
@@ -64,6 +71,23 @@ describe('mapDocTypeToTs', () => {
     expect(mapDocTypeToTs('array<User>')).toBe('User[]');
   });
 
+  it('handles lists and collections by their value type', () => {
+    expect(mapDocTypeToTs('list<int>')).toBe('number[]');
+    expect(mapDocTypeToTs('array<string, Foo|null>')).toBe('(Foo | null)[]');
+    expect(mapDocTypeToTs('\\Illuminate\\Support\\Collection<int, App\\Models\\Tag>')).toBe('Tag[]');
+  });
+
+  it('maps date classes to string', () => {
+    expect(mapDocTypeToTs('\\Carbon\\Carbon|null')).toBe('string | null');
+    expect(mapDocTypeToTs('DateTimeInterface')).toBe('string');
+  });
+
+  it('maps class names through resolveClass', () => {
+    const resolveClass = (name: string) => (name === 'Status' ? 'Status' : 'any');
+    expect(mapDocTypeToTs('Status|Money', resolveClass)).toBe('Status | any');
+    expect(mapDocTypeToTs('Status[]', resolveClass)).toBe('Status[]');
+  });
+
   it('handles mixed type', () => {
     expect(mapDocTypeToTs('mixed')).toBe('any');
   });
@@ -1,3 +1,8 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import ts from 'typescript';
+
 /**
  * Strips leading whitespace from a multi-line string based on the minimum indentation.
  * Useful for writing expected output inline with readable indentation.
@@ -33,3 +38,50 @@ export function dedent(strings: TemplateStringsArray, ...values: unknown[]): str
   // Remove that indentation from all lines and add trailing newline
   return lines.map((line) => (line.length >= minIndent ? line.slice(minIndent) : line)).join('\n') + '\n';
 }
+
+/**
+ * Type-check generated packages as a consumer would, without skipLibCheck, returning the diagnostics.
+ * Packages are written to a temporary directory and resolved by name through `paths`.
+ */
+export function typeCheckPackages(packages: Record<string, Record<string, string>>): string[] {
+  const dir = mkdtempSync(join(tmpdir(), 'ferry-'));
+
+  try {
+    const paths: Record<string, string[]> = {};
+    const rootNames: string[] = [];
+
+    for (const [packageName, files] of Object.entries(packages)) {
+      const packageDir = join(dir, packageName);
+      paths[packageName] = [join(packageDir, 'index.d.ts')];
+      paths[`${packageName}/*`] = [join(packageDir, '*')];
+
+      for (const [path, content] of Object.entries(files)) {
+        mkdirSync(dirname(join(packageDir, path)), { recursive: true });
+        writeFileSync(join(packageDir, path), content);
+        if (path.endsWith('.d.ts')) rootNames.push(join(packageDir, path));
+      }
+    }
+
+    const program = ts.createProgram(rootNames, {
+      noEmit: true,
+      strict: true,
+      skipLibCheck: false,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      target: ts.ScriptTarget.ES2022,
+      lib: ['lib.es2022.d.ts'],
+      types: [],
+      paths,
+    });
+
+    return ts.getPreEmitDiagnostics(program).map((d) => {
+      const message = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+      if (!d.file || d.start === undefined) return message;
+
+      const { line, character } = d.file.getLineAndCharacterOfPosition(d.start);
+      return `${d.file.fileName.slice(dir.length + 1)}(${line + 1},${character + 1}): ${message}`;
+    });
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,72 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { createVirtualModules, writeGeneratedTypes } from '../src/utils/virtual-modules.js';
+
+const files = {
+  'index.js': "export { Status } from './Status.js';\n",
+  'Status.js': 'export const Status = {};\n',
+  'Status.d.ts': 'export declare const Status: {};\n',
+  'Billing/index.js': "export { BillingStatus as Status } from './BillingStatus.js';\n",
+  'Billing/BillingStatus.js': 'export const BillingStatus = {};\n',
+  'package.json': '{}',
+};
+
+describe('createVirtualModules', () => {
+  const modules = createVirtualModules();
+  modules.set('@ferry/enums', files);
+
+  it('resolves the package root to its barrel', () => {
+    expect(modules.resolveId('@ferry/enums')).toBe('\0ferry:@ferry/enums/index.js');
+  });
+
+  it('resolves subpaths to directory barrels', () => {
+    expect(modules.resolveId('@ferry/enums/Billing')).toBe('\0ferry:@ferry/enums/Billing/index.js');
+  });
+
+  it('resolves relative imports between virtual modules', () => {
+    expect(modules.resolveId('./BillingStatus.js', '\0ferry:@ferry/enums/Billing/index.js')).toBe(
+      '\0ferry:@ferry/enums/Billing/BillingStatus.js'
+    );
+  });
+
+  it('ignores other modules', () => {
+    expect(modules.resolveId('@ferry/enumsx')).toBeNull();
+    expect(modules.resolveId('./Status.js', '/src/main.ts')).toBeNull();
+    expect(modules.load('/src/main.ts')).toBeNull();
+  });
+
+  it('loads generated code', () => {
+    expect(modules.load('\0ferry:@ferry/enums/Billing/BillingStatus.js')).toBe(files['Billing/BillingStatus.js']);
+  });
+
+  it('serves replaced files', () => {
+    const updated = createVirtualModules();
+    updated.set('@ferry/enums', files);
+    updated.set('@ferry/enums', { 'index.js': 'export {};\n' });
+
+    expect(updated.load('\0ferry:@ferry/enums/index.js')).toBe('export {};\n');
+    expect(updated.resolveId('@ferry/enums/Billing')).toBeNull();
+  });
+});
+
+describe('writeGeneratedTypes', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = mkdtempSync(join(tmpdir(), 'ferry-'));
+  });
+
+  afterEach(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('writes only type declarations', () => {
+    writeGeneratedTypes(outputDir, files);
+
+    expect(existsSync(join(outputDir, 'Status.d.ts'))).toBe(true);
+    expect(existsSync(join(outputDir, 'Status.js'))).toBe(false);
+    expect(existsSync(join(outputDir, 'package.json'))).toBe(false);
+  });
+});